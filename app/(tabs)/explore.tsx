@@ -1,14 +1,15 @@
 import React, { useState, useEffect } from 'react';
 import { StyleSheet, ScrollView, ActivityIndicator, RefreshControl, TouchableOpacity } from 'react-native';
-import { Image } from 'expo-image';
 
 import ParallaxScrollView from '@/components/parallax-scroll-view';
+import { PropertyPhoto, type PropertyPhotoData } from '@/components/property-photo';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { IconSymbol } from '@/components/ui/icon-symbol';
 import { Fonts } from '@/constants/theme';
 import { apiService } from '@/services/api';
 import { useAuth } from '@/contexts/AuthContext';
+import type { RatingSummary } from '@/contexts/PropertiesContext';
 
 interface Property {
   property_id: string;
@@ -22,13 +23,9 @@ interface Property {
   guest_capacity: number;
   bedroom_count: number;
   bathroom_count: number;
-  rating?: number;
-  review_count?: number;
-  photos?: Array<{
-    photo_id: string;
-    photo_url: string;
-    is_primary: boolean;
-  }>;
+  instant_book?: boolean;
+  rating_summary?: RatingSummary;
+  cover_photo?: PropertyPhotoData | null;
 }
 
 export default function TabTwoScreen() {
@@ -68,15 +65,13 @@ export default function TabTwoScreen() {
   };
 
   const renderPropertyCard = (property: Property) => {
-    const primaryPhoto = property.photos?.find(photo => photo.is_primary) || property.photos?.[0];
-    
     return (
       <TouchableOpacity key={property.property_id} style={styles.propertyCard}>
-        {primaryPhoto ? (
-          <Image
-            source={{ uri: primaryPhoto.photo_url }}
+        {property.cover_photo ? (
+          <PropertyPhoto
+            photo={property.cover_photo}
+            size="card"
             style={styles.propertyImage}
-            contentFit="cover"
           />
         ) : (
           <ThemedView style={styles.propertyImagePlaceholder}>
@@ -94,15 +89,18 @@ export default function TabTwoScreen() {
           <ThemedText style={styles.propertyDetails}>
             {property.guest_capacity} guests · {property.bedroom_count} bedrooms · {property.bathroom_count} bathrooms
           </ThemedText>
+          {property.instant_book && (
+            <ThemedText style={styles.instantBook}>⚡ Instant Book</ThemedText>
+          )}
           <ThemedView style={styles.propertyFooter}>
             <ThemedText type="defaultSemiBold" style={styles.propertyPrice}>
               ${property.price_per_night} per night
             </ThemedText>
-            {property.rating && (
+            {property.rating_summary?.overall_rating != null && (
               <ThemedView style={styles.ratingContainer}>
                 <IconSymbol name="star.fill" size={14} color="#FFD700" />
                 <ThemedText style={styles.ratingText}>
-                  {property.rating.toFixed(1)} ({property.review_count || 0})
+                  {property.rating_summary.overall_rating.toFixed(1)} ({property.rating_summary.review_count})
                 </ThemedText>
               </ThemedView>
             )}
@@ -295,6 +293,12 @@ const styles = StyleSheet.create({
     color: '#666',
     marginBottom: 12,
   },
+  instantBook: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#2E7D32',
+    marginBottom: 8,
+  },
   propertyFooter: {
     flexDirection: 'row',
     justifyContent: 'space-between',
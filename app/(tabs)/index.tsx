@@ -1,5 +1,6 @@
 import React, { useState } from 'react';
 import { Image, StyleSheet, ScrollView, View, TouchableOpacity, ActivityIndicator } from 'react-native';
+import { PropertyPhoto } from '@/components/property-photo';
 import { ThemedText } from '@/components/themed-text';
 import { ThemedView } from '@/components/themed-view';
 import { useAuth } from '@/contexts/AuthContext';
@@ -99,6 +100,9 @@ export default function HomeScreen() {
             {properties.slice(0, 3).map((property) => (
               <Link key={property.property_id} href={`/property/${property.property_id}`} asChild>
                 <TouchableOpacity style={styles.propertyCard}>
+                  {property.cover_photo && (
+                    <PropertyPhoto photo={property.cover_photo} size="card" style={styles.propertyImage} />
+                  )}
                   <View style={styles.propertyHeader}>
                     <ThemedText style={styles.propertyTitle}>{property.title}</ThemedText>
                     <ThemedText style={styles.propertyType}>{property.property_type}</ThemedText>
@@ -110,6 +114,9 @@ export default function HomeScreen() {
                   <ThemedText style={styles.propertyCapacity}>
                     {property.guest_capacity} guests • {property.bedrooms} bedrooms • {property.bathrooms} bathrooms
                   </ThemedText>
+                  <ThemedText style={property.instant_book ? styles.instantBook : styles.requestToBook}>
+                    {property.instant_book ? '⚡ Instant Book' : 'Request to book'}
+                  </ThemedText>
                 </TouchableOpacity>
               </Link>
             ))}
@@ -259,6 +266,12 @@ const styles = StyleSheet.create({
     padding: 16,
     marginBottom: 12,
   },
+  propertyImage: {
+    width: '100%',
+    height: 160,
+    borderRadius: 6,
+    marginBottom: 12,
+  },
   propertyHeader: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -289,6 +302,17 @@ const styles = StyleSheet.create({
     fontSize: 12,
     opacity: 0.6,
   },
+  instantBook: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#2E7D32',
+    marginTop: 4,
+  },
+  requestToBook: {
+    fontSize: 12,
+    opacity: 0.6,
+    marginTop: 4,
+  },
   quickActions: {
     marginTop: 24,
   },
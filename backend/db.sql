@@ -12,10 +12,37 @@ CREATE TABLE IF NOT EXISTS users (
     role TEXT NOT NULL,
     is_verified BOOLEAN NOT NULL DEFAULT FALSE,
     verification_document_url TEXT,
+    phone_verified BOOLEAN NOT NULL DEFAULT FALSE,
+    phone_verified_at TEXT,
+    profile_picture_file TEXT,
+    verification_document_file TEXT,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS phone_verifications (
+    verification_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(user_id),
+    phone_number TEXT NOT NULL,
+    code_hash TEXT NOT NULL,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    expires_at TEXT NOT NULL,
+    consumed_at TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS sessions (
+    session_id TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL REFERENCES users(user_id),
+    refresh_token_hash TEXT NOT NULL,
+    user_agent TEXT,
+    ip_address TEXT,
+    created_at TEXT NOT NULL,
+    last_used_at TEXT NOT NULL,
+    expires_at TEXT NOT NULL,
+    revoked_at TEXT
+);
+
 CREATE TABLE IF NOT EXISTS properties (
     property_id TEXT PRIMARY KEY,
     host_id TEXT NOT NULL REFERENCES users(user_id),
@@ -39,17 +66,48 @@ CREATE TABLE IF NOT EXISTS properties (
     house_rules TEXT,
     cancellation_policy TEXT NOT NULL,
     instant_book BOOLEAN NOT NULL DEFAULT FALSE,
+    instant_book_requires_verified BOOLEAN NOT NULL DEFAULT TRUE,
+    -- Stay restrictions; weekdays are 0 = Sunday to 6 = Saturday, NULL limits are unlimited
+    min_nights INTEGER NOT NULL DEFAULT 1,
+    max_nights INTEGER,
+    advance_notice_hours INTEGER NOT NULL DEFAULT 0,
+    booking_window_days INTEGER,
+    closed_arrival_weekdays INTEGER[] NOT NULL DEFAULT '{}',
+    closed_departure_weekdays INTEGER[] NOT NULL DEFAULT '{}',
     is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    suspended_at TEXT,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL
 );
 
+-- Amenities a listing can offer; amenity_key is the stable identifier used by search filters
+CREATE TABLE IF NOT EXISTS amenities (
+    amenity_key TEXT PRIMARY KEY,
+    name_en TEXT NOT NULL,
+    name_ar TEXT NOT NULL,
+    category TEXT NOT NULL,
+    display_order INTEGER NOT NULL DEFAULT 0
+);
+
+-- properties.amenities keeps the English names of these rows, comma-separated, for older clients
+CREATE TABLE IF NOT EXISTS property_amenities (
+    property_id TEXT NOT NULL REFERENCES properties(property_id),
+    amenity_key TEXT NOT NULL REFERENCES amenities(amenity_key),
+    PRIMARY KEY (property_id, amenity_key)
+);
+
 CREATE TABLE IF NOT EXISTS property_photos (
     photo_id TEXT PRIMARY KEY,
     property_id TEXT NOT NULL REFERENCES properties(property_id),
     photo_url TEXT NOT NULL,
     caption TEXT,
     display_order INTEGER NOT NULL,
+    thumbnail_url TEXT,
+    card_url TEXT,
+    full_url TEXT,
+    blurhash TEXT,
+    -- Stored name of the original uploaded for this row; NULL when photo_url was given
+    photo_file TEXT,
     created_at TEXT NOT NULL
 );
 
@@ -61,6 +119,63 @@ CREATE TABLE IF NOT EXISTS property_availability (
     price_override NUMERIC
 );
 
+-- Stay restrictions for a span of dates, e.g. a weekly minimum over summer; min_nights and
+-- max_nights apply to stays arriving in the span and replace the property's own, and the
+-- closed flags stop check-ins or check-outs on its dates. Both dates are inclusive
+CREATE TABLE IF NOT EXISTS stay_restrictions (
+    restriction_id TEXT PRIMARY KEY,
+    property_id TEXT NOT NULL REFERENCES properties(property_id),
+    start_date TEXT NOT NULL,
+    end_date TEXT NOT NULL,
+    min_nights INTEGER,
+    max_nights INTEGER,
+    closed_to_arrival BOOLEAN NOT NULL DEFAULT FALSE,
+    closed_to_departure BOOLEAN NOT NULL DEFAULT FALSE,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Secret token of a property's iCalendar export feed; rotating it revokes the old URL
+CREATE TABLE IF NOT EXISTS ical_exports (
+    property_id TEXT PRIMARY KEY REFERENCES properties(property_id),
+    token TEXT NOT NULL UNIQUE,
+    created_at TEXT NOT NULL
+);
+
+-- External calendars whose events block nights here; uploads have no source_url and
+-- are only re-read when uploaded again
+CREATE TABLE IF NOT EXISTS ical_imports (
+    import_id TEXT PRIMARY KEY,
+    property_id TEXT NOT NULL REFERENCES properties(property_id),
+    name TEXT NOT NULL,
+    source_url TEXT,
+    last_synced_at TEXT,
+    last_sync_status TEXT,
+    last_error TEXT,
+    event_count INTEGER NOT NULL DEFAULT 0,
+    conflicts TEXT NOT NULL DEFAULT '[]',
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Host pricing rules; weekend and seasonal rules set a night's price, the others adjust a
+-- stay's nightly subtotal by adjustment_percent (negative for discounts)
+CREATE TABLE IF NOT EXISTS pricing_rules (
+    rule_id TEXT PRIMARY KEY,
+    property_id TEXT NOT NULL REFERENCES properties(property_id),
+    rule_type TEXT NOT NULL CHECK (rule_type IN ('weekend', 'seasonal', 'length_of_stay', 'early_bird', 'last_minute')),
+    name TEXT NOT NULL,
+    start_date TEXT,
+    end_date TEXT,
+    nightly_price NUMERIC CHECK (nightly_price > 0),
+    adjustment_percent NUMERIC,
+    min_nights INTEGER,
+    days_before INTEGER,
+    is_active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS bookings (
     booking_id TEXT PRIMARY KEY,
     property_id TEXT NOT NULL REFERENCES properties(property_id),
@@ -77,6 +192,46 @@ CREATE TABLE IF NOT EXISTS bookings (
     updated_at TEXT NOT NULL
 );
 
+-- LYD per unit of a foreign currency, kept by admins; Libya's official and parallel-market
+-- rates differ widely, so both are stored and requests choose which one applies
+CREATE TABLE IF NOT EXISTS exchange_rates (
+    currency TEXT NOT NULL,
+    rate_type TEXT NOT NULL CHECK (rate_type IN ('official', 'parallel')),
+    lyd_per_unit NUMERIC NOT NULL CHECK (lyd_per_unit > 0),
+    updated_by TEXT REFERENCES users(user_id),
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (currency, rate_type)
+);
+
+CREATE TABLE IF NOT EXISTS booking_status_history (
+    history_id TEXT PRIMARY KEY,
+    booking_id TEXT NOT NULL REFERENCES bookings(booking_id),
+    from_status TEXT,
+    to_status TEXT NOT NULL,
+    changed_by TEXT REFERENCES users(user_id),
+    actor_role TEXT NOT NULL,
+    reason TEXT,
+    created_at TEXT NOT NULL
+);
+
+CREATE TABLE IF NOT EXISTS booking_cancellations (
+    cancellation_id TEXT PRIMARY KEY,
+    booking_id TEXT NOT NULL UNIQUE REFERENCES bookings(booking_id),
+    cancelled_by TEXT REFERENCES users(user_id),
+    actor_role TEXT NOT NULL,
+    reason TEXT,
+    previous_status TEXT NOT NULL,
+    cancellation_policy TEXT NOT NULL,
+    days_before_check_in INTEGER NOT NULL,
+    refund_percentage NUMERIC NOT NULL,
+    refund_subtotal NUMERIC NOT NULL,
+    refund_service_fee NUMERIC NOT NULL,
+    refund_amount NUMERIC NOT NULL,
+    host_penalty NUMERIC NOT NULL DEFAULT 0,
+    currency TEXT NOT NULL,
+    created_at TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS conversations (
     conversation_id TEXT PRIMARY KEY,
     booking_id TEXT NOT NULL REFERENCES bookings(booking_id),
@@ -109,18 +264,79 @@ CREATE TABLE IF NOT EXISTS reviews (
     value_rating INTEGER NOT NULL,
     overall_rating INTEGER NOT NULL,
     comment TEXT,
+    published_at TEXT,
     created_at TEXT NOT NULL,
     updated_at TEXT NOT NULL
 );
 
+-- A host's review of the guest of a completed stay; hidden like reviews until published_at is set
+CREATE TABLE IF NOT EXISTS guest_reviews (
+    guest_review_id TEXT PRIMARY KEY,
+    booking_id TEXT NOT NULL UNIQUE REFERENCES bookings(booking_id),
+    guest_id TEXT NOT NULL REFERENCES users(user_id),
+    host_id TEXT NOT NULL REFERENCES users(user_id),
+    house_rules_rating INTEGER NOT NULL,
+    cleanliness_rating INTEGER NOT NULL,
+    communication_rating INTEGER NOT NULL,
+    overall_rating INTEGER NOT NULL,
+    comment TEXT,
+    published_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Averages and overall_rating histogram of the published reviews of a property or host
+-- (entity_type 'property' or 'host'); recomputed by the server whenever those reviews change
+CREATE TABLE IF NOT EXISTS rating_summaries (
+    entity_type TEXT NOT NULL,
+    entity_id TEXT NOT NULL,
+    review_count INTEGER NOT NULL DEFAULT 0,
+    overall_rating NUMERIC,
+    cleanliness_rating NUMERIC,
+    accuracy_rating NUMERIC,
+    communication_rating NUMERIC,
+    location_rating NUMERIC,
+    check_in_rating NUMERIC,
+    value_rating NUMERIC,
+    rating_1_count INTEGER NOT NULL DEFAULT 0,
+    rating_2_count INTEGER NOT NULL DEFAULT 0,
+    rating_3_count INTEGER NOT NULL DEFAULT 0,
+    rating_4_count INTEGER NOT NULL DEFAULT 0,
+    rating_5_count INTEGER NOT NULL DEFAULT 0,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (entity_type, entity_id)
+);
+
+-- Spellings of Libyan place names for text search, e.g. طرابلس, trablus and tripoli;
+-- aliases are single words stored as normalize_search_text returns them
+CREATE TABLE IF NOT EXISTS place_name_aliases (
+    alias TEXT PRIMARY KEY,
+    place_name TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS review_photos (
     photo_id TEXT PRIMARY KEY,
     review_id TEXT NOT NULL REFERENCES reviews(review_id),
     photo_url TEXT NOT NULL,
     caption TEXT,
+    thumbnail_url TEXT,
+    card_url TEXT,
+    full_url TEXT,
+    blurhash TEXT,
+    photo_file TEXT,
     created_at TEXT NOT NULL
 );
 
+-- A host's public reply to a review; at most one per review
+CREATE TABLE IF NOT EXISTS review_responses (
+    response_id TEXT PRIMARY KEY,
+    review_id TEXT NOT NULL UNIQUE REFERENCES reviews(review_id),
+    host_id TEXT NOT NULL REFERENCES users(user_id),
+    response TEXT NOT NULL,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
 CREATE TABLE IF NOT EXISTS admin_actions (
     action_id TEXT PRIMARY KEY,
     admin_id TEXT NOT NULL REFERENCES users(user_id),
@@ -143,6 +359,173 @@ CREATE TABLE IF NOT EXISTS notifications (
     created_at TEXT NOT NULL
 );
 
+CREATE TABLE IF NOT EXISTS jobs (
+    job_id TEXT PRIMARY KEY,
+    job_type TEXT NOT NULL,
+    dedupe_key TEXT NOT NULL UNIQUE,
+    payload TEXT NOT NULL,
+    status TEXT NOT NULL DEFAULT 'pending',
+    attempts INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 5,
+    run_at TEXT NOT NULL,
+    locked_at TEXT,
+    locked_by TEXT,
+    last_error TEXT,
+    completed_at TEXT,
+    created_at TEXT NOT NULL,
+    updated_at TEXT NOT NULL
+);
+
+-- Columns added after the initial release, for databases created before them
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS instant_book_requires_verified BOOLEAN NOT NULL DEFAULT TRUE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS phone_verified BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS phone_verified_at TEXT;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS suspended_at TEXT;
+ALTER TABLE property_photos ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+ALTER TABLE property_photos ADD COLUMN IF NOT EXISTS card_url TEXT;
+ALTER TABLE property_photos ADD COLUMN IF NOT EXISTS full_url TEXT;
+ALTER TABLE property_photos ADD COLUMN IF NOT EXISTS blurhash TEXT;
+ALTER TABLE review_photos ADD COLUMN IF NOT EXISTS thumbnail_url TEXT;
+ALTER TABLE review_photos ADD COLUMN IF NOT EXISTS card_url TEXT;
+ALTER TABLE review_photos ADD COLUMN IF NOT EXISTS full_url TEXT;
+ALTER TABLE review_photos ADD COLUMN IF NOT EXISTS blurhash TEXT;
+ALTER TABLE property_photos ADD COLUMN IF NOT EXISTS photo_file TEXT;
+ALTER TABLE review_photos ADD COLUMN IF NOT EXISTS photo_file TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS profile_picture_file TEXT;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS verification_document_file TEXT;
+-- Rates in force when the booking was made: LYD per unit of its currency, and display
+-- currency units per unit of its currency
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS lyd_exchange_rate NUMERIC;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS display_currency TEXT;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS display_exchange_rate NUMERIC;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS exchange_rate_type TEXT;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS min_nights INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS max_nights INTEGER;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS advance_notice_hours INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS booking_window_days INTEGER;
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS closed_arrival_weekdays INTEGER[] NOT NULL DEFAULT '{}';
+ALTER TABLE properties ADD COLUMN IF NOT EXISTS closed_departure_weekdays INTEGER[] NOT NULL DEFAULT '{}';
+
+-- Bookings made before currencies were recorded were priced in their listing's currency
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'bookings' AND column_name = 'currency') THEN
+        ALTER TABLE bookings ADD COLUMN currency TEXT NOT NULL DEFAULT 'LYD';
+        UPDATE bookings b SET currency = p.currency FROM properties p WHERE p.property_id = b.property_id;
+    END IF;
+END $$;
+
+-- Reviews written before blind publishing stay visible
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM information_schema.columns WHERE table_name = 'reviews' AND column_name = 'published_at') THEN
+        ALTER TABLE reviews ADD COLUMN published_at TEXT;
+        UPDATE reviews SET published_at = created_at;
+    END IF;
+END $$;
+
+-- Calendar integrity
+-- Nights held by a confirmed booking are stored with its booking_id; one row per property and date
+ALTER TABLE property_availability ADD COLUMN IF NOT EXISTS booking_id TEXT REFERENCES bookings(booking_id);
+CREATE UNIQUE INDEX IF NOT EXISTS property_availability_property_date_key ON property_availability (property_id, date);
+-- Nights blocked by an imported calendar are released when its events go away
+ALTER TABLE property_availability ADD COLUMN IF NOT EXISTS ical_import_id TEXT REFERENCES ical_imports(import_id);
+
+-- Confirmed stays of the same property may never overlap
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+CREATE OR REPLACE FUNCTION booking_stay_range(check_in TEXT, check_out TEXT) RETURNS daterange AS $$
+    SELECT daterange(left(check_in, 10)::date, left(check_out, 10)::date, '[)')
+$$ LANGUAGE sql IMMUTABLE;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'bookings_no_overlapping_stays') THEN
+        ALTER TABLE bookings ADD CONSTRAINT bookings_no_overlapping_stays
+            EXCLUDE USING gist (property_id WITH =, booking_stay_range(check_in, check_out) WITH &&)
+            WHERE (status = 'confirmed');
+    END IF;
+END $$;
+
+-- Resend throttling looks up a user's recent codes
+CREATE INDEX IF NOT EXISTS phone_verifications_user_created_idx ON phone_verifications (user_id, created_at);
+
+-- Uploaded user files belong to one user each; documents are served by this lookup
+CREATE UNIQUE INDEX IF NOT EXISTS users_profile_picture_file_key ON users (profile_picture_file);
+CREATE UNIQUE INDEX IF NOT EXISTS users_verification_document_file_key ON users (verification_document_file);
+
+-- Active session lookups per user
+CREATE INDEX IF NOT EXISTS sessions_user_id_idx ON sessions (user_id);
+
+-- Job queue: workers claim due jobs by status and run_at
+CREATE INDEX IF NOT EXISTS jobs_status_run_at_idx ON jobs (status, run_at);
+
+-- Calendar imports of a property
+CREATE INDEX IF NOT EXISTS ical_imports_property_id_idx ON ical_imports (property_id);
+
+-- Stay restrictions of a property
+CREATE INDEX IF NOT EXISTS stay_restrictions_property_id_idx ON stay_restrictions (property_id);
+
+-- Pricing rules of a property
+CREATE INDEX IF NOT EXISTS pricing_rules_property_id_idx ON pricing_rules (property_id);
+
+-- Geo search
+-- Great-circle distance in kilometres between two coordinates
+CREATE OR REPLACE FUNCTION haversine_km(lat1 NUMERIC, lng1 NUMERIC, lat2 NUMERIC, lng2 NUMERIC) RETURNS DOUBLE PRECISION AS $$
+    SELECT 2 * 6371 * asin(least(1, sqrt(
+        power(sin(radians(lat2 - lat1) / 2), 2) +
+        cos(radians(lat1)) * cos(radians(lat2)) * power(sin(radians(lng2 - lng1) / 2), 2)
+    )))
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Bounding boxes are matched against point(longitude, latitude); listings without coordinates are not indexed
+CREATE INDEX IF NOT EXISTS properties_location_idx ON properties USING gist (point(longitude, latitude))
+    WHERE latitude IS NOT NULL AND longitude IS NOT NULL;
+
+-- Exchange rates
+-- An amount in LYD at the stored rate of the given type; NULL when the currency has no rate
+CREATE OR REPLACE FUNCTION lyd_amount(amount NUMERIC, from_currency TEXT, kind TEXT) RETURNS NUMERIC AS $$
+    SELECT CASE WHEN from_currency = 'LYD' THEN amount
+        ELSE amount * (SELECT lyd_per_unit FROM exchange_rates WHERE currency = from_currency AND rate_type = kind)
+    END
+$$ LANGUAGE sql STABLE;
+
+-- Full-text search
+-- Lower-cases and folds Arabic spelling variants: strips diacritics and tatweel, unifies
+-- alef, ya, ta marbuta and hamza carriers, and drops the article from و?ال words
+CREATE OR REPLACE FUNCTION normalize_search_text(value TEXT) RETURNS TEXT AS $$
+    SELECT regexp_replace(
+        translate(
+            regexp_replace(lower(coalesce(value, '')), '[\u064B-\u0652\u0640\u0670]', '', 'g'),
+            'أإآٱىةؤئ', 'اااايهوي'
+        ),
+        '(^|[^\u0621-\u064Aa-z0-9])و?ال([\u0621-\u064A]{2,})', '\1\2', 'g'
+    )
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Titles rank above places, places above amenities and amenities above descriptions
+-- Changing either function requires REINDEX INDEX properties_search_idx; normalize_search_text
+-- is schema-qualified because index builds run with only pg_catalog on the search_path
+CREATE OR REPLACE FUNCTION property_search_vector(title TEXT, description TEXT, city TEXT, neighborhood TEXT, amenities TEXT)
+RETURNS tsvector AS $$
+    SELECT setweight(to_tsvector('simple', public.normalize_search_text(title)), 'A') ||
+        setweight(to_tsvector('simple', public.normalize_search_text(coalesce(city, '') || ' ' || coalesce(neighborhood, ''))), 'B') ||
+        setweight(to_tsvector('simple', public.normalize_search_text(amenities)), 'C') ||
+        setweight(to_tsvector('simple', public.normalize_search_text(description)), 'D')
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE INDEX IF NOT EXISTS properties_search_idx ON properties
+    USING gin (property_search_vector(title, description, city, neighborhood, amenities));
+
+-- Amenity filters look up listings by amenity
+CREATE INDEX IF NOT EXISTS property_amenities_amenity_key_idx ON property_amenities (amenity_key);
+
+-- Property search filters and sorts on the average rating
+CREATE INDEX IF NOT EXISTS rating_summaries_overall_rating_idx ON rating_summaries (entity_type, overall_rating);
+
+-- Guest reputation lookups
+CREATE INDEX IF NOT EXISTS guest_reviews_guest_id_idx ON guest_reviews (guest_id);
+
 -- Seed data
 -- Users
 INSERT INTO users (user_id, email, phone_number, password_hash, name, profile_picture_url, bio, emergency_contact_name, emergency_contact_phone, role, is_verified, verification_document_url, created_at, updated_at) VALUES
@@ -160,6 +543,56 @@ INSERT INTO properties (property_id, host_id, title, description, city, neighbor
 ('prop_003', 'user_003', 'Traditional House in Benghazi', 'Experience traditional Libyan hospitality in this beautiful old town house.', 'Benghazi', 'Al-Wahda', '789 Al-Mujtahid Street', 32.1149, 20.0691, 'house', 6, 3, 4, 2, 'WiFi,Patio,Garden,Kitchen,Washer', 120, 'LYD', FALSE, TRUE, 'Respect for cultural traditions', 'strict', FALSE, TRUE, '2023-02-05T10:00:00Z', '2023-02-05T10:00:00Z')
 ON CONFLICT (property_id) DO NOTHING;
 
+-- Amenities
+INSERT INTO amenities (amenity_key, name_en, name_ar, category, display_order) VALUES
+('wifi', 'WiFi', 'واي فاي', 'essentials', 10),
+('air_conditioning', 'Air Conditioning', 'تكييف', 'essentials', 20),
+('heating', 'Heating', 'تدفئة', 'essentials', 30),
+('workspace', 'Workspace', 'مساحة عمل', 'essentials', 40),
+('elevator', 'Elevator', 'مصعد', 'essentials', 50),
+('kitchen', 'Kitchen', 'مطبخ', 'kitchen', 60),
+('refrigerator', 'Refrigerator', 'ثلاجة', 'kitchen', 70),
+('microwave', 'Microwave', 'ميكروويف', 'kitchen', 80),
+('coffee_maker', 'Coffee Maker', 'آلة قهوة', 'kitchen', 90),
+('washer', 'Washer', 'غسالة ملابس', 'laundry', 100),
+('dryer', 'Dryer', 'مجفف ملابس', 'laundry', 110),
+('tv', 'TV', 'تلفزيون', 'entertainment', 120),
+('satellite_tv', 'Satellite TV', 'قنوات فضائية', 'entertainment', 130),
+('balcony', 'Balcony', 'شرفة', 'outdoor', 140),
+('patio', 'Patio', 'فناء', 'outdoor', 150),
+('garden', 'Garden', 'حديقة', 'outdoor', 160),
+('pool', 'Pool', 'مسبح', 'outdoor', 170),
+('bbq_grill', 'BBQ Grill', 'شواية', 'outdoor', 180),
+('sea_view', 'Sea View', 'إطلالة على البحر', 'outdoor', 190),
+('parking', 'Parking', 'موقف سيارات', 'parking', 200),
+('smoke_alarm', 'Smoke Alarm', 'كاشف دخان', 'safety', 210),
+('fire_extinguisher', 'Fire Extinguisher', 'طفاية حريق', 'safety', 220),
+('first_aid_kit', 'First Aid Kit', 'حقيبة إسعافات أولية', 'safety', 230),
+('crib', 'Crib', 'سرير أطفال', 'family', 240),
+('high_chair', 'High Chair', 'كرسي أطفال', 'family', 250)
+ON CONFLICT (amenity_key) DO NOTHING;
+
+-- Amenity names in properties.amenities that are not in the catalog, e.g. from before it existed;
+-- they are kept under 'other' with the English name until an admin relabels or merges them
+INSERT INTO amenities (amenity_key, name_en, name_ar, category, display_order)
+SELECT DISTINCT ON (amenity_key) amenity_key, name, name, 'other', 1000
+FROM (
+    SELECT trim(name) AS name, trim(BOTH '_' FROM regexp_replace(lower(trim(name)), '[^a-z0-9]+', '_', 'g')) AS amenity_key
+    FROM properties, unnest(string_to_array(amenities, ',')) AS name
+) AS listed
+WHERE amenity_key <> ''
+    AND NOT EXISTS (SELECT 1 FROM amenities a WHERE lower(a.name_en) = lower(listed.name) OR a.name_ar = listed.name)
+ORDER BY amenity_key, name
+ON CONFLICT (amenity_key) DO NOTHING;
+
+-- Property Amenities, parsed from properties.amenities
+INSERT INTO property_amenities (property_id, amenity_key)
+SELECT DISTINCT p.property_id, a.amenity_key
+FROM properties p, unnest(string_to_array(p.amenities, ',')) AS name
+JOIN amenities a ON lower(a.name_en) = lower(trim(name)) OR a.name_ar = trim(name)
+    OR a.amenity_key = trim(BOTH '_' FROM regexp_replace(lower(trim(name)), '[^a-z0-9]+', '_', 'g'))
+ON CONFLICT (property_id, amenity_key) DO NOTHING;
+
 -- Property Photos
 INSERT INTO property_photos (photo_id, property_id, photo_url, caption, display_order, created_at) VALUES
 ('photo_001', 'prop_001', 'https://picsum.photos/800/600?random=201', 'Living room with sea view', 1, '2023-01-20T10:00:00Z'),
@@ -181,12 +614,35 @@ INSERT INTO property_availability (availability_id, property_id, date, is_availa
 ('avail_006', 'prop_003', '2023-06-01', TRUE, NULL)
 ON CONFLICT (availability_id) DO NOTHING;
 
+-- Exchange Rates
+INSERT INTO exchange_rates (currency, rate_type, lyd_per_unit, updated_by, updated_at) VALUES
+('USD', 'official', 4.83, NULL, '2024-01-01T00:00:00Z'),
+('USD', 'parallel', 7.1, NULL, '2024-01-01T00:00:00Z'),
+('EUR', 'official', 5.24, NULL, '2024-01-01T00:00:00Z'),
+('EUR', 'parallel', 7.65, NULL, '2024-01-01T00:00:00Z'),
+('GBP', 'official', 6.12, NULL, '2024-01-01T00:00:00Z'),
+('GBP', 'parallel', 8.95, NULL, '2024-01-01T00:00:00Z'),
+('TND', 'official', 1.55, NULL, '2024-01-01T00:00:00Z'),
+('TND', 'parallel', 2.25, NULL, '2024-01-01T00:00:00Z'),
+('EGP', 'official', 0.098, NULL, '2024-01-01T00:00:00Z'),
+('EGP', 'parallel', 0.145, NULL, '2024-01-01T00:00:00Z'),
+('TRY', 'official', 0.15, NULL, '2024-01-01T00:00:00Z'),
+('TRY', 'parallel', 0.21, NULL, '2024-01-01T00:00:00Z')
+ON CONFLICT (currency, rate_type) DO NOTHING;
+
 -- Bookings
 INSERT INTO bookings (booking_id, property_id, guest_id, host_id, check_in, check_out, guest_count, total_price, service_fee, special_requests, status, created_at, updated_at) VALUES
 ('book_001', 'prop_001', 'user_002', 'user_001', '2023-06-01', '2023-06-05', 2, 650, 65, 'Late check-in around 10 PM', 'confirmed', '2023-05-01T10:00:00Z', '2023-05-01T10:00:00Z'),
 ('book_002', 'prop_003', 'user_004', 'user_003', '2023-06-10', '2023-06-15', 4, 650, 65, 'Celebrating anniversary', 'pending', '2023-05-15T10:00:00Z', '2023-05-15T10:00:00Z')
 ON CONFLICT (booking_id) DO NOTHING;
 
+-- Booking Status History
+INSERT INTO booking_status_history (history_id, booking_id, from_status, to_status, changed_by, actor_role, reason, created_at) VALUES
+('bhist_001', 'book_001', NULL, 'pending', 'user_002', 'guest', NULL, '2023-05-01T10:00:00Z'),
+('bhist_002', 'book_001', 'pending', 'confirmed', 'user_001', 'host', NULL, '2023-05-01T12:00:00Z'),
+('bhist_003', 'book_002', NULL, 'pending', 'user_004', 'guest', NULL, '2023-05-15T10:00:00Z')
+ON CONFLICT (history_id) DO NOTHING;
+
 -- Conversations
 INSERT INTO conversations (conversation_id, booking_id, guest_id, host_id, created_at, updated_at) VALUES
 ('conv_001', 'book_001', 'user_002', 'user_001', '2023-05-01T10:05:00Z', '2023-05-01T10:05:00Z'),
@@ -201,8 +657,8 @@ INSERT INTO messages (message_id, conversation_id, sender_id, content, is_read,
 ON CONFLICT (message_id) DO NOTHING;
 
 -- Reviews
-INSERT INTO reviews (review_id, booking_id, property_id, reviewer_id, host_id, cleanliness_rating, accuracy_rating, communication_rating, location_rating, check_in_rating, value_rating, overall_rating, comment, created_at, updated_at) VALUES
-('rev_001', 'book_001', 'prop_001', 'user_002', 'user_001', 5, 5, 5, 4, 5, 5, 5, 'Amazing stay! Ahmed was a wonderful host and the apartment was exactly as described.', '2023-06-06T10:00:00Z', '2023-06-06T10:00:00Z')
+INSERT INTO reviews (review_id, booking_id, property_id, reviewer_id, host_id, cleanliness_rating, accuracy_rating, communication_rating, location_rating, check_in_rating, value_rating, overall_rating, comment, published_at, created_at, updated_at) VALUES
+('rev_001', 'book_001', 'prop_001', 'user_002', 'user_001', 5, 5, 5, 4, 5, 5, 5, 'Amazing stay! Ahmed was a wonderful host and the apartment was exactly as described.', '2023-06-06T10:00:00Z', '2023-06-06T10:00:00Z', '2023-06-06T10:00:00Z')
 ON CONFLICT (review_id) DO NOTHING;
 
 -- Review Photos
@@ -210,6 +666,96 @@ INSERT INTO review_photos (photo_id, review_id, photo_url, caption, created_at)
 ('rphoto_001', 'rev_001', 'https://picsum.photos/800/600?random=301', 'View from the balcony', '2023-06-06T10:00:00Z')
 ON CONFLICT (photo_id) DO NOTHING;
 
+-- Review Responses
+INSERT INTO review_responses (response_id, review_id, host_id, response, created_at, updated_at) VALUES
+('resp_001', 'rev_001', 'user_001', 'Thank you Sara, it was a pleasure hosting you. You are welcome back any time!', '2023-06-07T09:00:00Z', '2023-06-07T09:00:00Z')
+ON CONFLICT (response_id) DO NOTHING;
+
+-- Rating Summaries, for reviews that predate them
+INSERT INTO rating_summaries (entity_type, entity_id, review_count, overall_rating, cleanliness_rating, accuracy_rating, communication_rating, location_rating, check_in_rating, value_rating, rating_1_count, rating_2_count, rating_3_count, rating_4_count, rating_5_count, updated_at)
+SELECT 'property', property_id, COUNT(*), ROUND(AVG(overall_rating), 2), ROUND(AVG(cleanliness_rating), 2), ROUND(AVG(accuracy_rating), 2), ROUND(AVG(communication_rating), 2), ROUND(AVG(location_rating), 2), ROUND(AVG(check_in_rating), 2), ROUND(AVG(value_rating), 2),
+    COUNT(*) FILTER (WHERE overall_rating = 1), COUNT(*) FILTER (WHERE overall_rating = 2), COUNT(*) FILTER (WHERE overall_rating = 3), COUNT(*) FILTER (WHERE overall_rating = 4), COUNT(*) FILTER (WHERE overall_rating = 5), MAX(published_at)
+FROM reviews WHERE published_at IS NOT NULL GROUP BY property_id
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+INSERT INTO rating_summaries (entity_type, entity_id, review_count, overall_rating, cleanliness_rating, accuracy_rating, communication_rating, location_rating, check_in_rating, value_rating, rating_1_count, rating_2_count, rating_3_count, rating_4_count, rating_5_count, updated_at)
+SELECT 'host', host_id, COUNT(*), ROUND(AVG(overall_rating), 2), ROUND(AVG(cleanliness_rating), 2), ROUND(AVG(accuracy_rating), 2), ROUND(AVG(communication_rating), 2), ROUND(AVG(location_rating), 2), ROUND(AVG(check_in_rating), 2), ROUND(AVG(value_rating), 2),
+    COUNT(*) FILTER (WHERE overall_rating = 1), COUNT(*) FILTER (WHERE overall_rating = 2), COUNT(*) FILTER (WHERE overall_rating = 3), COUNT(*) FILTER (WHERE overall_rating = 4), COUNT(*) FILTER (WHERE overall_rating = 5), MAX(published_at)
+FROM reviews WHERE published_at IS NOT NULL GROUP BY host_id
+ON CONFLICT (entity_type, entity_id) DO NOTHING;
+
+-- Place Name Aliases
+INSERT INTO place_name_aliases (alias, place_name)
+SELECT normalize_search_text(alias), place_name FROM (VALUES
+('tripoli', 'tripoli'),
+('طرابلس', 'tripoli'),
+('trablus', 'tripoli'),
+('tarabulus', 'tripoli'),
+('tarablus', 'tripoli'),
+('benghazi', 'benghazi'),
+('بنغازي', 'benghazi'),
+('banghazi', 'benghazi'),
+('bengasi', 'benghazi'),
+('bingazi', 'benghazi'),
+('misrata', 'misrata'),
+('مصراتة', 'misrata'),
+('misurata', 'misrata'),
+('misratah', 'misrata'),
+('zawiya', 'zawiya'),
+('الزاوية', 'zawiya'),
+('zawiyah', 'zawiya'),
+('zawia', 'zawiya'),
+('zliten', 'zliten'),
+('زليتن', 'zliten'),
+('zlitan', 'zliten'),
+('khoms', 'khoms'),
+('الخمس', 'khoms'),
+('khums', 'khoms'),
+('homs', 'khoms'),
+('sabha', 'sabha'),
+('سبها', 'sabha'),
+('sebha', 'sabha'),
+('tobruk', 'tobruk'),
+('طبرق', 'tobruk'),
+('tubruq', 'tobruk'),
+('bayda', 'bayda'),
+('البيضاء', 'bayda'),
+('beida', 'bayda'),
+('baida', 'bayda'),
+('derna', 'derna'),
+('درنة', 'derna'),
+('darnah', 'derna'),
+('darna', 'derna'),
+('sirte', 'sirte'),
+('سرت', 'sirte'),
+('surt', 'sirte'),
+('sirt', 'sirte'),
+('ajdabiya', 'ajdabiya'),
+('اجدابيا', 'ajdabiya'),
+('ajdabiyah', 'ajdabiya'),
+('ajdabia', 'ajdabiya'),
+('ghadames', 'ghadames'),
+('غدامس', 'ghadames'),
+('ghadamis', 'ghadames'),
+('gharyan', 'gharyan'),
+('غريان', 'gharyan'),
+('gharian', 'gharyan'),
+('zuwara', 'zuwara'),
+('زوارة', 'zuwara'),
+('zuwarah', 'zuwara'),
+('zuara', 'zuwara'),
+('shahhat', 'shahhat'),
+('شحات', 'shahhat'),
+('cyrene', 'shahhat'),
+('hadba', 'hadba'),
+('الهضبة', 'hadba'),
+('mahatta', 'mahatta'),
+('المحطة', 'mahatta'),
+('wahda', 'wahda'),
+('الوحدة', 'wahda')
+) AS aliases (alias, place_name)
+ON CONFLICT (alias) DO NOTHING;
+
 -- Admin Actions
 INSERT INTO admin_actions (action_id, admin_id, action_type, target_entity_type, target_entity_id, details, created_at) VALUES
 ('act_001', 'user_005', 'property_approved', 'property', 'prop_001', 'Verified property details and photos', '2023-01-20T11:00:00Z'),
@@ -13,14 +13,24 @@ module.exports = {
     }
   },
   "setupFilesAfterEnv": [],
+  // Tests run against a throwaway Postgres loaded from db.sql
+  "globalSetup": "<rootDir>/jest.global-setup.js",
+  "globalTeardown": "<rootDir>/jest.global-teardown.js",
+  "testTimeout": 30000,
   "testPathIgnorePatterns": [
     "/node_modules/",
     "/dist/"
   ],
   "moduleFileExtensions": [
+    "ts",
     "js",
     "json",
     "node"
   ],
-  "preset": "ts-jest"
-};
\ No newline at end of file
+  // The server is an ES module importing .ts paths, so tests run as ESM
+  "preset": "ts-jest/presets/default-esm",
+  "extensionsToTreatAsEsm": [".ts"],
+  "transform": {
+    "^.+\\.ts$": ["ts-jest", { "useESM": true }]
+  }
+};
@@ -5,6 +5,8 @@ export const userSchema = z.object({
   user_id: z.string(),
   email: z.string().email(),
   phone_number: z.string(),
+  phone_verified: z.boolean(),
+  phone_verified_at: z.coerce.date().nullable(),
   password_hash: z.string(),
   name: z.string(),
   profile_picture_url: z.string().nullable(),
@@ -21,19 +23,19 @@ export const userSchema = z.object({
 export const createUserInputSchema = z.object({
   email: z.string().email().min(1).max(255),
   phone_number: z.string().min(1).max(20),
-  password_hash: z.string().min(8).max(255),
+  password: z.string().min(8).max(255),
   name: z.string().min(1).max(100),
   profile_picture_url: z.string().url().nullable().optional(),
   bio: z.string().max(1000).nullable().optional(),
   emergency_contact_name: z.string().max(100).nullable().optional(),
   emergency_contact_phone: z.string().max(20).nullable().optional(),
-  role: z.enum(['guest', 'host', 'admin', 'traveler', 'both']).transform(val => {
+  // Admins are appointed by other admins, never at sign-up
+  role: z.enum(['guest', 'host', 'traveler', 'both']).transform(val => {
     // Map frontend roles to backend roles
     if (val === 'traveler') return 'guest';
     if (val === 'both') return 'host'; // Users with 'both' role can host
     return val;
   }),
-  is_verified: z.boolean().optional(),
   verification_document_url: z.string().url().nullable().optional()
 });
 
@@ -41,7 +43,6 @@ export const updateUserInputSchema = z.object({
   user_id: z.string(),
   email: z.string().email().min(1).max(255).optional(),
   phone_number: z.string().min(1).max(20).optional(),
-  password_hash: z.string().min(8).max(255).optional(),
   name: z.string().min(1).max(100).optional(),
   profile_picture_url: z.string().url().nullable().optional(),
   bio: z.string().max(1000).nullable().optional(),
@@ -57,6 +58,48 @@ export const updateUserInputSchema = z.object({
   verification_document_url: z.string().url().nullable().optional()
 });
 
+// Passwords are changed through their own endpoint so the current one can be checked
+export const changePasswordInputSchema = z.object({
+  current_password: z.string().min(1),
+  new_password: z.string().min(8).max(255)
+});
+
+export const phoneVerificationSchema = z.object({
+  verification_id: z.string(),
+  user_id: z.string(),
+  phone_number: z.string(),
+  code_hash: z.string(),
+  attempts: z.number().int().nonnegative(),
+  expires_at: z.coerce.date(),
+  consumed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date()
+});
+
+// phone_number defaults to the number already on the account
+export const sendPhoneCodeInputSchema = z.object({
+  phone_number: z.string().min(1).max(20).optional()
+});
+
+export const verifyPhoneCodeInputSchema = z.object({
+  code: z.string().regex(/^\d{6}$/)
+});
+
+export const sessionSchema = z.object({
+  session_id: z.string(),
+  user_id: z.string(),
+  refresh_token_hash: z.string(),
+  user_agent: z.string().nullable(),
+  ip_address: z.string().nullable(),
+  created_at: z.coerce.date(),
+  last_used_at: z.coerce.date(),
+  expires_at: z.coerce.date(),
+  revoked_at: z.coerce.date().nullable()
+});
+
+export const refreshTokenInputSchema = z.object({
+  refresh_token: z.string().min(1)
+});
+
 export const searchUserInputSchema = z.object({
   query: z.string().optional(),
   role: z.enum(['guest', 'host', 'admin']).optional(),
@@ -71,6 +114,12 @@ export type User = z.infer<typeof userSchema>;
 export type CreateUserInput = z.infer<typeof createUserInputSchema>;
 export type UpdateUserInput = z.infer<typeof updateUserInputSchema>;
 export type SearchUserInput = z.infer<typeof searchUserInputSchema>;
+export type ChangePasswordInput = z.infer<typeof changePasswordInputSchema>;
+export type PhoneVerification = z.infer<typeof phoneVerificationSchema>;
+export type SendPhoneCodeInput = z.infer<typeof sendPhoneCodeInputSchema>;
+export type VerifyPhoneCodeInput = z.infer<typeof verifyPhoneCodeInputSchema>;
+export type Session = z.infer<typeof sessionSchema>;
+export type RefreshTokenInput = z.infer<typeof refreshTokenInputSchema>;
 
 // Property Schemas
 export const propertySchema = z.object({
@@ -96,7 +145,15 @@ export const propertySchema = z.object({
   house_rules: z.string().nullable(),
   cancellation_policy: z.string(),
   instant_book: z.boolean(),
+  instant_book_requires_verified: z.boolean(),
+  min_nights: z.number().int(),
+  max_nights: z.number().int().nullable(),
+  advance_notice_hours: z.number().int(),
+  booking_window_days: z.number().int().nullable(),
+  closed_arrival_weekdays: z.array(z.number().int()),
+  closed_departure_weekdays: z.array(z.number().int()),
   is_active: z.boolean(),
+  suspended_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -115,7 +172,8 @@ export const createPropertyInputSchema = z.object({
   bedrooms: z.number().int().nonnegative(),
   beds: z.number().int().positive(),
   bathrooms: z.number().int().positive(),
-  amenities: z.string().max(1000).nullable().optional(),
+  // Amenity keys, or a comma-separated string of keys or names
+  amenities: z.union([z.string().max(1000), z.array(z.string().min(1).max(100)).max(100)]).nullable().optional(),
   base_price_per_night: z.number().positive(),
   currency: z.string().min(3).max(3).default('LYD'),
   has_power_backup: z.boolean().default(false),
@@ -123,6 +181,14 @@ export const createPropertyInputSchema = z.object({
   house_rules: z.string().max(1000).nullable().optional(),
   cancellation_policy: z.enum(['flexible', 'moderate', 'strict']),
   instant_book: z.boolean().default(false),
+  instant_book_requires_verified: z.boolean().default(true),
+  // Stay restrictions; weekdays are 0 = Sunday to 6 = Saturday and null limits are unlimited
+  min_nights: z.number().int().positive().default(1),
+  max_nights: z.number().int().positive().nullable().optional(),
+  advance_notice_hours: z.number().int().nonnegative().max(720).default(0),
+  booking_window_days: z.number().int().positive().nullable().optional(),
+  closed_arrival_weekdays: z.array(z.number().int().min(0).max(6)).max(7).default([]),
+  closed_departure_weekdays: z.array(z.number().int().min(0).max(6)).max(7).default([]),
   is_active: z.boolean().default(true)
 });
 
@@ -141,7 +207,8 @@ export const updatePropertyInputSchema = z.object({
   bedrooms: z.number().int().nonnegative().optional(),
   beds: z.number().int().positive().optional(),
   bathrooms: z.number().int().positive().optional(),
-  amenities: z.string().max(1000).nullable().optional(),
+  // Amenity keys, or a comma-separated string of keys or names
+  amenities: z.union([z.string().max(1000), z.array(z.string().min(1).max(100)).max(100)]).nullable().optional(),
   base_price_per_night: z.number().positive().optional(),
   currency: z.string().min(3).max(3).optional(),
   has_power_backup: z.boolean().optional(),
@@ -149,6 +216,13 @@ export const updatePropertyInputSchema = z.object({
   house_rules: z.string().max(1000).nullable().optional(),
   cancellation_policy: z.enum(['flexible', 'moderate', 'strict']).optional(),
   instant_book: z.boolean().optional(),
+  instant_book_requires_verified: z.boolean().optional(),
+  min_nights: z.number().int().positive().optional(),
+  max_nights: z.number().int().positive().nullable().optional(),
+  advance_notice_hours: z.number().int().nonnegative().max(720).optional(),
+  booking_window_days: z.number().int().positive().nullable().optional(),
+  closed_arrival_weekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
+  closed_departure_weekdays: z.array(z.number().int().min(0).max(6)).max(7).optional(),
   is_active: z.boolean().optional()
 });
 
@@ -157,15 +231,27 @@ export const searchPropertyInputSchema = z.object({
   city: z.string().optional(),
   property_type: z.string().optional(),
   guest_capacity: z.number().int().optional(),
+  // Prices are in display_currency, LYD when absent
   min_price: z.number().optional(),
   max_price: z.number().optional(),
+  display_currency: z.string().length(3).optional(),
+  rate_type: z.enum(['official', 'parallel']).optional(),
   has_power_backup: z.boolean().optional(),
   has_water_tank: z.boolean().optional(),
   instant_book: z.boolean().optional(),
   is_active: z.boolean().optional(),
+  min_rating: z.number().min(1).max(5).optional(),
+  // Keys or names; listings must offer all of them
+  amenities: z.array(z.string()).optional(),
+  q: z.string().max(200).optional(),
+  near: z.string().regex(/^-?\d+(\.\d+)?,-?\d+(\.\d+)?$/).optional(),
+  radius_km: z.number().positive().max(500).optional(),
+  bbox: z.string().regex(/^(-?\d+(\.\d+)?,){3}-?\d+(\.\d+)?$/).optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
-  sort_by: z.enum(['title', 'base_price_per_night', 'created_at']).default('created_at'),
+  // next_cursor of the previous page; takes precedence over offset
+  cursor: z.string().optional(),
+  sort_by: z.enum(['title', 'base_price_per_night', 'created_at', 'rating', 'distance', 'relevance']).default('created_at'),
   sort_order: z.enum(['asc', 'desc']).default('desc')
 });
 
@@ -174,6 +260,35 @@ export type CreatePropertyInput = z.infer<typeof createPropertyInputSchema>;
 export type UpdatePropertyInput = z.infer<typeof updatePropertyInputSchema>;
 export type SearchPropertyInput = z.infer<typeof searchPropertyInputSchema>;
 
+// Amenity Schemas
+export const amenitySchema = z.object({
+  amenity_key: z.string(),
+  name_en: z.string(),
+  name_ar: z.string(),
+  category: z.string(),
+  display_order: z.number().int()
+});
+
+export type Amenity = z.infer<typeof amenitySchema>;
+
+// Exchange Rate Schemas
+export const exchangeRateSchema = z.object({
+  currency: z.string(),
+  rate_type: z.enum(['official', 'parallel']),
+  lyd_per_unit: z.number(),
+  updated_by: z.string().nullable(),
+  updated_at: z.coerce.date()
+});
+
+export const updateExchangeRateInputSchema = z.object({
+  currency: z.string().regex(/^[A-Z]{3}$/),
+  rate_type: z.enum(['official', 'parallel']),
+  lyd_per_unit: z.number().positive()
+});
+
+export type ExchangeRate = z.infer<typeof exchangeRateSchema>;
+export type UpdateExchangeRateInput = z.infer<typeof updateExchangeRateInputSchema>;
+
 // Property Photo Schemas
 export const propertyPhotoSchema = z.object({
   photo_id: z.string(),
@@ -181,6 +296,10 @@ export const propertyPhotoSchema = z.object({
   photo_url: z.string(),
   caption: z.string().nullable(),
   display_order: z.number().int(),
+  thumbnail_url: z.string().nullable(),
+  card_url: z.string().nullable(),
+  full_url: z.string().nullable(),
+  blurhash: z.string().nullable(),
   created_at: z.coerce.date()
 });
 
@@ -245,10 +364,164 @@ export const searchPropertyAvailabilityInputSchema = z.object({
   offset: z.number().int().nonnegative().default(0)
 });
 
+// Both dates are inclusive; weekdays (0 = Sunday) narrows the span to those days
+export const updateAvailabilityRangeInputSchema = z.object({
+  property_id: z.string().min(1),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  weekdays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  is_available: z.boolean().optional(),
+  // null returns the nights to base_price_per_night
+  price_override: z.number().positive().nullable().optional()
+});
+
+export const availabilityCalendarDaySchema = z.object({
+  date: z.string(),
+  status: z.enum(['available', 'blocked', 'booked']),
+  price: z.number(),
+  price_override: z.number().nullable(),
+  // What set price: the override, a pricing rule or base_price_per_night
+  price_source: z.enum(['base', 'override', 'seasonal', 'weekend']),
+  booking_id: z.string().nullable(),
+  // Requests awaiting the host that include this night
+  pending_booking_ids: z.array(z.string())
+});
+
 export type PropertyAvailability = z.infer<typeof propertyAvailabilitySchema>;
 export type CreatePropertyAvailabilityInput = z.infer<typeof createPropertyAvailabilityInputSchema>;
 export type UpdatePropertyAvailabilityInput = z.infer<typeof updatePropertyAvailabilityInputSchema>;
 export type SearchPropertyAvailabilityInput = z.infer<typeof searchPropertyAvailabilityInputSchema>;
+export type UpdateAvailabilityRangeInput = z.infer<typeof updateAvailabilityRangeInputSchema>;
+export type AvailabilityCalendarDay = z.infer<typeof availabilityCalendarDaySchema>;
+
+// Calendar Sync Schemas
+// An imported event overlapping a confirmed booking or pending request here
+export const calendarConflictSchema = z.object({
+  event_uid: z.string(),
+  event_summary: z.string().nullable(),
+  start_date: z.string(),
+  end_date: z.string(),
+  booking_id: z.string(),
+  booking_status: z.string(),
+  check_in: z.string(),
+  check_out: z.string()
+});
+
+export const calendarImportSchema = z.object({
+  import_id: z.string(),
+  property_id: z.string(),
+  name: z.string(),
+  source_url: z.string().nullable(),
+  last_synced_at: z.coerce.date().nullable(),
+  last_sync_status: z.enum(['ok', 'failed']).nullable(),
+  last_error: z.string().nullable(),
+  event_count: z.number().int(),
+  conflicts: z.array(calendarConflictSchema),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+// Uploads send the file instead of source_url
+export const createCalendarImportInputSchema = z.object({
+  property_id: z.string().min(1),
+  name: z.string().min(1).max(100),
+  source_url: z.string().url().regex(/^(https?|webcal):\/\//i).optional()
+});
+
+export type CalendarConflict = z.infer<typeof calendarConflictSchema>;
+export type CalendarImport = z.infer<typeof calendarImportSchema>;
+export type CreateCalendarImportInput = z.infer<typeof createCalendarImportInputSchema>;
+
+// Pricing Rule Schemas
+export const pricingRuleTypeSchema = z.enum(['weekend', 'seasonal', 'length_of_stay', 'early_bird', 'last_minute']);
+
+export const pricingRuleSchema = z.object({
+  rule_id: z.string(),
+  property_id: z.string(),
+  rule_type: pricingRuleTypeSchema,
+  name: z.string(),
+  start_date: z.string().nullable(),
+  end_date: z.string().nullable(),
+  nightly_price: z.number().nullable(),
+  adjustment_percent: z.number().nullable(),
+  min_nights: z.number().int().nullable(),
+  days_before: z.number().int().nullable(),
+  is_active: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+// Which fields a rule needs depends on rule_type and is checked by the server:
+// weekend takes nightly_price or adjustment_percent, seasonal also start_date and end_date (inclusive),
+// length_of_stay min_nights and adjustment_percent, early_bird and last_minute days_before and adjustment_percent
+export const createPricingRuleInputSchema = z.object({
+  property_id: z.string().min(1),
+  rule_type: pricingRuleTypeSchema,
+  name: z.string().min(1).max(100),
+  start_date: z.coerce.date().nullable().optional(),
+  end_date: z.coerce.date().nullable().optional(),
+  nightly_price: z.number().positive().nullable().optional(),
+  adjustment_percent: z.number().min(-90).max(500).nullable().optional(),
+  min_nights: z.number().int().min(2).nullable().optional(),
+  days_before: z.number().int().nonnegative().max(730).nullable().optional(),
+  is_active: z.boolean().default(true)
+});
+
+export const updatePricingRuleInputSchema = z.object({
+  rule_id: z.string(),
+  name: z.string().min(1).max(100).optional(),
+  start_date: z.coerce.date().nullable().optional(),
+  end_date: z.coerce.date().nullable().optional(),
+  nightly_price: z.number().positive().nullable().optional(),
+  adjustment_percent: z.number().min(-90).max(500).nullable().optional(),
+  min_nights: z.number().int().min(2).nullable().optional(),
+  days_before: z.number().int().nonnegative().max(730).nullable().optional(),
+  is_active: z.boolean().optional()
+});
+
+export type PricingRuleType = z.infer<typeof pricingRuleTypeSchema>;
+export type PricingRule = z.infer<typeof pricingRuleSchema>;
+export type CreatePricingRuleInput = z.infer<typeof createPricingRuleInputSchema>;
+export type UpdatePricingRuleInput = z.infer<typeof updatePricingRuleInputSchema>;
+
+// Stay Restriction Schemas
+export const stayRestrictionSchema = z.object({
+  restriction_id: z.string(),
+  property_id: z.string(),
+  start_date: z.string(),
+  end_date: z.string(),
+  min_nights: z.number().int().nullable(),
+  max_nights: z.number().int().nullable(),
+  closed_to_arrival: z.boolean(),
+  closed_to_departure: z.boolean(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+// Both dates are inclusive; min_nights and max_nights apply to stays arriving within them
+export const createStayRestrictionInputSchema = z.object({
+  property_id: z.string().min(1),
+  start_date: z.coerce.date(),
+  end_date: z.coerce.date(),
+  min_nights: z.number().int().positive().nullable().optional(),
+  max_nights: z.number().int().positive().nullable().optional(),
+  closed_to_arrival: z.boolean().default(false),
+  closed_to_departure: z.boolean().default(false)
+});
+
+export const updateStayRestrictionInputSchema = z.object({
+  restriction_id: z.string(),
+  start_date: z.coerce.date().optional(),
+  end_date: z.coerce.date().optional(),
+  min_nights: z.number().int().positive().nullable().optional(),
+  max_nights: z.number().int().positive().nullable().optional(),
+  closed_to_arrival: z.boolean().optional(),
+  closed_to_departure: z.boolean().optional()
+});
+
+export type StayRestriction = z.infer<typeof stayRestrictionSchema>;
+export type CreateStayRestrictionInput = z.infer<typeof createStayRestrictionInputSchema>;
+export type UpdateStayRestrictionInput = z.infer<typeof updateStayRestrictionInputSchema>;
 
 // Booking Schemas
 export const bookingSchema = z.object({
@@ -261,8 +534,14 @@ export const bookingSchema = z.object({
   guest_count: z.number().int(),
   total_price: z.number(),
   service_fee: z.number(),
+  currency: z.string(),
   special_requests: z.string().nullable(),
   status: z.string(),
+  // Rates in force when the booking was made
+  lyd_exchange_rate: z.number().nullable(),
+  display_currency: z.string().nullable(),
+  display_exchange_rate: z.number().nullable(),
+  exchange_rate_type: z.string().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -273,42 +552,78 @@ export const createBookingInputSchema = z.object({
   check_in: z.coerce.date(),
   check_out: z.coerce.date(),
   guest_count: z.number().int().positive(),
-  total_price: z.number().nonnegative(),
-  service_fee: z.number().nonnegative(),
+  total_price: z.number().nonnegative().optional(), // Recomputed by server, checked if sent
+  service_fee: z.number().nonnegative().optional(), // Recomputed by server, checked if sent
   special_requests: z.string().max(500).nullable().optional(),
-  status: z.enum(['pending', 'confirmed', 'declined', 'cancelled', 'completed']).default('pending')
+  // Currency the guest saw prices in; its rate is snapshotted on the booking
+  display_currency: z.string().length(3).optional(),
+  rate_type: z.enum(['official', 'parallel']).optional()
 });
 
+// Dates, guests and prices are fixed once a booking exists; status goes through the state machine
 export const updateBookingInputSchema = z.object({
   booking_id: z.string(),
-  property_id: z.string().optional(),
-  guest_id: z.string().optional(),
-  host_id: z.string().optional(),
-  check_in: z.coerce.date().optional(),
-  check_out: z.coerce.date().optional(),
-  guest_count: z.number().int().positive().optional(),
-  total_price: z.number().nonnegative().optional(),
-  service_fee: z.number().nonnegative().optional(),
   special_requests: z.string().max(500).nullable().optional(),
-  status: z.enum(['pending', 'confirmed', 'declined', 'cancelled', 'completed']).optional()});
+  status: z.enum(['confirmed', 'declined', 'cancelled', 'completed']).optional(),
+  reason: z.string().max(500).nullable().optional()
+});
 
 export const searchBookingInputSchema = z.object({
   property_id: z.string().optional(),
   guest_id: z.string().optional(),
   host_id: z.string().optional(),
-  status: z.enum(['pending', 'confirmed', 'declined', 'cancelled', 'completed']).optional(),
+  status: z.enum(['pending', 'confirmed', 'declined', 'cancelled', 'expired', 'completed']).optional(),
   start_date: z.coerce.date().optional(),
   end_date: z.coerce.date().optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
+  cursor: z.string().optional(),
   sort_by: z.enum(['check_in', 'check_out', 'created_at', 'total_price']).default('created_at'),
   sort_order: z.enum(['asc', 'desc']).default('desc')
 });
 
+export const bookingStatusHistorySchema = z.object({
+  history_id: z.string(),
+  booking_id: z.string(),
+  from_status: z.string().nullable(),
+  to_status: z.string(),
+  changed_by: z.string().nullable(),
+  actor_role: z.enum(['guest', 'host', 'admin', 'system']),
+  reason: z.string().nullable(),
+  created_at: z.coerce.date()
+});
+
+export const bookingCancellationSchema = z.object({
+  cancellation_id: z.string(),
+  booking_id: z.string(),
+  cancelled_by: z.string().nullable(),
+  actor_role: z.enum(['guest', 'host', 'admin', 'system']),
+  reason: z.string().nullable(),
+  previous_status: z.enum(['pending', 'confirmed']),
+  cancellation_policy: z.enum(['flexible', 'moderate', 'strict']),
+  days_before_check_in: z.number().int(),
+  refund_percentage: z.number().min(0).max(100),
+  refund_subtotal: z.number().nonnegative(),
+  refund_service_fee: z.number().nonnegative(),
+  refund_amount: z.number().nonnegative(),
+  host_penalty: z.number().nonnegative(),
+  currency: z.string(),
+  created_at: z.coerce.date()
+});
+
+export const propertyQuoteInputSchema = z.object({
+  check_in: z.coerce.date(),
+  check_out: z.coerce.date(),
+  guests: z.number().int().positive().default(1)
+});
+
 export type Booking = z.infer<typeof bookingSchema>;
 export type CreateBookingInput = z.infer<typeof createBookingInputSchema>;
 export type UpdateBookingInput = z.infer<typeof updateBookingInputSchema>;
 export type SearchBookingInput = z.infer<typeof searchBookingInputSchema>;
+export type BookingStatusHistory = z.infer<typeof bookingStatusHistorySchema>;
+export type BookingCancellation = z.infer<typeof bookingCancellationSchema>;
+export type PropertyQuoteInput = z.infer<typeof propertyQuoteInputSchema>;
 
 // Conversation Schemas
 export const conversationSchema = z.object({
@@ -339,6 +654,7 @@ export const searchConversationInputSchema = z.object({
   host_id: z.string().optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
+  cursor: z.string().optional(),
   sort_by: z.enum(['created_at', 'updated_at']).default('created_at'),
   sort_order: z.enum(['asc', 'desc']).default('desc')
 });
@@ -378,6 +694,7 @@ export const searchMessageInputSchema = z.object({
   is_read: z.boolean().optional(),
   limit: z.number().int().positive().default(20),
   offset: z.number().int().nonnegative().default(0),
+  cursor: z.string().optional(),
   sort_by: z.enum(['created_at']).default('created_at'),
   sort_order: z.enum(['asc', 'desc']).default('asc')
 });
@@ -402,6 +719,7 @@ export const reviewSchema = z.object({
   value_rating: z.number().int().min(1).max(5),
   overall_rating: z.number().int().min(1).max(5),
   comment: z.string().nullable(),
+  published_at: z.coerce.date().nullable(),
   created_at: z.coerce.date(),
   updated_at: z.coerce.date()
 });
@@ -445,6 +763,7 @@ export const searchReviewInputSchema = z.object({
   max_rating: z.number().int().min(1).max(5).optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
+  cursor: z.string().optional(),
   sort_by: z.enum(['created_at', 'overall_rating']).default('created_at'),
   sort_order: z.enum(['asc', 'desc']).default('desc')
 });
@@ -454,12 +773,75 @@ export type CreateReviewInput = z.infer<typeof createReviewInputSchema>;
 export type UpdateReviewInput = z.infer<typeof updateReviewInputSchema>;
 export type SearchReviewInput = z.infer<typeof searchReviewInputSchema>;
 
+// Guest Review Schemas
+export const guestReviewSchema = z.object({
+  guest_review_id: z.string(),
+  booking_id: z.string(),
+  guest_id: z.string(),
+  host_id: z.string(),
+  house_rules_rating: z.number().int().min(1).max(5),
+  cleanliness_rating: z.number().int().min(1).max(5),
+  communication_rating: z.number().int().min(1).max(5),
+  overall_rating: z.number().int().min(1).max(5),
+  comment: z.string().nullable(),
+  published_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const createGuestReviewInputSchema = z.object({
+  booking_id: z.string().min(1),
+  guest_id: z.string().min(1),
+  host_id: z.string().min(1),
+  house_rules_rating: z.number().int().min(1).max(5),
+  cleanliness_rating: z.number().int().min(1).max(5),
+  communication_rating: z.number().int().min(1).max(5),
+  overall_rating: z.number().int().min(1).max(5),
+  comment: z.string().max(1000).nullable().optional()
+});
+
+export const searchGuestReviewInputSchema = z.object({
+  guest_id: z.string().optional(),
+  limit: z.number().int().positive().default(10),
+  offset: z.number().int().nonnegative().default(0)
+});
+
+export type GuestReview = z.infer<typeof guestReviewSchema>;
+export type CreateGuestReviewInput = z.infer<typeof createGuestReviewInputSchema>;
+export type SearchGuestReviewInput = z.infer<typeof searchGuestReviewInputSchema>;
+
+// Rating Summary Schemas
+export const ratingSummarySchema = z.object({
+  entity_type: z.enum(['property', 'host']),
+  entity_id: z.string(),
+  review_count: z.number().int().nonnegative(),
+  overall_rating: z.number().nullable(),
+  cleanliness_rating: z.number().nullable(),
+  accuracy_rating: z.number().nullable(),
+  communication_rating: z.number().nullable(),
+  location_rating: z.number().nullable(),
+  check_in_rating: z.number().nullable(),
+  value_rating: z.number().nullable(),
+  rating_1_count: z.number().int().nonnegative(),
+  rating_2_count: z.number().int().nonnegative(),
+  rating_3_count: z.number().int().nonnegative(),
+  rating_4_count: z.number().int().nonnegative(),
+  rating_5_count: z.number().int().nonnegative(),
+  updated_at: z.coerce.date()
+});
+
+export type RatingSummary = z.infer<typeof ratingSummarySchema>;
+
 // Review Photo Schemas
 export const reviewPhotoSchema = z.object({
   photo_id: z.string(),
   review_id: z.string(),
   photo_url: z.string(),
   caption: z.string().nullable(),
+  thumbnail_url: z.string().nullable(),
+  card_url: z.string().nullable(),
+  full_url: z.string().nullable(),
+  blurhash: z.string().nullable(),
   created_at: z.coerce.date()
 });
 
@@ -487,6 +869,31 @@ export type CreateReviewPhotoInput = z.infer<typeof createReviewPhotoInputSchema
 export type UpdateReviewPhotoInput = z.infer<typeof updateReviewPhotoInputSchema>;
 export type SearchReviewPhotoInput = z.infer<typeof searchReviewPhotoInputSchema>;
 
+// Review Response Schemas
+export const reviewResponseSchema = z.object({
+  response_id: z.string(),
+  review_id: z.string(),
+  host_id: z.string(),
+  response: z.string(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const createReviewResponseInputSchema = z.object({
+  review_id: z.string().min(1),
+  host_id: z.string().min(1),
+  response: z.string().trim().min(1).max(1000)
+});
+
+export const updateReviewResponseInputSchema = z.object({
+  review_id: z.string(),
+  response: z.string().trim().min(1).max(1000)
+});
+
+export type ReviewResponse = z.infer<typeof reviewResponseSchema>;
+export type CreateReviewResponseInput = z.infer<typeof createReviewResponseInputSchema>;
+export type UpdateReviewResponseInput = z.infer<typeof updateReviewResponseInputSchema>;
+
 // Admin Action Schemas
 export const adminActionSchema = z.object({
   action_id: z.string(),
@@ -519,16 +926,56 @@ export const searchAdminActionInputSchema = z.object({
   admin_id: z.string().optional(),
   action_type: z.string().optional(),
   target_entity_type: z.string().optional(),
-  limit: z.number().int().positive().default(10),
+  target_entity_id: z.string().optional(),
+  limit: z.number().int().positive().max(100).default(10),
   offset: z.number().int().nonnegative().default(0),
   sort_by: z.enum(['created_at']).default('created_at'),
   sort_order: z.enum(['asc', 'desc']).default('desc')
 });
 
+// Body of the moderation endpoints; details is stored on the admin_actions row
+export const adminModerationInputSchema = z.object({
+  details: z.string().max(1000).nullable().optional()
+});
+
+export const adminVerificationInputSchema = adminModerationInputSchema.extend({
+  approved: z.boolean()
+});
+
 export type AdminAction = z.infer<typeof adminActionSchema>;
 export type CreateAdminActionInput = z.infer<typeof createAdminActionInputSchema>;
 export type UpdateAdminActionInput = z.infer<typeof updateAdminActionInputSchema>;
 export type SearchAdminActionInput = z.infer<typeof searchAdminActionInputSchema>;
+export type AdminModerationInput = z.infer<typeof adminModerationInputSchema>;
+export type AdminVerificationInput = z.infer<typeof adminVerificationInputSchema>;
+
+// Job Schemas
+export const jobSchema = z.object({
+  job_id: z.string(),
+  job_type: z.enum(['complete_booking', 'expire_booking', 'check_in_reminder', 'review_reminder', 'publish_reviews', 'generate_photo_renditions', 'backfill_photo_renditions']),
+  dedupe_key: z.string(),
+  payload: z.string(),
+  status: z.enum(['pending', 'running', 'completed', 'failed']),
+  attempts: z.number().int().nonnegative(),
+  max_attempts: z.number().int().positive(),
+  run_at: z.coerce.date(),
+  locked_at: z.coerce.date().nullable(),
+  locked_by: z.string().nullable(),
+  last_error: z.string().nullable(),
+  completed_at: z.coerce.date().nullable(),
+  created_at: z.coerce.date(),
+  updated_at: z.coerce.date()
+});
+
+export const searchJobInputSchema = z.object({
+  status: z.enum(['pending', 'running', 'completed', 'failed']).optional(),
+  job_type: z.enum(['complete_booking', 'expire_booking', 'check_in_reminder', 'review_reminder', 'publish_reviews', 'generate_photo_renditions', 'backfill_photo_renditions']).optional(),
+  limit: z.number().int().positive().max(100).default(20),
+  offset: z.number().int().nonnegative().default(0)
+});
+
+export type Job = z.infer<typeof jobSchema>;
+export type SearchJobInput = z.infer<typeof searchJobInputSchema>;
 
 // Notification Schemas
 export const notificationSchema = z.object({
@@ -570,6 +1017,7 @@ export const searchNotificationInputSchema = z.object({
   is_read: z.boolean().optional(),
   limit: z.number().int().positive().default(10),
   offset: z.number().int().nonnegative().default(0),
+  cursor: z.string().optional(),
   sort_by: z.enum(['created_at']).default('created_at'),
   sort_order: z.enum(['asc', 'desc']).default('desc')
 });
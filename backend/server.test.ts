@@ -1,6 +1,9 @@
 import request from 'supertest';
-import { app, pool } from './server.ts';
+import { app, pool, smsProvider, calendarFetcher } from './server.ts';
 import jwt from 'jsonwebtoken';
+import sharp from 'sharp';
+import fs from 'fs';
+import path from 'path';
 
 // Test data based on seed data
 const testUsers = {
@@ -33,6 +36,13 @@ const testProperties = {
     title: 'Luxury Apartment in Tripoli',
     city: 'Tripoli',
     host_id: 'user_001'
+  },
+  // Request-to-book listing (instant_book is off)
+  property2: {
+    property_id: 'prop_002',
+    title: 'Cozy Studio near Beach',
+    city: 'Tripoli',
+    host_id: 'user_001'
   }
 };
 
@@ -47,16 +57,72 @@ const testBookings = {
 };
 
 // Helper functions
-const generateToken = (user) => {
+let sessionCount = 0;
+
+// Tokens are only accepted for an active session, so each one gets its own
+const generateToken = async (user) => {
+  const session_id = `sess_test_${++sessionCount}`;
+  const now = new Date();
+  await pool.query(
+    `INSERT INTO sessions (session_id, user_id, refresh_token_hash, created_at, last_used_at, expires_at)
+     VALUES ($1, $2, $3, $4, $4, $5)`,
+    [session_id, user.user_id, 'unused', now.toISOString(), new Date(now.getTime() + 3600000).toISOString()]
+  );
   return jwt.sign(
-    { userId: user.user_id, role: user.role },
+    { userId: user.user_id, role: user.role, session_id },
     process.env.JWT_SECRET || 'test-secret',
     { expiresIn: '1h' }
   );
 };
 
-const authHeader = (user) => {
-  return `Bearer ${generateToken(user)}`;
+const authHeader = async (user) => {
+  return `Bearer ${await generateToken(user)}`;
+};
+
+// YYYY-MM-DD date the given number of days from today
+const daysFromNow = (days) => {
+  const date = new Date();
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().slice(0, 10);
+};
+
+// iCalendar document with one all-day event per [uid, start, end] entry
+const icsCalendar = (events) => [
+  'BEGIN:VCALENDAR',
+  'VERSION:2.0',
+  'PRODID:-//Channel//Test//EN',
+  ...events.flatMap(([uid, start, end]) => [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTART;VALUE=DATE:${start.replace(/-/g, '')}`,
+    `DTEND;VALUE=DATE:${end.replace(/-/g, '')}`,
+    'SUMMARY:Reserved',
+    'END:VEVENT'
+  ]),
+  'END:VCALENDAR'
+].join('\r\n');
+
+// Serves a calendar at url through the offline file fetcher
+const publishCalendar = (url, calendar) => {
+  const file = (calendarFetcher as any).pathFor(url);
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, calendar);
+};
+
+// Small JPEG whose EXIF block holds a GPS latitude (rational bytes 0x7f)
+const jpegWithGps = async () => {
+  const u16 = (n) => { const b = Buffer.alloc(2); b.writeUInt16LE(n); return b; };
+  const u32 = (n) => { const b = Buffer.alloc(4); b.writeUInt32LE(n); return b; };
+  const tiff = Buffer.concat([
+    Buffer.from('II'), u16(42), u32(8),
+    u16(1), u16(0x8825), u16(4), u32(1), u32(26), u32(0),
+    u16(1), u16(2), u16(5), u32(3), u32(44), u32(0),
+    Buffer.alloc(24, 0x7f)
+  ]);
+  const app1 = Buffer.concat([Buffer.from([0xff, 0xe1, 0, 0]), Buffer.from('Exif\0\0', 'latin1'), tiff]);
+  app1.writeUInt16BE(app1.length - 2, 2);
+  const image = await sharp({ create: { width: 1200, height: 800, channels: 3, background: '#c2a878' } }).jpeg().toBuffer();
+  return Buffer.concat([image.subarray(0, 2), app1, image.subarray(2)]);
 };
 
 describe('LibyaStay API Tests', () => {
@@ -64,10 +130,14 @@ describe('LibyaStay API Tests', () => {
   let authTokenGuest;
   let authTokenAdmin;
 
-  beforeAll(() => {
-    authTokenHost = authHeader(testUsers.host);
-    authTokenGuest = authHeader(testUsers.guest);
-    authTokenAdmin = authHeader(testUsers.admin);
+  beforeAll(async () => {
+    authTokenHost = await authHeader(testUsers.host);
+    authTokenGuest = await authHeader(testUsers.guest);
+    authTokenAdmin = await authHeader(testUsers.admin);
+  });
+
+  afterAll(async () => {
+    await pool.end();
   });
 
   // Authentication Tests
@@ -76,7 +146,7 @@ describe('LibyaStay API Tests', () => {
       const newUser = {
         email: 'new.user@example.com',
         phone_number: '+218910000100',
-        password_hash: 'newpassword123',
+        password: 'newpassword123',
         name: 'New User',
         role: 'guest'
       };
@@ -90,6 +160,10 @@ describe('LibyaStay API Tests', () => {
       expect(response.body.user.email).toBe(newUser.email);
       expect(response.body.user.name).toBe(newUser.name);
       expect(response.body).toHaveProperty('token');
+
+      const stored = await pool.query('SELECT password_hash FROM users WHERE user_id = $1', [response.body.user.user_id]);
+      expect(stored.rows[0].password_hash).not.toBe(newUser.password);
+      expect(stored.rows[0].password_hash).toMatch(/^\$2[aby]\$/);
     });
 
     test('should login existing user', async () => {
@@ -106,6 +180,52 @@ describe('LibyaStay API Tests', () => {
       expect(response.body).toHaveProperty('token');
     });
 
+    test('should re-hash a legacy plain-text password on login', async () => {
+      await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: testUsers.guest.email,
+          password: testUsers.guest.password
+        })
+        .expect(200);
+
+      const stored = await pool.query('SELECT password_hash FROM users WHERE user_id = $1', [testUsers.guest.user_id]);
+      expect(stored.rows[0].password_hash).toMatch(/^\$2[aby]\$/);
+
+      // The migrated hash keeps accepting the same password
+      await request(app)
+        .post('/api/auth/login')
+        .send({
+          email: testUsers.guest.email,
+          password: testUsers.guest.password
+        })
+        .expect(200);
+    });
+
+    test('should change password with the current password', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'new.user@example.com', password: 'newpassword123' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${login.body.token}`)
+        .send({ current_password: 'wrongpassword', new_password: 'changedpassword123' })
+        .expect(401);
+
+      await request(app)
+        .post('/api/auth/change-password')
+        .set('Authorization', `Bearer ${login.body.token}`)
+        .send({ current_password: 'newpassword123', new_password: 'changedpassword123' })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'new.user@example.com', password: 'changedpassword123' })
+        .expect(200);
+    });
+
     test('should fail login with invalid credentials', async () => {
       await request(app)
         .post('/api/auth/login')
@@ -117,9 +237,215 @@ describe('LibyaStay API Tests', () => {
     });
 
     test('should logout authenticated user', async () => {
+      // Its own session, since logging out revokes it
       await request(app)
         .post('/api/auth/logout')
+        .set('Authorization', await authHeader(testUsers.host))
+        .expect(200);
+    });
+
+    test('should reject tokens that name no session', async () => {
+      const legacy = jwt.sign({ userId: testUsers.host.user_id, role: 'host' }, process.env.JWT_SECRET || 'test-secret', { expiresIn: '1h' });
+
+      const response = await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${legacy}`)
+        .expect(401);
+
+      expect(response.body.error_code).toBe('AUTH_TOKEN_INVALID');
+    });
+
+    test('should normalize Libyan numbers and ignore client-sent verification at registration', async () => {
+      const response = await request(app)
+        .post('/api/auth/register')
+        .send({
+          email: 'otp.user@example.com',
+          phone_number: '091 234 5678',
+          password: 'otppassword123',
+          name: 'OTP User',
+          role: 'guest',
+          is_verified: true
+        })
+        .expect(201);
+
+      expect(response.body.user.phone_number).toBe('+218912345678');
+      expect(response.body.user.is_verified).toBe(false);
+      expect(response.body.user.phone_verified).toBe(false);
+    });
+
+    test('should verify a phone number with a one-time code', async () => {
+      await request(app)
+        .post('/api/auth/phone/send-code')
+        .set('Authorization', authTokenGuest)
+        .send({})
+        .expect(200);
+
+      // The logging provider used in tests keeps sent messages in memory
+      const { outbox } = smsProvider as any;
+      const sms = outbox[outbox.length - 1];
+      expect(sms.to).toBe('+218910000003');
+      const code = sms.message.match(/\d{6}/)[0];
+
+      const resend = await request(app)
+        .post('/api/auth/phone/send-code')
+        .set('Authorization', authTokenGuest)
+        .send({})
+        .expect(429);
+
+      expect(resend.body.error_code).toBe('OTP_RESEND_TOO_SOON');
+
+      const wrong = await request(app)
+        .post('/api/auth/phone/verify')
+        .set('Authorization', authTokenGuest)
+        .send({ code: code === '000000' ? '111111' : '000000' })
+        .expect(400);
+
+      expect(wrong.body.error_code).toBe('OTP_INVALID');
+
+      const response = await request(app)
+        .post('/api/auth/phone/verify')
+        .set('Authorization', authTokenGuest)
+        .send({ code })
+        .expect(200);
+
+      expect(response.body.phone_verified).toBe(true);
+      expect(response.body.is_verified).toBe(true);
+
+      // A code works only once
+      await request(app)
+        .post('/api/auth/phone/verify')
+        .set('Authorization', authTokenGuest)
+        .send({ code })
+        .expect(400);
+    });
+
+    test('should count parallel code guesses against the attempt limit', async () => {
+      await request(app)
+        .post('/api/auth/phone/send-code')
+        .set('Authorization', authTokenHost)
+        .send({})
+        .expect(200);
+
+      const { outbox } = smsProvider as any;
+      const code = outbox[outbox.length - 1].message.match(/\d{6}/)[0];
+      const wrongCode = code === '000000' ? '111111' : '000000';
+
+      const guesses = await Promise.all(Array.from({ length: 8 }, () =>
+        request(app).post('/api/auth/phone/verify').set('Authorization', authTokenHost).send({ code: wrongCode })
+      ));
+
+      const codes = guesses.map(guess => guess.body.error_code);
+      expect(codes.filter(errorCode => errorCode === 'OTP_INVALID')).toHaveLength(5);
+      expect(codes.filter(errorCode => errorCode === 'OTP_TOO_MANY_ATTEMPTS')).toHaveLength(3);
+
+      // Even the right code is refused once the attempts are used up
+      await request(app)
+        .post('/api/auth/phone/verify')
         .set('Authorization', authTokenHost)
+        .send({ code })
+        .expect(429);
+    });
+
+    test('should reject non-Libyan numbers for phone verification', async () => {
+      const response = await request(app)
+        .post('/api/auth/phone/send-code')
+        .set('Authorization', authTokenHost)
+        .send({ phone_number: '+12025550123' })
+        .expect(400);
+
+      expect(response.body.error_code).toBe('INVALID_PHONE_NUMBER');
+    });
+
+    test('should rotate refresh tokens and reject reuse', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: testUsers.host.email, password: testUsers.host.password })
+        .expect(200);
+
+      expect(login.body).toHaveProperty('refresh_token');
+
+      const refreshed = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: login.body.refresh_token })
+        .expect(200);
+
+      expect(refreshed.body.refresh_token).not.toBe(login.body.refresh_token);
+
+      await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${refreshed.body.token}`)
+        .expect(200);
+
+      const reused = await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: login.body.refresh_token })
+        .expect(401);
+
+      expect(reused.body.error_code).toBe('REFRESH_TOKEN_REUSED');
+
+      // Reuse revokes the whole session, including the newest token pair
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: refreshed.body.refresh_token })
+        .expect(401);
+    });
+
+    test('should revoke the session on logout', async () => {
+      const login = await request(app)
+        .post('/api/auth/login')
+        .send({ email: testUsers.host.email, password: testUsers.host.password })
+        .expect(200);
+
+      await request(app)
+        .post('/api/auth/logout')
+        .set('Authorization', `Bearer ${login.body.token}`)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${login.body.token}`)
+        .expect(401);
+
+      expect(response.body.error_code).toBe('SESSION_REVOKED');
+
+      await request(app)
+        .post('/api/auth/refresh')
+        .send({ refresh_token: login.body.refresh_token })
+        .expect(401);
+    });
+
+    test('should list sessions and sign out other devices', async () => {
+      // A fresh account, so the shared test sessions of the seed users stay active
+      const phone = await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'two.devices@example.com', phone_number: '+218910000203', password: 'devices123', name: 'Two Devices', role: 'guest' })
+        .expect(201);
+      const laptop = await request(app)
+        .post('/api/auth/login')
+        .send({ email: 'two.devices@example.com', password: 'devices123' })
+        .expect(200);
+
+      const sessions = await request(app)
+        .get('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.body.token}`)
+        .expect(200);
+
+      expect(sessions.body.filter(session => session.is_current)).toHaveLength(1);
+      expect(sessions.body[0]).not.toHaveProperty('refresh_token_hash');
+
+      await request(app)
+        .delete('/api/auth/sessions')
+        .set('Authorization', `Bearer ${laptop.body.token}`)
+        .expect(200);
+
+      await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${phone.body.token}`)
+        .expect(401);
+
+      await request(app)
+        .get('/api/auth/verify')
+        .set('Authorization', `Bearer ${laptop.body.token}`)
         .expect(200);
     });
   });
@@ -144,283 +470,1790 @@ describe('LibyaStay API Tests', () => {
       const response = await request(app)
         .patch(`/api/users/${testUsers.host.user_id}`)
         .set('Authorization', authTokenHost)
-        .send(updateData)
-        .expect(200);
+        .send(updateData)
+        .expect(200);
+
+      expect(response.body.bio).toBe(updateData.bio);
+    });
+
+    test('should get user listings', async () => {
+      const response = await request(app)
+        .get(`/api/users/${testUsers.host.user_id}/listings`)
+        .expect(200);
+
+      expect(Array.isArray(response.body)).toBe(true);
+      expect(response.body.length).toBeGreaterThan(0);
+    });
+
+    test('should get user bookings', async () => {
+      const response = await request(app)
+        .get(`/api/users/${testUsers.guest.user_id}/bookings`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      expect(Array.isArray(response.body)).toBe(true);
+    });
+
+    test('should get user reviews', async () => {
+      const response = await request(app)
+        .get(`/api/users/${testUsers.host.user_id}/reviews`)
+        .expect(200);
+
+      expect(Array.isArray(response.body)).toBe(true);
+    });
+
+    test('should not update another user profile', async () => {
+      const updateData = {
+        user_id: testUsers.guest.user_id,
+        bio: 'Trying to hack another user'
+      };
+
+      await request(app)
+        .patch(`/api/users/${testUsers.guest.user_id}`)
+        .set('Authorization', authTokenHost) // Using host token to update guest
+        .send(updateData)
+        .expect(403);
+    });
+
+    test('should only let admins grant roles', async () => {
+      await request(app)
+        .post('/api/auth/register')
+        .send({ email: 'self.admin@example.com', password: 'password123', name: 'Self Admin', phone_number: '+218910000099', role: 'admin' })
+        .expect(400);
+
+      const escalation = await request(app)
+        .patch(`/api/users/${testUsers.guest.user_id}`)
+        .set('Authorization', authTokenGuest)
+        .send({ role: 'admin' })
+        .expect(403);
+
+      expect(escalation.body.error_code).toBe('FORBIDDEN_ACCESS');
+
+      const promoted = await request(app)
+        .patch(`/api/users/${testUsers.guest.user_id}`)
+        .set('Authorization', authTokenAdmin)
+        .send({ role: 'host' })
+        .expect(200);
+
+      expect(promoted.body.role).toBe('host');
+
+      await pool.query('UPDATE users SET role = $1 WHERE user_id = $2', ['guest', testUsers.guest.user_id]);
+    });
+
+    test('should serve verification documents only to their owner and admins', async () => {
+      const uploaded = await request(app)
+        .post(`/api/users/${testUsers.guest.user_id}/verification-document`)
+        .set('Authorization', authTokenGuest)
+        .attach('document', Buffer.from('%PDF-1.4\n%%EOF'), { filename: 'passport.pdf', contentType: 'application/pdf' })
+        .expect(200);
+
+      const documentUrl = new URL(uploaded.body.verification_document_url).pathname;
+      expect(documentUrl).toMatch(/^\/api\/files\/verification-documents\/[\w-]+\.pdf$/);
+
+      await request(app).get(documentUrl).set('Authorization', authTokenGuest).expect(200);
+      await request(app).get(documentUrl).set('Authorization', authTokenAdmin).expect(200);
+      await request(app).get(documentUrl).set('Authorization', authTokenHost).expect(403);
+      await request(app).get(documentUrl).expect(401);
+
+      // Claiming the document through a profile update is refused
+      const claimed = await request(app)
+        .patch(`/api/users/${testUsers.host.user_id}`)
+        .set('Authorization', authTokenHost)
+        .send({ verification_document_url: uploaded.body.verification_document_url })
+        .expect(400);
+
+      expect(claimed.body.error_code).toBe('INVALID_FILE_URL');
+
+      // So is claiming it, or the owner's avatar, when signing up
+      for (const field of ['verification_document_url', 'profile_picture_url']) {
+        const registered = await request(app)
+          .post('/api/auth/register')
+          .send({
+            email: `claimant.${field}@example.com`,
+            phone_number: field === 'profile_picture_url' ? '+218910000201' : '+218910000202',
+            password: 'claimant123',
+            name: 'Claimant',
+            role: 'guest',
+            [field]: uploaded.body.verification_document_url
+          })
+          .expect(400);
+
+        expect(registered.body.error_code).toBe('INVALID_FILE_URL');
+      }
+      await request(app).get(documentUrl).set('Authorization', authTokenGuest).expect(200);
+    });
+  });
+
+  // Property Management Tests
+  describe('Property Management', () => {
+    test('should search properties', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ city: 'Tripoli' })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('properties');
+      expect(response.body).toHaveProperty('total_count');
+      expect(Array.isArray(response.body.properties)).toBe(true);
+    });
+
+    test('should create property listing', async () => {
+      const newProperty = {
+        host_id: testUsers.host.user_id,
+        title: 'Test Property',
+        description: 'Beautiful test property',
+        city: 'Tripoli',
+        property_type: 'apartment',
+        guest_capacity: 4,
+        bedrooms: 2,
+        beds: 3,
+        bathrooms: 2,
+        base_price_per_night: 100,
+        cancellation_policy: 'moderate'
+      };
+
+      const response = await request(app)
+        .post('/api/properties')
+        .set('Authorization', authTokenHost)
+        .send(newProperty)
+        .expect(201);
+
+      expect(response.body.title).toBe(newProperty.title);
+      expect(response.body.host_id).toBe(newProperty.host_id);
+    });
+
+    test('should get property details', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}`)
+        .expect(200);
+
+      expect(response.body.property_id).toBe(testProperties.property1.property_id);
+      expect(response.body.title).toBe(testProperties.property1.title);
+    });
+
+    test('should list the amenity catalog with Arabic labels', async () => {
+      const response = await request(app)
+        .get('/api/amenities')
+        .expect(200);
+
+      const wifi = response.body.find(a => a.amenity_key === 'wifi');
+      expect(wifi).toMatchObject({ name_en: 'WiFi', name_ar: 'واي فاي', category: 'essentials' });
+    });
+
+    test('should require every requested amenity when filtering', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ amenities: 'wifi,parking', limit: 50 })
+        .expect(200);
+
+      const ids = response.body.properties.map(p => p.property_id);
+      expect(ids).toContain('prop_001');
+      expect(ids).not.toContain('prop_002');
+      expect(ids).not.toContain('prop_003');
+
+      // A key and a name of the same amenity ask for one amenity, not two
+      const sameAmenity = await request(app)
+        .get('/api/properties')
+        .query({ amenities: 'wifi,واي فاي', limit: 50 })
+        .expect(200);
+      expect(sameAmenity.body.properties.map(p => p.property_id)).toContain('prop_001');
+
+      const unknown = await request(app).get('/api/properties').query({ amenities: 'wifi,helipad' }).expect(400);
+      expect(unknown.body.error_code).toBe('UNKNOWN_AMENITY');
+    });
+
+    test('should store listing amenities from the catalog only', async () => {
+      const listing = {
+        title: 'Amenity Test Flat',
+        description: 'Flat with a sea view',
+        city: 'Misrata',
+        property_type: 'apartment',
+        guest_capacity: 2,
+        bedrooms: 1,
+        beds: 1,
+        bathrooms: 1,
+        base_price_per_night: 90,
+        cancellation_policy: 'flexible'
+      };
+
+      const rejected = await request(app)
+        .post('/api/properties')
+        .set('Authorization', authTokenHost)
+        .send({ ...listing, amenities: 'WiFi,Wifii' })
+        .expect(400);
+      expect(rejected.body.error_code).toBe('UNKNOWN_AMENITY');
+
+      const created = await request(app)
+        .post('/api/properties')
+        .set('Authorization', authTokenHost)
+        .send({ ...listing, amenities: ['sea_view', 'واي فاي'] })
+        .expect(201);
+      expect(created.body.amenities).toBe('WiFi,Sea View');
+
+      const details = await request(app).get(`/api/properties/${created.body.property_id}`).expect(200);
+      expect(details.body.amenity_list.map(a => a.amenity_key)).toEqual(['wifi', 'sea_view']);
+    });
+
+    test('should embed rating summaries for the property and its host', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}`)
+        .expect(200);
+
+      expect(response.body.rating_summary.review_count).toBeGreaterThanOrEqual(1);
+      expect(response.body.rating_summary.overall_rating).toBe(5);
+      expect(response.body.rating_summary.rating_distribution['5']).toBeGreaterThanOrEqual(1);
+      expect(response.body.host_rating_summary.review_count).toBeGreaterThanOrEqual(1);
+    });
+
+    test('should filter and sort properties by rating', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ min_rating: 4.5, sort_by: 'rating' })
+        .expect(200);
+
+      const ratings = response.body.properties.map(p => p.rating_summary.overall_rating);
+      expect(response.body.properties.map(p => p.property_id)).toContain(testProperties.property1.property_id);
+      expect(ratings.every(rating => rating >= 4.5)).toBe(true);
+      expect(ratings).toEqual([...ratings].sort((a, b) => b - a));
+    });
+
+    test('should find properties near a point, nearest first', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ near: '32.88,13.19', radius_km: 10 })
+        .expect(200);
+
+      const ids = response.body.properties.map(p => p.property_id);
+      expect(ids).toEqual(expect.arrayContaining(['prop_001', 'prop_002']));
+      expect(ids).not.toContain('prop_003');
+
+      const distances = response.body.properties.map(p => p.distance_km);
+      expect(distances.every(distance => distance <= 10)).toBe(true);
+      expect(distances).toEqual([...distances].sort((a, b) => a - b));
+    });
+
+    test('should return listings in a bounding box as map points', async () => {
+      await pool.query('UPDATE properties SET latitude = NULL, longitude = NULL WHERE property_id = $1', ['prop_002']);
+
+      const response = await request(app)
+        .get('/api/properties/map')
+        .query({ bbox: '12.9,32.6,13.5,33.1' })
+        .expect(200);
+
+      expect(response.body.type).toBe('FeatureCollection');
+      const feature = response.body.features.find(f => f.id === 'prop_001');
+      expect(feature.geometry).toEqual({ type: 'Point', coordinates: [13.1913, 32.8872] });
+      expect(response.body.features.map(f => f.id)).not.toContain('prop_002');
+
+      const text = await request(app).get('/api/properties').query({ location: 'Tripoli', limit: 50 }).expect(200);
+      expect(text.body.properties.map(p => p.property_id)).toContain('prop_002');
+
+      await pool.query('UPDATE properties SET latitude = 32.8761, longitude = 13.1867 WHERE property_id = $1', ['prop_002']);
+    });
+
+    test('should find properties by Arabic place name spellings', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ q: 'apartment طرابلس' })
+        .expect(200);
+
+      const ids = response.body.properties.map(p => p.property_id);
+      expect(ids).toContain('prop_001');
+      expect(ids).not.toContain('prop_002');
+
+      const benghazi = await request(app).get('/api/properties').query({ q: 'بنغازى' }).expect(200);
+      expect(benghazi.body.properties.map(p => p.property_id)).toContain('prop_003');
+      expect(benghazi.body.properties.map(p => p.property_id)).not.toContain('prop_001');
+    });
+
+    test('should rank title matches above place matches', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ q: 'tripoli', limit: 50 })
+        .expect(200);
+
+      const ids = response.body.properties.map(p => p.property_id);
+      expect(ids).toContain('prop_002');
+      expect(ids).not.toContain('prop_003');
+      expect(ids.indexOf('prop_001')).toBeLessThan(ids.indexOf('prop_002'));
+    });
+
+    test('should page through search results with cursors', async () => {
+      const ids = [];
+      let cursor;
+      let total_count;
+      do {
+        const response = await request(app)
+          .get('/api/properties')
+          .query({ location: 'Tripoli', sort_by: 'price_low_to_high', limit: 1, cursor })
+          .expect(200);
+
+        ids.push(...response.body.properties.map(p => p.property_id));
+        total_count = response.body.total_count;
+        cursor = response.body.next_cursor;
+      } while (cursor);
+
+      const matching = await pool.query(`SELECT COUNT(*) FROM properties WHERE is_active = true AND city ILIKE '%Tripoli%'`);
+      expect(total_count).toBe(parseInt(matching.rows[0].count));
+      expect(ids).toHaveLength(total_count);
+      expect(new Set(ids).size).toBe(ids.length);
+
+      const reused = await request(app).get('/api/properties').query({ sort_by: 'newest', cursor: 'bm90LWEtY3Vyc29y' }).expect(400);
+      expect(reused.body.error_code).toBe('INVALID_CURSOR');
+    });
+
+    test('should filter and show prices in a display currency', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ display_currency: 'USD', rate_type: 'official', price_max: 25 })
+        .expect(200);
+
+      const ids = response.body.properties.map(p => p.property_id);
+      expect(ids).toContain(testProperties.property2.property_id);
+      expect(ids).not.toContain(testProperties.property1.property_id);
+      for (const property of response.body.properties) {
+        expect(property.display_currency).toBe('USD');
+        expect(property.display_price_per_night).toBeLessThanOrEqual(25);
+      }
+
+      const unsupported = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}`)
+        .query({ display_currency: 'XYZ' })
+        .expect(400);
+
+      expect(unsupported.body.error_code).toBe('UNSUPPORTED_CURRENCY');
+    });
+
+    test('should reject malformed geo parameters', async () => {
+      const response = await request(app)
+        .get('/api/properties')
+        .query({ bbox: '13.5,32.6,12.9' })
+        .expect(400);
+
+      expect(response.body.error_code).toBe('INVALID_GEO_FILTER');
+    });
+
+    test('should update property listing', async () => {
+      const updateData = {
+        property_id: testProperties.property1.property_id,
+        title: 'Updated Luxury Apartment'
+      };
+
+      const response = await request(app)
+        .patch(`/api/properties/${testProperties.property1.property_id}`)
+        .set('Authorization', authTokenHost)
+        .send(updateData)
+        .expect(200);
+
+      expect(response.body.title).toBe(updateData.title);
+    });
+
+    test('should not update another host property', async () => {
+      const updateData = {
+        property_id: testProperties.property1.property_id,
+        title: 'Hacker Attempt'
+      };
+
+      await request(app)
+        .patch(`/api/properties/${testProperties.property1.property_id}`)
+        .set('Authorization', authTokenGuest) // Guest trying to update host property
+        .send(updateData)
+        .expect(403);
+    });
+
+    test('should get property photos', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/photos`)
+        .expect(200);
+
+      expect(Array.isArray(response.body)).toBe(true);
+    });
+
+    test('should add property photo', async () => {
+      const newPhoto = {
+        property_id: testProperties.property1.property_id,
+        photo_url: 'https://example.com/test-photo.jpg',
+        display_order: 10
+      };
+
+      const response = await request(app)
+        .post(`/api/properties/${testProperties.property1.property_id}/photos`)
+        .set('Authorization', authTokenHost)
+        .send(newPhoto)
+        .expect(201);
+
+      expect(response.body.photo_url).toBe(newPhoto.photo_url);
+      expect(response.body.display_order).toBe(newPhoto.display_order);
+    });
+
+    test('should get property availability', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/availability`)
+        .query({ start_date: '2023-06-01', end_date: '2023-06-05' })
+        .expect(200);
+
+      expect(Array.isArray(response.body)).toBe(true);
+    });
+
+    test('should set property availability', async () => {
+      const availability = {
+        property_id: testProperties.property1.property_id,
+        date: '2023-07-01',
+        is_available: true
+      };
+
+      const response = await request(app)
+        .post(`/api/properties/${testProperties.property1.property_id}/availability`)
+        .set('Authorization', authTokenHost)
+        .send(availability)
+        .expect(201);
+
+      expect(response.body.date).toBe(availability.date);
+      expect(response.body.is_available).toBe(availability.is_available);
+    });
+
+    test('should block a weekday pattern across a date range', async () => {
+      const blocked = await request(app)
+        .put(`/api/properties/${testProperties.property2.property_id}/availability`)
+        .set('Authorization', authTokenHost)
+        .send({ start_date: '2024-03-01', end_date: '2024-03-31', weekdays: [5], is_available: false })
+        .expect(200);
+
+      expect(blocked.body.created.map(row => row.date)).toEqual(['2024-03-01', '2024-03-08', '2024-03-15', '2024-03-22', '2024-03-29']);
+
+      // Open nights at the base price need no row
+      const reopened = await request(app)
+        .put(`/api/properties/${testProperties.property2.property_id}/availability`)
+        .set('Authorization', authTokenHost)
+        .send({ start_date: '2024-03-01', end_date: '2024-03-31', is_available: true })
+        .expect(200);
+
+      expect(reopened.body.created).toHaveLength(0);
+      expect(reopened.body.deleted).toHaveLength(5);
+    });
+
+    test('should reject calendar ranges longer than a year', async () => {
+      const calendar = await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/calendar`)
+        .set('Authorization', authTokenHost)
+        .query({ start_date: '2000-01-01', end_date: '9999-12-31' })
+        .expect(400);
+
+      expect(calendar.body.error_code).toBe('INVALID_DATE_RANGE');
+
+      await request(app)
+        .put(`/api/properties/${testProperties.property2.property_id}/availability`)
+        .set('Authorization', authTokenHost)
+        .send({ start_date: '2024-01-01', end_date: '2025-01-01', is_available: false })
+        .expect(400);
+    });
+
+    test('should get property price quote', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/quote`)
+        .query({ check_in: '2023-06-01', check_out: '2023-06-03', guests: 2 })
+        .expect(200);
+
+      expect(response.body.nights).toBe(2);
+      expect(response.body.nightly_rates).toHaveLength(2);
+      // 2023-06-02 carries a price_override of 160 in the seed data
+      expect(response.body.nightly_rates[1]).toMatchObject({ date: '2023-06-02', price: 160, source: 'override' });
+      expect(response.body.total_price).toBeCloseTo(response.body.subtotal + response.body.service_fee, 2);
+    });
+
+    test('should reject quote with check_out before check_in', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/quote`)
+        .query({ check_in: '2023-06-05', check_out: '2023-06-01' })
+        .expect(400);
+
+      expect(response.body.error_code).toBe('INVALID_DATE_RANGE');
+
+      const overlong = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/quote`)
+        .query({ check_in: '0001-01-01', check_out: '9999-12-31' })
+        .expect(400);
+
+      expect(overlong.body.error_code).toBe('INVALID_DATE_RANGE');
+    });
+
+    test('should price a stay with seasonal, weekend and length-of-stay rules', async () => {
+      const propertyId = testProperties.property2.property_id;
+      const checkIn = daysFromNow(60);
+      const checkOut = daysFromNow(67);
+      const season = { start_date: daysFromNow(61), end_date: daysFromNow(62) };
+
+      const rules = [];
+      for (const rule of [
+        { rule_type: 'weekend', name: 'Weekend', adjustment_percent: 25 },
+        { rule_type: 'seasonal', name: 'Eid', nightly_price: 120, ...season },
+        { rule_type: 'length_of_stay', name: 'Weekly', min_nights: 7, adjustment_percent: -10 }
+      ]) {
+        const created = await request(app)
+          .post(`/api/properties/${propertyId}/pricing-rules`)
+          .set('Authorization', authTokenHost)
+          .send(rule)
+          .expect(201);
+        rules.push(created.body);
+      }
+
+      const response = await request(app)
+        .get(`/api/properties/${propertyId}/quote`)
+        .query({ check_in: checkIn, check_out: checkOut })
+        .expect(200);
+
+      // Seasons beat weekends, which beat the 80 LYD base price
+      for (const night of response.body.nightly_rates) {
+        const weekday = new Date(`${night.date}T00:00:00Z`).getUTCDay();
+        if (night.date >= season.start_date && night.date <= season.end_date) {
+          expect(night).toMatchObject({ price: 120, source: 'seasonal', rule_id: rules[1].rule_id });
+        } else if (weekday === 5 || weekday === 6) {
+          expect(night).toMatchObject({ price: 100, source: 'weekend', rule_id: rules[0].rule_id });
+        } else {
+          expect(night).toMatchObject({ price: 80, source: 'base' });
+        }
+      }
+      const nightlySubtotal = response.body.nightly_rates.reduce((sum, night) => sum + night.price, 0);
+      expect(response.body.nightly_subtotal).toBe(nightlySubtotal);
+      expect(response.body.adjustments).toEqual([expect.objectContaining({
+        rule_id: rules[2].rule_id, adjustment_percent: -10, amount: -nightlySubtotal / 10
+      })]);
+      expect(response.body.subtotal).toBeCloseTo(nightlySubtotal * 0.9, 2);
+
+      // Inactive rules stop applying
+      await request(app)
+        .patch(`/api/properties/${propertyId}/pricing-rules/${rules[2].rule_id}`)
+        .set('Authorization', authTokenHost)
+        .send({ is_active: false })
+        .expect(200);
+      const withoutDiscount = await request(app)
+        .get(`/api/properties/${propertyId}/quote`)
+        .query({ check_in: checkIn, check_out: checkOut })
+        .expect(200);
+      expect(withoutDiscount.body.subtotal).toBe(nightlySubtotal);
+
+      for (const rule of rules) {
+        await request(app)
+          .delete(`/api/properties/${propertyId}/pricing-rules/${rule.rule_id}`)
+          .set('Authorization', authTokenHost)
+          .expect(204);
+      }
+    });
+
+    test('should filter and sort searched stays on their rule-priced nights', async () => {
+      const cheaper = testProperties.property2.property_id;
+      const checkIn = daysFromNow(70);
+      const checkOut = daysFromNow(73);
+      // Lifts the 80 LYD studio above the 150 LYD apartment for the stay
+      const rule = await request(app)
+        .post(`/api/properties/${cheaper}/pricing-rules`)
+        .set('Authorization', authTokenHost)
+        .send({ rule_type: 'seasonal', name: 'Festival', nightly_price: 200, start_date: checkIn, end_date: checkOut })
+        .expect(201);
+
+      const sorted = await request(app)
+        .get('/api/properties')
+        .query({ location: 'Tripoli', check_in: checkIn, check_out: checkOut, sort_by: 'price_low_to_high', limit: 50 })
+        .expect(200);
+      const ids = sorted.body.properties.map(p => p.property_id);
+      expect(ids.indexOf(testProperties.property1.property_id)).toBeLessThan(ids.indexOf(cheaper));
+      expect(sorted.body.properties.find(p => p.property_id === cheaper).stay_price_per_night).toBe(200);
+      const prices = sorted.body.properties.map(p => p.stay_price_per_night);
+      expect(prices).toEqual([...prices].sort((a, b) => a - b));
+
+      const filtered = await request(app)
+        .get('/api/properties')
+        .query({ location: 'Tripoli', check_in: checkIn, check_out: checkOut, price_min: 180 })
+        .expect(200);
+      const filteredIds = filtered.body.properties.map(p => p.property_id);
+      expect(filteredIds).toContain(cheaper);
+      expect(filteredIds).not.toContain(testProperties.property1.property_id);
+      expect(filtered.body.total_count).toBe(filtered.body.properties.length);
+
+      // Without dates the base price still decides
+      const undated = await request(app)
+        .get('/api/properties')
+        .query({ location: 'Tripoli', price_min: 180 })
+        .expect(200);
+      expect(undated.body.properties.map(p => p.property_id)).not.toContain(cheaper);
+
+      await request(app)
+        .delete(`/api/properties/${cheaper}/pricing-rules/${rule.body.rule_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(204);
+    });
+
+    test('should reject pricing rules missing the fields of their type', async () => {
+      const propertyId = testProperties.property2.property_id;
+
+      const response = await request(app)
+        .post(`/api/properties/${propertyId}/pricing-rules`)
+        .set('Authorization', authTokenHost)
+        .send({ rule_type: 'seasonal', name: 'Summer', adjustment_percent: 20 })
+        .expect(400);
+      expect(response.body.error_code).toBe('INVALID_PRICING_RULE');
+
+      const both = await request(app)
+        .post(`/api/properties/${propertyId}/pricing-rules`)
+        .set('Authorization', authTokenHost)
+        .send({ rule_type: 'weekend', name: 'Weekend', nightly_price: 100, adjustment_percent: 20 })
+        .expect(400);
+      expect(both.body.error_code).toBe('INVALID_PRICING_RULE');
+
+      await request(app)
+        .post(`/api/properties/${propertyId}/pricing-rules`)
+        .set('Authorization', authTokenGuest)
+        .send({ rule_type: 'early_bird', name: 'Early bird', days_before: 60, adjustment_percent: -5 })
+        .expect(403);
+    });
+
+    test('should get property reviews', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/reviews`)
+        .expect(200);
+
+      expect(Array.isArray(response.body)).toBe(true);
+    });
+
+    test('should upload a photo without its GPS data and delete the file with the row', async () => {
+      const response = await request(app)
+        .post(`/api/properties/${testProperties.property1.property_id}/photos/upload`)
+        .set('Authorization', authTokenHost)
+        .field('caption', 'Living room')
+        .attach('photo', await jpegWithGps(), { filename: 'IMG_0001.jpg', contentType: 'image/jpeg' })
+        .expect(201);
+
+      expect(response.body.photo_url).toMatch(/\/uploads\/[\w-]+\.jpg$/);
+      expect(response.body.card_url).toMatch(/-card\.webp$/);
+      expect(typeof response.body.blurhash).toBe('string');
+
+      const thumbnailUrl = new URL(response.body.thumbnail_url).pathname;
+      const thumbnail = await request(app).get(thumbnailUrl).expect(200);
+      expect((await sharp(thumbnail.body).metadata()).width).toBe(320);
+
+      const fileUrl = new URL(response.body.photo_url).pathname;
+      const file = await request(app).get(fileUrl).expect(200);
+      expect(file.headers['content-type']).toBe('image/jpeg');
+      expect((await sharp(file.body).metadata()).exif).toBeUndefined();
+
+      // A photo merely pointing at the upload does not own its file
+      const linked = await request(app)
+        .post(`/api/properties/${testProperties.property2.property_id}/photos`)
+        .set('Authorization', authTokenHost)
+        .send({ photo_url: response.body.photo_url, display_order: 9 })
+        .expect(201);
+
+      await request(app)
+        .delete(`/api/properties/${testProperties.property1.property_id}/photos/${linked.body.photo_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(404);
+
+      await request(app)
+        .delete(`/api/properties/${testProperties.property2.property_id}/photos/${linked.body.photo_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(204);
+
+      await request(app).get(fileUrl).expect(200);
+
+      await request(app)
+        .delete(`/api/properties/${testProperties.property1.property_id}/photos/${response.body.photo_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(204);
+
+      await request(app).get(fileUrl).expect(404);
+      await request(app).get(thumbnailUrl).expect(404);
+    });
+
+    test('should reject uploads that are not images', async () => {
+      const response = await request(app)
+        .post(`/api/properties/${testProperties.property1.property_id}/photos/upload`)
+        .set('Authorization', authTokenHost)
+        .attach('photo', Buffer.from('not really a png'), { filename: 'photo.png', contentType: 'image/png' })
+        .expect(400);
+
+      expect(response.body.error_code).toBe('INVALID_FILE_TYPE');
+    });
+
+    test('should reject images that cannot be decoded', async () => {
+      const truncated = (await jpegWithGps()).subarray(0, 200);
+      const response = await request(app)
+        .post(`/api/properties/${testProperties.property1.property_id}/photos/upload`)
+        .set('Authorization', authTokenHost)
+        .attach('photo', truncated, { filename: 'broken.jpg', contentType: 'image/jpeg' })
+        .expect(400);
+
+      expect(response.body.error_code).toBe('INVALID_IMAGE');
+    });
+  });
+
+  // Booking Management Tests
+  describe('Booking Management', () => {
+    test('should search bookings', async () => {
+      const response = await request(app)
+        .get('/api/bookings')
+        .set('Authorization', authTokenAdmin)
+        .query({ guest_id: testUsers.guest.user_id })
+        .expect(200);
+
+      expect(response.body).toHaveProperty('bookings');
+      expect(response.body).toHaveProperty('total_count');
+    });
+
+    test('should count only the bookings a non-admin can see', async () => {
+      const response = await request(app)
+        .get('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .query({ limit: 1 })
+        .expect(200);
+
+      const visible = await pool.query(
+        'SELECT COUNT(*) FROM bookings WHERE guest_id = $1 OR host_id = $1',
+        [testUsers.guest.user_id]
+      );
+      expect(response.body.total_count).toBe(parseInt(visible.rows[0].count));
+      expect(response.body.next_cursor === null).toBe(response.body.total_count <= 1);
+    });
+
+    test('should create booking', async () => {
+      const newBooking = {
+        property_id: testProperties.property2.property_id,
+        guest_id: testUsers.guest.user_id,
+        host_id: testUsers.host.user_id,
+        check_in: '2023-07-01',
+        check_out: '2023-07-05',
+        guest_count: 2,
+        status: 'pending'
+      };
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send(newBooking)
+        .expect(201);
+
+      expect(response.body.property_id).toBe(newBooking.property_id);
+      expect(response.body.guest_id).toBe(newBooking.guest_id);
+      expect(response.body.status).toBe(newBooking.status);
+    });
+
+    test('should price booking on the server', async () => {
+      const quoteRes = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/quote`)
+        .query({ check_in: '2023-09-01', check_out: '2023-09-04', guests: 2 })
+        .expect(200);
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property1.property_id,
+          check_in: '2023-09-01',
+          check_out: '2023-09-04',
+          guest_count: 2
+        })
+        .expect(201);
+
+      expect(parseFloat(response.body.total_price)).toBe(quoteRes.body.total_price);
+      expect(parseFloat(response.body.service_fee)).toBe(quoteRes.body.service_fee);
+    });
+
+    test('should snapshot the exchange rates on a booking', async () => {
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property2.property_id,
+          check_in: '2023-11-10',
+          check_out: '2023-11-12',
+          guest_count: 1,
+          display_currency: 'EUR'
+        })
+        .expect(201);
+
+      expect(response.body).toMatchObject({ currency: 'LYD', display_currency: 'EUR', exchange_rate_type: 'official' });
+      expect(parseFloat(response.body.lyd_exchange_rate)).toBe(1);
+      expect(parseFloat(response.body.display_exchange_rate)).toBeCloseTo(1 / 5.24, 6);
+    });
+
+    test('should reject booking with mismatched total price', async () => {
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property1.property_id,
+          check_in: '2023-09-10',
+          check_out: '2023-09-12',
+          guest_count: 2,
+          total_price: 1,
+          service_fee: 0
+        })
+        .expect(400);
+
+      expect(response.body.error_code).toBe('PRICE_MISMATCH');
+    });
+
+    test('should reject booking overlapping a confirmed stay', async () => {
+      // book_001 holds prop_001 from 2023-06-01 to 2023-06-05
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property1.property_id,
+          check_in: '2023-06-04',
+          check_out: '2023-06-06',
+          guest_count: 2
+        })
+        .expect(409);
+
+      expect(response.body.error_code).toBe('DATES_UNAVAILABLE');
+    });
+
+    test('should block nights when a booking is confirmed', async () => {
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property2.property_id,
+          check_in: '2023-10-01',
+          check_out: '2023-10-03',
+          guest_count: 2
+        })
+        .expect(201);
+
+      await request(app)
+        .patch(`/api/bookings/${created.body.booking_id}`)
+        .set('Authorization', authTokenHost)
+        .send({ status: 'confirmed' })
+        .expect(200);
+
+      const availability = await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/availability`)
+        .query({ start_date: '2023-10-01', end_date: '2023-10-02' })
+        .expect(200);
+
+      expect(availability.body).toHaveLength(2);
+      expect(availability.body.every(day => day.is_available === false)).toBe(true);
+    });
+
+    test('should merge bookings, blocks and pending requests into the host calendar', async () => {
+      // The previous test confirmed prop_002 for the nights of 2023-10-01 and 2023-10-02
+      const pending = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({ property_id: testProperties.property2.property_id, check_in: '2023-10-04', check_out: '2023-10-06', guest_count: 1 })
+        .expect(201);
+
+      const range = await request(app)
+        .put(`/api/properties/${testProperties.property2.property_id}/availability`)
+        .set('Authorization', authTokenHost)
+        .send({ start_date: '2023-10-01', end_date: '2023-10-03', is_available: false })
+        .expect(200);
+
+      expect(range.body.skipped_dates).toEqual(['2023-10-01', '2023-10-02']);
+
+      const calendar = await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/calendar`)
+        .query({ start_date: '2023-10-01', end_date: '2023-10-05' })
+        .set('Authorization', authTokenHost)
+        .expect(200);
+
+      expect(calendar.body.days.map(day => day.status)).toEqual(['booked', 'booked', 'blocked', 'available', 'available']);
+      expect(calendar.body.days[3].pending_booking_ids).toEqual([pending.body.booking_id]);
+
+      await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/calendar`)
+        .set('Authorization', authTokenGuest)
+        .expect(403);
+    });
+
+    test('should confirm instant-book listings immediately for verified guests', async () => {
+      const eligibility = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/instant-book`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      expect(eligibility.body).toEqual({ instant_book: true, eligible: true, reasons: [] });
+
+      const response = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property1.property_id,
+          check_in: '2023-12-01',
+          check_out: '2023-12-03',
+          guest_count: 2
+        })
+        .expect(201);
+
+      expect(response.body.status).toBe('confirmed');
+    });
+
+    test('should report request-to-book listings as not instant', async () => {
+      const response = await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/instant-book`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      expect(response.body.eligible).toBe(false);
+      expect(response.body.reasons).toContain('instant_book_disabled');
+    });
+
+    test('should get booking details', async () => {
+      const response = await request(app)
+        .get(`/api/bookings/${testBookings.booking1.booking_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(200);
+
+      expect(response.body.booking_id).toBe(testBookings.booking1.booking_id);
+    });
+
+    test('should update booking status', async () => {
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property2.property_id,
+          check_in: '2023-11-01',
+          check_out: '2023-11-03',
+          guest_count: 2
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .patch(`/api/bookings/${created.body.booking_id}`)
+        .set('Authorization', authTokenHost)
+        .send({ status: 'declined', reason: 'Unavailable for maintenance' })
+        .expect(200);
+
+      expect(response.body.status).toBe('declined');
+
+      const history = await request(app)
+        .get(`/api/bookings/${created.body.booking_id}/history`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      expect(history.body.map(entry => entry.to_status)).toEqual(['pending', 'declined']);
+      expect(history.body[1]).toMatchObject({ from_status: 'pending', actor_role: 'host', reason: 'Unavailable for maintenance' });
+    });
+
+    test('should enforce stay restrictions when booking', async () => {
+      const propertyId = testProperties.property2.property_id;
+      const booking = { property_id: propertyId, guest_count: 1 };
+
+      await request(app)
+        .patch(`/api/properties/${propertyId}`)
+        .set('Authorization', authTokenHost)
+        .send({ min_nights: 3, booking_window_days: 180 })
+        .expect(200);
+      const restriction = await request(app)
+        .post(`/api/properties/${propertyId}/stay-restrictions`)
+        .set('Authorization', authTokenHost)
+        .send({ start_date: daysFromNow(30), end_date: daysFromNow(31), closed_to_arrival: true })
+        .expect(201);
+
+      const details = await request(app).get(`/api/properties/${propertyId}`).expect(200);
+      expect(details.body.min_nights).toBe(3);
+      expect(details.body.stay_restrictions.map(item => item.restriction_id)).toContain(restriction.body.restriction_id);
+
+      const tooShort = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({ ...booking, check_in: daysFromNow(20), check_out: daysFromNow(22) })
+        .expect(400);
+      expect(tooShort.body.error_code).toBe('MIN_NIGHTS_NOT_MET');
+
+      // Quotes follow the same rules
+      const quote = await request(app)
+        .get(`/api/properties/${propertyId}/quote`)
+        .query({ check_in: daysFromNow(20), check_out: daysFromNow(22) })
+        .expect(400);
+      expect(quote.body.error_code).toBe('MIN_NIGHTS_NOT_MET');
+
+      const closed = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({ ...booking, check_in: daysFromNow(31), check_out: daysFromNow(35) })
+        .expect(400);
+      expect(closed.body.error_code).toBe('CLOSED_TO_ARRIVAL');
+
+      const tooFar = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({ ...booking, check_in: daysFromNow(200), check_out: daysFromNow(204) })
+        .expect(400);
+      expect(tooFar.body.error_code).toBe('BOOKING_WINDOW_EXCEEDED');
+
+      const invalid = await request(app)
+        .patch(`/api/properties/${propertyId}`)
+        .set('Authorization', authTokenHost)
+        .send({ max_nights: 2 })
+        .expect(400);
+      expect(invalid.body.error_code).toBe('INVALID_STAY_RESTRICTION');
+
+      await request(app)
+        .delete(`/api/properties/${propertyId}/stay-restrictions/${restriction.body.restriction_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(204);
+      await request(app)
+        .patch(`/api/properties/${propertyId}`)
+        .set('Authorization', authTokenHost)
+        .send({ min_nights: 1, booking_window_days: null })
+        .expect(200);
+    });
+
+    test('should leave listings out of dated searches their restrictions rule out', async () => {
+      const propertyId = testProperties.property2.property_id;
+      const stay = { check_in: daysFromNow(90), check_out: daysFromNow(92), limit: 50 };
+
+      const restriction = await request(app)
+        .post(`/api/properties/${propertyId}/stay-restrictions`)
+        .set('Authorization', authTokenHost)
+        .send({ start_date: daysFromNow(85), end_date: daysFromNow(95), min_nights: 7 })
+        .expect(201);
+
+      const restricted = await request(app).get('/api/properties').query(stay).expect(200);
+      expect(restricted.body.properties.map(property => property.property_id)).not.toContain(propertyId);
+
+      const weekly = await request(app)
+        .get('/api/properties')
+        .query({ ...stay, check_out: daysFromNow(97) })
+        .expect(200);
+      expect(weekly.body.properties.map(property => property.property_id)).toContain(propertyId);
+
+      await request(app)
+        .delete(`/api/properties/${propertyId}/stay-restrictions/${restriction.body.restriction_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(204);
+    });
+
+    test('should not let a guest confirm their own booking', async () => {
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property2.property_id,
+          check_in: '2023-11-10',
+          check_out: '2023-11-12',
+          guest_count: 2
+        })
+        .expect(201);
+
+      const response = await request(app)
+        .patch(`/api/bookings/${created.body.booking_id}`)
+        .set('Authorization', authTokenGuest)
+        .send({ status: 'confirmed' })
+        .expect(403);
+
+      expect(response.body.error_code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    test('should not let a host mark a booking completed', async () => {
+      const response = await request(app)
+        .patch(`/api/bookings/${testBookings.booking1.booking_id}`)
+        .set('Authorization', authTokenHost)
+        .send({ status: 'completed' })
+        .expect(403);
+
+      expect(response.body.error_code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    test('should preview a full refund and host penalty well before check-in', async () => {
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property1.property_id,
+          check_in: daysFromNow(40),
+          check_out: daysFromNow(42),
+          guest_count: 2
+        })
+        .expect(201);
+
+      expect(created.body.status).toBe('confirmed');
+
+      const guestPreview = await request(app)
+        .get(`/api/bookings/${created.body.booking_id}/cancellation-preview`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      expect(guestPreview.body).toMatchObject({
+        cancellation_policy: 'moderate',
+        cancelled_by_role: 'guest',
+        refund_percentage: 100,
+        host_penalty: 0
+      });
+      expect(guestPreview.body.refund_amount).toBeCloseTo(parseFloat(created.body.total_price));
+
+      const hostPreview = await request(app)
+        .get(`/api/bookings/${created.body.booking_id}/cancellation-preview`)
+        .set('Authorization', authTokenHost)
+        .expect(200);
+
+      const subtotal = parseFloat(created.body.total_price) - parseFloat(created.body.service_fee);
+      expect(hostPreview.body.refund_amount).toBeCloseTo(parseFloat(created.body.total_price));
+      expect(hostPreview.body.host_penalty).toBeCloseTo(subtotal * 0.1);
+
+      await request(app)
+        .patch(`/api/bookings/${created.body.booking_id}`)
+        .set('Authorization', authTokenGuest)
+        .send({ status: 'cancelled', reason: 'Change of plans' })
+        .expect(200);
+
+      const cancellation = await request(app)
+        .get(`/api/bookings/${created.body.booking_id}/cancellation`)
+        .set('Authorization', authTokenHost)
+        .expect(200);
+
+      expect(cancellation.body).toMatchObject({
+        cancelled_by: testUsers.guest.user_id,
+        actor_role: 'guest',
+        previous_status: 'confirmed',
+        reason: 'Change of plans'
+      });
+      expect(parseFloat(cancellation.body.refund_amount)).toBeCloseTo(parseFloat(created.body.total_price));
+    });
+
+    test('should keep the service fee and half the stay on a late moderate cancellation', async () => {
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({
+          property_id: testProperties.property1.property_id,
+          check_in: daysFromNow(2),
+          check_out: daysFromNow(4),
+          guest_count: 2
+        })
+        .expect(201);
+
+      const preview = await request(app)
+        .get(`/api/bookings/${created.body.booking_id}/cancellation-preview`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      const subtotal = parseFloat(created.body.total_price) - parseFloat(created.body.service_fee);
+      expect(preview.body.refund_percentage).toBe(50);
+      expect(preview.body.refund_service_fee).toBe(0);
+      expect(preview.body.refund_amount).toBeCloseTo(subtotal / 2);
+
+      await request(app)
+        .patch(`/api/bookings/${created.body.booking_id}`)
+        .set('Authorization', authTokenGuest)
+        .send({ status: 'cancelled' })
+        .expect(200);
+    });
+
+    test('should state cancellation amounts in the currency the booking was made in', async () => {
+      const propertyId = testProperties.property1.property_id;
+      const created = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({ property_id: propertyId, check_in: daysFromNow(50), check_out: daysFromNow(52), guest_count: 2 })
+        .expect(201);
+
+      await request(app)
+        .patch(`/api/properties/${propertyId}`)
+        .set('Authorization', authTokenHost)
+        .send({ currency: 'USD' })
+        .expect(200);
+
+      const preview = await request(app)
+        .get(`/api/bookings/${created.body.booking_id}/cancellation-preview`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      expect(preview.body.currency).toBe('LYD');
+
+      await request(app)
+        .patch(`/api/bookings/${created.body.booking_id}`)
+        .set('Authorization', authTokenGuest)
+        .send({ status: 'cancelled' })
+        .expect(200);
+
+      const stored = await pool.query('SELECT currency FROM booking_cancellations WHERE booking_id = $1', [created.body.booking_id]);
+      expect(stored.rows[0].currency).toBe('LYD');
+
+      await pool.query('UPDATE properties SET currency = $1 WHERE property_id = $2', ['LYD', propertyId]);
+    });
+
+    test('should not preview cancellation of a finished booking', async () => {
+      const response = await request(app)
+        .get(`/api/bookings/${testBookings.booking1.booking_id}/cancellation-preview`)
+        .set('Authorization', authTokenGuest)
+        .expect(409);
+
+      expect(response.body.error_code).toBe('INVALID_STATUS_TRANSITION');
+    });
+
+    test('should not access another user booking', async () => {
+      await request(app)
+        .get(`/api/bookings/${testBookings.booking1.booking_id}`)
+        .set('Authorization', await authHeader({ user_id: 'user_004', role: 'guest' })) // Neither the guest nor the host
+        .expect(403);
+    });
+  });
+
+  // Calendar Sync Tests
+  describe('Calendar Sync', () => {
+    test('should export bookings and blocked nights through a secret URL', async () => {
+      await request(app)
+        .put(`/api/properties/${testProperties.property2.property_id}/availability`)
+        .set('Authorization', authTokenHost)
+        .send({ start_date: daysFromNow(40), end_date: daysFromNow(41), is_available: false })
+        .expect(200);
+
+      const exported = await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/ical/export`)
+        .set('Authorization', authTokenHost)
+        .expect(200);
+
+      const feedPath = new URL(exported.body.export_url).pathname;
+      const feed = await request(app).get(feedPath).expect(200);
+
+      expect(feed.headers['content-type']).toMatch(/^text\/calendar/);
+      expect(feed.text).toContain(`DTSTART;VALUE=DATE:${daysFromNow(40).replace(/-/g, '')}`);
+      expect(feed.text).toContain(`DTEND;VALUE=DATE:${daysFromNow(42).replace(/-/g, '')}`);
+
+      await request(app)
+        .post(`/api/properties/${testProperties.property2.property_id}/ical/export/rotate`)
+        .set('Authorization', authTokenHost)
+        .expect(200);
+      await request(app).get(feedPath).expect(404);
+
+      await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/ical/export`)
+        .set('Authorization', authTokenGuest)
+        .expect(403);
+    });
+
+    test('should block nights from a linked calendar and report conflicts', async () => {
+      const source_url = 'https://channel.example/calendars/prop_002.ics';
+      const pending = await request(app)
+        .post('/api/bookings')
+        .set('Authorization', authTokenGuest)
+        .send({ property_id: testProperties.property2.property_id, check_in: daysFromNow(60), check_out: daysFromNow(62), guest_count: 1 })
+        .expect(201);
+
+      publishCalendar(source_url, icsCalendar([
+        ['stay-1', daysFromNow(50), daysFromNow(53)],
+        ['stay-2', daysFromNow(61), daysFromNow(63)]
+      ]));
+
+      const created = await request(app)
+        .post(`/api/properties/${testProperties.property2.property_id}/ical/imports`)
+        .set('Authorization', authTokenHost)
+        .send({ name: 'Booking.com', source_url })
+        .expect(201);
+
+      expect(created.body.blocked_dates).toEqual([daysFromNow(50), daysFromNow(51), daysFromNow(52), daysFromNow(61), daysFromNow(62)]);
+      expect(created.body.conflicts).toHaveLength(1);
+      expect(created.body.conflicts[0]).toMatchObject({ event_uid: 'stay-2', booking_id: pending.body.booking_id, booking_status: 'pending' });
+
+      // The channel cancels the first stay
+      publishCalendar(source_url, icsCalendar([['stay-2', daysFromNow(61), daysFromNow(63)]]));
+
+      const synced = await request(app)
+        .post(`/api/properties/${testProperties.property2.property_id}/ical/imports/${created.body.import.import_id}/sync`)
+        .set('Authorization', authTokenHost)
+        .expect(200);
+
+      expect(synced.body.released_dates).toEqual([daysFromNow(50), daysFromNow(51), daysFromNow(52)]);
+
+      await request(app)
+        .delete(`/api/properties/${testProperties.property2.property_id}/ical/imports/${created.body.import.import_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(204);
+
+      const calendar = await request(app)
+        .get(`/api/properties/${testProperties.property2.property_id}/calendar`)
+        .query({ start_date: daysFromNow(61), end_date: daysFromNow(62) })
+        .set('Authorization', authTokenHost)
+        .expect(200);
+
+      expect(calendar.body.days.map(day => day.status)).toEqual(['available', 'available']);
+    });
+
+    test('should not read calendars from outside the fetch directory', async () => {
+      const response = await request(app)
+        .post(`/api/properties/${testProperties.property2.property_id}/ical/imports`)
+        .set('Authorization', authTokenHost)
+        .send({ name: 'Escape', source_url: 'https://../ical/escape.ics' })
+        .expect(400);
+
+      expect(response.body.error_code).toBe('INVALID_ICAL_URL');
+    });
+
+    test('should import an uploaded calendar file', async () => {
+      const response = await request(app)
+        .post(`/api/properties/${testProperties.property2.property_id}/ical/imports`)
+        .set('Authorization', authTokenHost)
+        .field('name', 'Facebook group bookings')
+        .attach('calendar', Buffer.from(icsCalendar([['fb-1', daysFromNow(70), daysFromNow(72)]])), { filename: 'bookings.ics', contentType: 'text/calendar' })
+        .expect(201);
+
+      expect(response.body.import.source_url).toBeNull();
+      expect(response.body.blocked_dates).toEqual([daysFromNow(70), daysFromNow(71)]);
+
+      const invalid = await request(app)
+        .post(`/api/properties/${testProperties.property2.property_id}/ical/imports`)
+        .set('Authorization', authTokenHost)
+        .field('name', 'Broken')
+        .attach('calendar', Buffer.from('not a calendar'), { filename: 'broken.ics', contentType: 'text/calendar' })
+        .expect(400);
+
+      expect(invalid.body.error_code).toBe('INVALID_ICAL');
+    });
+  });
+
+  // Background Job Tests
+  describe('Background Jobs', () => {
+    test('should complete finished stays and expire stale requests', async () => {
+      await request(app)
+        .post('/api/admin/jobs/run')
+        .set('Authorization', authTokenAdmin)
+        .expect(200);
+
+      const completed = await pool.query('SELECT status FROM bookings WHERE booking_id = $1', [testBookings.booking1.booking_id]);
+      expect(completed.rows[0].status).toBe('completed');
+
+      const expired = await pool.query('SELECT status FROM bookings WHERE booking_id = $1', ['book_002']);
+      expect(expired.rows[0].status).toBe('expired');
+
+      const history = await request(app)
+        .get(`/api/bookings/${testBookings.booking1.booking_id}/history`)
+        .set('Authorization', authTokenGuest)
+        .expect(200);
+
+      expect(history.body[history.body.length - 1]).toMatchObject({ to_status: 'completed', actor_role: 'system' });
+    });
+
+    test('should not queue the same job twice', async () => {
+      await request(app)
+        .post('/api/admin/jobs/run')
+        .set('Authorization', authTokenAdmin)
+        .expect(200);
+
+      const response = await request(app)
+        .get('/api/admin/jobs')
+        .query({ job_type: 'complete_booking' })
+        .set('Authorization', authTokenAdmin)
+        .expect(200);
+
+      const forBooking = response.body.filter(job => job.dedupe_key === `complete_booking:${testBookings.booking1.booking_id}`);
+      expect(forBooking).toHaveLength(1);
+      expect(forBooking[0].status).toBe('completed');
+    });
+
+    test('should restrict job inspection to admins', async () => {
+      await request(app)
+        .get('/api/admin/jobs')
+        .set('Authorization', authTokenHost)
+        .expect(403);
+    });
+
+    test('should queue a photo rendition backfill', async () => {
+      const response = await request(app)
+        .post('/api/admin/photos/backfill-renditions')
+        .set('Authorization', authTokenAdmin)
+        .expect(202);
+
+      expect(response.body).toMatchObject({ job_type: 'backfill_photo_renditions', status: 'pending' });
+    });
+
+    test('should not fetch photos from private addresses', async () => {
+      const photo = await request(app)
+        .post(`/api/properties/${testProperties.property1.property_id}/photos`)
+        .set('Authorization', authTokenHost)
+        .send({ photo_url: 'http://169.254.169.254/latest/meta-data/photo.jpg', display_order: 8 })
+        .expect(201);
+
+      // Ahead of everything else queued so this pass picks it up
+      await pool.query(
+        'UPDATE jobs SET run_at = $1 WHERE dedupe_key LIKE $2',
+        ['2000-01-01T00:00:00Z', `generate_photo_renditions:${photo.body.photo_id}:%`]
+      );
+
+      await request(app)
+        .post('/api/admin/jobs/run')
+        .set('Authorization', authTokenAdmin)
+        .expect(200);
+
+      const job = await pool.query('SELECT last_error FROM jobs WHERE dedupe_key LIKE $1', [`generate_photo_renditions:${photo.body.photo_id}:%`]);
+      expect(job.rows[0].last_error).toMatch(/private address/);
+
+      await request(app)
+        .delete(`/api/properties/${testProperties.property1.property_id}/photos/${photo.body.photo_id}`)
+        .set('Authorization', authTokenHost)
+        .expect(204);
+    });
+  });
+
+  // Review Management Tests
+  describe('Review Management', () => {
+    const completedStay = async (booking_id: string, checkOutDaysAgo: number) => {
+      const day = (daysAgo: number) => new Date(Date.now() - daysAgo * 86400000).toISOString().slice(0, 10);
+      await pool.query(
+        `INSERT INTO bookings (booking_id, property_id, guest_id, host_id, check_in, check_out, guest_count, total_price, service_fee, special_requests, status, created_at, updated_at)
+         VALUES ($1, 'prop_001', 'user_002', 'user_001', $2, $3, 2, 450, 45, NULL, 'completed', $4, $4)`,
+        [booking_id, day(checkOutDaysAgo + 3), day(checkOutDaysAgo), new Date().toISOString()]
+      );
+    };
+
+    test('should create review for booking', async () => {
+      // booking1 ended long before the review window
+      await completedStay('book_recent', 1);
+
+      const newReview = {
+        booking_id: 'book_recent',
+        property_id: testBookings.booking1.property_id,
+        reviewer_id: testUsers.guest.user_id,
+        host_id: testUsers.host.user_id,
+        cleanliness_rating: 5,
+        accuracy_rating: 5,
+        communication_rating: 5,
+        location_rating: 4,
+        check_in_rating: 5,
+        value_rating: 5,
+        overall_rating: 5,
+        comment: 'Amazing stay! Highly recommended.'
+      };
+
+      const response = await request(app)
+        .post(`/api/bookings/book_recent/reviews`)
+        .set('Authorization', authTokenGuest)
+        .send(newReview)
+        .expect(201);
+
+      expect(response.body.booking_id).toBe(newReview.booking_id);
+      expect(response.body.overall_rating).toBe(newReview.overall_rating);
+      expect(response.body.comment).toBe(newReview.comment);
+    });
+
+    test('should attach, caption and remove a photo on own review', async () => {
+      const uploaded = await request(app)
+        .post('/api/reviews/rev_001/photos/upload')
+        .set('Authorization', authTokenGuest)
+        .field('caption', 'Sunset from the terrace')
+        .attach('photo', await jpegWithGps(), { filename: 'terrace.jpg', contentType: 'image/jpeg' })
+        .expect(201);
+
+      expect(uploaded.body.review_id).toBe('rev_001');
+      expect(typeof uploaded.body.blurhash).toBe('string');
+
+      const reviews = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/reviews`)
+        .expect(200);
+
+      const review = reviews.body.find(r => r.review_id === 'rev_001');
+      expect(review.photos.map(photo => photo.photo_id)).toContain(uploaded.body.photo_id);
+
+      const updated = await request(app)
+        .patch(`/api/reviews/rev_001/photos/${uploaded.body.photo_id}`)
+        .set('Authorization', authTokenGuest)
+        .send({ caption: 'Terrace at sunset' })
+        .expect(200);
+
+      expect(updated.body.caption).toBe('Terrace at sunset');
+
+      await request(app)
+        .delete(`/api/reviews/rev_001/photos/${uploaded.body.photo_id}`)
+        .set('Authorization', authTokenGuest)
+        .expect(204);
+
+      await request(app).get(new URL(uploaded.body.card_url).pathname).expect(404);
+    });
+
+    test('should not let others attach photos to a review', async () => {
+      await request(app)
+        .post('/api/reviews/rev_001/photos')
+        .set('Authorization', authTokenHost)
+        .send({ photo_url: 'https://example.com/photo.jpg' })
+        .expect(403);
+    });
+
+    test('should limit the number of photos per review', async () => {
+      const existing = await request(app).get('/api/reviews/rev_001/photos').expect(200);
+
+      for (let i = existing.body.length; i < 6; i++) {
+        await request(app)
+          .post('/api/reviews/rev_001/photos')
+          .set('Authorization', authTokenGuest)
+          .send({ photo_url: `https://example.com/photo-${i}.jpg` })
+          .expect(201);
+      }
+
+      const response = await request(app)
+        .post('/api/reviews/rev_001/photos')
+        .set('Authorization', authTokenGuest)
+        .send({ photo_url: 'https://example.com/one-too-many.jpg' })
+        .expect(409);
+
+      expect(response.body.error_code).toBe('REVIEW_PHOTO_LIMIT_REACHED');
+    });
+
+    test('should let the host respond once and show the response with the review', async () => {
+      await pool.query('DELETE FROM review_responses WHERE review_id = $1', ['rev_001']);
+
+      const created = await request(app)
+        .post('/api/reviews/rev_001/response')
+        .set('Authorization', authTokenHost)
+        .send({ response: 'Thank you for staying with us!' })
+        .expect(201);
+
+      expect(created.body).toMatchObject({ review_id: 'rev_001', host_id: testUsers.host.user_id });
+
+      const duplicate = await request(app)
+        .post('/api/reviews/rev_001/response')
+        .set('Authorization', authTokenHost)
+        .send({ response: 'Thanks again!' })
+        .expect(409);
 
-      expect(response.body.bio).toBe(updateData.bio);
-    });
+      expect(duplicate.body.error_code).toBe('REVIEW_RESPONSE_EXISTS');
 
-    test('should get user listings', async () => {
-      const response = await request(app)
-        .get(`/api/users/${testUsers.host.user_id}/listings`)
+      const updated = await request(app)
+        .patch('/api/reviews/rev_001/response')
+        .set('Authorization', authTokenHost)
+        .send({ response: 'Thank you for staying with us, come back soon!' })
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
-      expect(response.body.length).toBeGreaterThan(0);
-    });
-
-    test('should get user bookings', async () => {
-      const response = await request(app)
-        .get(`/api/users/${testUsers.guest.user_id}/bookings`)
-        .set('Authorization', authTokenGuest)
+      const reviews = await request(app)
+        .get(`/api/properties/${testProperties.property1.property_id}/reviews`)
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
-    });
+      const review = reviews.body.find(r => r.review_id === 'rev_001');
+      expect(review.host_response.response).toBe(updated.body.response);
 
-    test('should get user reviews', async () => {
-      const response = await request(app)
-        .get(`/api/users/${testUsers.host.user_id}/reviews`)
-        .expect(200);
+      const notifications = await pool.query(
+        'SELECT type FROM notifications WHERE user_id = $1 AND related_entity_id = $2',
+        [testUsers.guest.user_id, 'rev_001']
+      );
+      expect(notifications.rows.map(n => n.type)).toContain('review_response');
 
-      expect(Array.isArray(response.body)).toBe(true);
+      const host = await request(app).get(`/api/users/${testUsers.host.user_id}`).expect(200);
+      expect(host.body.host_stats.response_count).toBeGreaterThanOrEqual(1);
+      expect(host.body.host_stats.response_rate).toBeGreaterThan(0);
     });
 
-    test('should not update another user profile', async () => {
-      const updateData = {
-        user_id: testUsers.guest.user_id,
-        bio: 'Trying to hack another user'
-      };
-
+    test('should only let the host of the stay respond to a review', async () => {
       await request(app)
-        .patch(`/api/users/${testUsers.guest.user_id}`)
-        .set('Authorization', authTokenHost) // Using host token to update guest
-        .send(updateData)
+        .patch('/api/reviews/rev_001/response')
+        .set('Authorization', authTokenGuest)
+        .send({ response: 'Replying to myself' })
         .expect(403);
     });
-  });
 
-  // Property Management Tests
-  describe('Property Management', () => {
-    test('should search properties', async () => {
+    test('should close response edits after the edit window', async () => {
+      await pool.query(
+        'UPDATE review_responses SET created_at = $1 WHERE review_id = $2',
+        ['2023-06-07T09:00:00Z', 'rev_001']
+      );
+
       const response = await request(app)
-        .get('/api/properties')
-        .query({ city: 'Tripoli' })
-        .expect(200);
+        .patch('/api/reviews/rev_001/response')
+        .set('Authorization', authTokenHost)
+        .send({ response: 'A much later edit' })
+        .expect(409);
 
-      expect(response.body).toHaveProperty('properties');
-      expect(response.body).toHaveProperty('total_count');
-      expect(Array.isArray(response.body.properties)).toBe(true);
+      expect(response.body.error_code).toBe('REVIEW_RESPONSE_EDIT_WINDOW_CLOSED');
     });
 
-    test('should create property listing', async () => {
-      const newProperty = {
-        host_id: testUsers.host.user_id,
-        title: 'Test Property',
-        description: 'Beautiful test property',
-        city: 'Tripoli',
-        property_type: 'apartment',
-        guest_capacity: 4,
-        bedrooms: 2,
-        beds: 3,
-        bathrooms: 2,
-        base_price_per_night: 100,
-        cancellation_policy: 'moderate'
-      };
+    const stayReview = {
+      cleanliness_rating: 4,
+      accuracy_rating: 4,
+      communication_rating: 5,
+      location_rating: 5,
+      check_in_rating: 4,
+      value_rating: 4,
+      overall_rating: 4,
+      comment: 'Lovely place'
+    };
+
+    test('should hide both reviews of a stay until host and guest have reviewed', async () => {
+      await completedStay('book_blind', 2);
+
+      const review = await request(app)
+        .post('/api/bookings/book_blind/reviews')
+        .set('Authorization', authTokenGuest)
+        .send(stayReview)
+        .expect(201);
 
-      const response = await request(app)
-        .post('/api/properties')
+      expect(review.body.published_at).toBeNull();
+
+      let listed = await request(app).get('/api/reviews').query({ property_id: 'prop_001' }).expect(200);
+      expect(listed.body.reviews.map(r => r.review_id)).not.toContain(review.body.review_id);
+
+      const guestReview = await request(app)
+        .post('/api/bookings/book_blind/guest-reviews')
         .set('Authorization', authTokenHost)
-        .send(newProperty)
+        .send({ house_rules_rating: 5, cleanliness_rating: 4, communication_rating: 5, overall_rating: 5, comment: 'Great guest' })
         .expect(201);
 
-      expect(response.body.title).toBe(newProperty.title);
-      expect(response.body.host_id).toBe(newProperty.host_id);
-    });
+      expect(guestReview.body.published_at).not.toBeNull();
 
-    test('should get property details', async () => {
-      const response = await request(app)
-        .get(`/api/properties/${testProperties.property1.property_id}`)
-        .expect(200);
+      listed = await request(app).get('/api/reviews').query({ property_id: 'prop_001' }).expect(200);
+      expect(listed.body.reviews.map(r => r.review_id)).toContain(review.body.review_id);
 
-      expect(response.body.property_id).toBe(testProperties.property1.property_id);
-      expect(response.body.title).toBe(testProperties.property1.title);
+      const property = await request(app).get('/api/properties/prop_001').expect(200);
+      expect(property.body.rating_summary.review_count).toBeGreaterThanOrEqual(2);
+
+      const guest = await request(app).get(`/api/users/${testUsers.guest.user_id}`).expect(200);
+      expect(guest.body.guest_reputation.review_count).toBeGreaterThanOrEqual(1);
+      expect(guest.body.guest_reputation.house_rules_rating).toBe(5);
     });
 
-    test('should update property listing', async () => {
-      const updateData = {
-        property_id: testProperties.property1.property_id,
-        title: 'Updated Luxury Apartment'
-      };
+    test('should publish a lone review once the review window closes', async () => {
+      await completedStay('book_lone', 3);
 
-      const response = await request(app)
-        .patch(`/api/properties/${testProperties.property1.property_id}`)
+      const guestReview = await request(app)
+        .post('/api/bookings/book_lone/guest-reviews')
         .set('Authorization', authTokenHost)
-        .send(updateData)
+        .send({ house_rules_rating: 3, cleanliness_rating: 3, communication_rating: 4, overall_rating: 3 })
+        .expect(201);
+
+      expect(guestReview.body.published_at).toBeNull();
+
+      await pool.query(`UPDATE bookings SET check_out = '2023-01-01' WHERE booking_id = $1`, ['book_lone']);
+      await request(app)
+        .post('/api/admin/jobs/run')
+        .set('Authorization', authTokenAdmin)
         .expect(200);
 
-      expect(response.body.title).toBe(updateData.title);
+      const published = await request(app).get(`/api/users/${testUsers.guest.user_id}/guest-reviews`).expect(200);
+      expect(published.body.map(r => r.guest_review_id)).toContain(guestReview.body.guest_review_id);
+
+      const late = await request(app)
+        .post('/api/bookings/book_lone/reviews')
+        .set('Authorization', authTokenGuest)
+        .send(stayReview)
+        .expect(400);
+
+      expect(late.body.error_code).toBe('REVIEW_WINDOW_CLOSED');
     });
 
-    test('should not update another host property', async () => {
-      const updateData = {
-        property_id: testProperties.property1.property_id,
-        title: 'Hacker Attempt'
-      };
+    test('should only let the host review the guest', async () => {
+      await completedStay('book_guest_only', 1);
 
       await request(app)
-        .patch(`/api/properties/${testProperties.property1.property_id}`)
-        .set('Authorization', authTokenGuest) // Guest trying to update host property
-        .send(updateData)
+        .post('/api/bookings/book_guest_only/guest-reviews')
+        .set('Authorization', authTokenGuest)
+        .send({ house_rules_rating: 5, cleanliness_rating: 5, communication_rating: 5, overall_rating: 5 })
         .expect(403);
     });
+  });
 
-    test('should get property photos', async () => {
-      const response = await request(app)
-        .get(`/api/properties/${testProperties.property1.property_id}/photos`)
+  // Admin Moderation Tests
+  describe('Admin Moderation', () => {
+    test('should keep a suspended listing inactive until an admin approves it', async () => {
+      const suspended = await request(app)
+        .post(`/api/admin/properties/${testProperties.property2.property_id}/suspend`)
+        .set('Authorization', authTokenAdmin)
+        .send({ details: 'Photos do not match the listing' })
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
-    });
-
-    test('should add property photo', async () => {
-      const newPhoto = {
-        property_id: testProperties.property1.property_id,
-        photo_url: 'https://example.com/test-photo.jpg',
-        display_order: 10
-      };
+      expect(suspended.body.property.is_active).toBe(false);
+      expect(suspended.body.action).toMatchObject({ action_type: 'property_suspended', admin_id: testUsers.admin.user_id });
 
-      const response = await request(app)
-        .post(`/api/properties/${testProperties.property1.property_id}/photos`)
+      const reactivate = await request(app)
+        .patch(`/api/properties/${testProperties.property2.property_id}`)
         .set('Authorization', authTokenHost)
-        .send(newPhoto)
-        .expect(201);
+        .send({ is_active: true })
+        .expect(403);
 
-      expect(response.body.photo_url).toBe(newPhoto.photo_url);
-      expect(response.body.display_order).toBe(newPhoto.display_order);
-    });
+      expect(reactivate.body.error_code).toBe('LISTING_SUSPENDED');
 
-    test('should get property availability', async () => {
-      const response = await request(app)
-        .get(`/api/properties/${testProperties.property1.property_id}/availability`)
-        .query({ start_date: '2023-06-01', end_date: '2023-06-05' })
+      const approved = await request(app)
+        .post(`/api/admin/properties/${testProperties.property2.property_id}/approve`)
+        .set('Authorization', authTokenAdmin)
+        .send({})
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
+      expect(approved.body.property.is_active).toBe(true);
+
+      const notifications = await pool.query(
+        'SELECT type FROM notifications WHERE user_id = $1 AND related_entity_id = $2',
+        [testUsers.host.user_id, testProperties.property2.property_id]
+      );
+      expect(notifications.rows.map(n => n.type)).toEqual(expect.arrayContaining(['listing_suspended', 'listing_approved']));
     });
 
-    test('should set property availability', async () => {
-      const availability = {
-        property_id: testProperties.property1.property_id,
-        date: '2023-07-01',
-        is_available: true
-      };
+    test('should reject a verification document and clear it', async () => {
+      await pool.query(
+        'UPDATE users SET is_verified = false, verification_document_url = $1 WHERE user_id = $2',
+        ['https://example.com/id-card.jpg', 'user_004']
+      );
 
-      const response = await request(app)
-        .post(`/api/properties/${testProperties.property1.property_id}/availability`)
-        .set('Authorization', authTokenHost)
-        .send(availability)
-        .expect(201);
+      const pending = await request(app)
+        .get('/api/admin/verifications')
+        .set('Authorization', authTokenAdmin)
+        .expect(200);
 
-      expect(response.body.date).toBe(availability.date);
-      expect(response.body.is_available).toBe(availability.is_available);
-    });
+      expect(pending.body.map(u => u.user_id)).toContain('user_004');
 
-    test('should get property reviews', async () => {
       const response = await request(app)
-        .get(`/api/properties/${testProperties.property1.property_id}/reviews`)
+        .post('/api/admin/users/user_004/verification')
+        .set('Authorization', authTokenAdmin)
+        .send({ approved: false, details: 'Document is unreadable' })
         .expect(200);
 
-      expect(Array.isArray(response.body)).toBe(true);
+      expect(response.body.user.is_verified).toBe(false);
+      expect(response.body.user.verification_document_url).toBeNull();
+      expect(response.body.action.action_type).toBe('user_verification_rejected');
     });
-  });
 
-  // Booking Management Tests
-  describe('Booking Management', () => {
-    test('should search bookings', async () => {
-      const response = await request(app)
-        .get('/api/bookings')
+    test('should remove a review and log the action', async () => {
+      await request(app)
+        .delete('/api/admin/reviews/rev_001')
         .set('Authorization', authTokenAdmin)
-        .query({ guest_id: testUsers.guest.user_id })
+        .send({ details: 'Contains personal information' })
         .expect(200);
 
-      expect(response.body).toHaveProperty('bookings');
-      expect(response.body).toHaveProperty('total_count');
-    });
-
-    test('should create booking', async () => {
-      const newBooking = {
-        property_id: testProperties.property1.property_id,
-        guest_id: testUsers.guest.user_id,
-        host_id: testUsers.host.user_id,
-        check_in: '2023-07-01',
-        check_out: '2023-07-05',
-        guest_count: 2,
-        total_price: 500,
-        service_fee: 50,
-        status: 'pending'
-      };
+      const remaining = await pool.query('SELECT 1 FROM reviews WHERE review_id = $1', ['rev_001']);
+      expect(remaining.rows).toHaveLength(0);
 
-      const response = await request(app)
-        .post('/api/bookings')
-        .set('Authorization', authTokenGuest)
-        .send(newBooking)
-        .expect(201);
+      const audit = await request(app)
+        .get('/api/admin/actions')
+        .query({ target_entity_type: 'review', target_entity_id: 'rev_001' })
+        .set('Authorization', authTokenAdmin)
+        .expect(200);
 
-      expect(response.body.property_id).toBe(newBooking.property_id);
-      expect(response.body.guest_id).toBe(newBooking.guest_id);
-      expect(response.body.status).toBe(newBooking.status);
+      expect(audit.body.total_count).toBe(1);
+      expect(audit.body.actions[0]).toMatchObject({ action_type: 'review_removed', details: 'Contains personal information' });
     });
 
-    test('should get booking details', async () => {
+    test('should let admins set exchange rates and log the change', async () => {
       const response = await request(app)
-        .get(`/api/bookings/${testBookings.booking1.booking_id}`)
-        .set('Authorization', authTokenHost)
+        .put('/api/admin/exchange-rates/usd/parallel')
+        .set('Authorization', authTokenAdmin)
+        .send({ lyd_per_unit: 7.25 })
         .expect(200);
 
-      expect(response.body.booking_id).toBe(testBookings.booking1.booking_id);
-    });
-
-    test('should update booking status', async () => {
-      const updateData = {
-        booking_id: testBookings.booking1.booking_id,
-        status: 'completed'
-      };
+      expect(response.body.exchange_rate).toMatchObject({ currency: 'USD', rate_type: 'parallel', updated_by: testUsers.admin.user_id });
+      expect(response.body.action).toMatchObject({ action_type: 'exchange_rate_updated', target_entity_id: 'USD:parallel' });
 
-      const response = await request(app)
-        .patch(`/api/bookings/${testBookings.booking1.booking_id}`)
-        .set('Authorization', authTokenHost)
-        .send(updateData)
+      const rates = await request(app)
+        .get('/api/exchange-rates')
+        .query({ rate_type: 'parallel' })
         .expect(200);
 
-      expect(response.body.status).toBe(updateData.status);
-    });
+      expect(parseFloat(rates.body.find(rate => rate.currency === 'USD').lyd_per_unit)).toBe(7.25);
 
-    test('should not access another user booking', async () => {
       await request(app)
-        .get(`/api/bookings/${testBookings.booking1.booking_id}`)
-        .set('Authorization', authTokenAdmin) // Admin trying to access host/guest booking
+        .put('/api/admin/exchange-rates/USD/official')
+        .set('Authorization', authTokenGuest)
+        .send({ lyd_per_unit: 1 })
         .expect(403);
     });
-  });
 
-  // Review Management Tests
-  describe('Review Management', () => {
-    test('should create review for booking', async () => {
-      const newReview = {
-        booking_id: testBookings.booking1.booking_id,
-        property_id: testBookings.booking1.property_id,
-        reviewer_id: testUsers.guest.user_id,
-        host_id: testUsers.host.user_id,
-        cleanliness_rating: 5,
-        accuracy_rating: 5,
-        communication_rating: 5,
-        location_rating: 4,
-        check_in_rating: 5,
-        value_rating: 5,
-        overall_rating: 5,
-        comment: 'Amazing stay! Highly recommended.'
-      };
+    test('should restrict moderation to admins', async () => {
+      await request(app)
+        .post(`/api/admin/properties/${testProperties.property1.property_id}/suspend`)
+        .set('Authorization', authTokenHost)
+        .send({})
+        .expect(403);
 
-      const response = await request(app)
-        .post(`/api/bookings/${testBookings.booking1.booking_id}/reviews`)
+      await request(app)
+        .get('/api/admin/actions')
         .set('Authorization', authTokenGuest)
-        .send(newReview)
-        .expect(201);
-
-      expect(response.body.booking_id).toBe(newReview.booking_id);
-      expect(response.body.overall_rating).toBe(newReview.overall_rating);
-      expect(response.body.comment).toBe(newReview.comment);
+        .expect(403);
     });
   });
 
@@ -504,6 +2337,28 @@ describe('LibyaStay API Tests', () => {
       expect(Array.isArray(response.body)).toBe(true);
     });
 
+    test('should report notification totals and cursors in headers', async () => {
+      const first = await request(app)
+        .get('/api/notifications')
+        .set('Authorization', authTokenHost)
+        .query({ limit: 1 })
+        .expect(200);
+
+      const total = parseInt(first.headers['x-total-count']);
+      expect(total).toBeGreaterThanOrEqual(first.body.length);
+      if (total > 1) {
+        const second = await request(app)
+          .get('/api/notifications')
+          .set('Authorization', authTokenHost)
+          .query({ limit: 1, cursor: first.headers['x-next-cursor'] })
+          .expect(200);
+
+        expect(second.body[0].notification_id).not.toBe(first.body[0].notification_id);
+      } else {
+        expect(first.headers['x-next-cursor']).toBeUndefined();
+      }
+    });
+
     test('should update notification (mark as read)', async () => {
       // First, get a notification to update
       const notificationsRes = await request(app)
@@ -570,7 +2425,7 @@ describe('LibyaStay API Tests', () => {
       const duplicateUser = {
         email: testUsers.host.email, // Duplicate email
         phone_number: '+218910000101',
-        password_hash: 'password123',
+        password: 'password123',
         name: 'Duplicate User',
         role: 'guest'
       };
@@ -593,11 +2448,14 @@ describe('LibyaStay API Tests', () => {
         service_fee: 50
       };
 
-      await request(app)
+      // The property is looked up before the insert could hit the foreign key
+      const response = await request(app)
         .post('/api/bookings')
         .set('Authorization', authTokenGuest)
         .send(invalidBooking)
-        .expect(400); // Should fail due to foreign key constraint
+        .expect(404);
+
+      expect(response.body.error_code).toBe('PROPERTY_NOT_FOUND');
     });
   });
 
@@ -624,14 +2482,12 @@ describe('LibyaStay API Tests', () => {
 
     test('should simulate booking:request event', async () => {
       const newBooking = {
-        property_id: testProperties.property1.property_id,
+        property_id: testProperties.property2.property_id,
         guest_id: testUsers.guest.user_id,
         host_id: testUsers.host.user_id,
         check_in: '2023-08-01',
         check_out: '2023-08-05',
         guest_count: 2,
-        total_price: 500,
-        service_fee: 50,
         status: 'pending'
       };
 
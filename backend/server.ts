@@ -3,14 +3,23 @@ import cors from 'cors';
 import * as dotenv from 'dotenv';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import { fileURLToPath } from 'url';
 import jwt from 'jsonwebtoken';
-import { createServer } from 'http';
+import bcrypt from 'bcryptjs';
+import { createServer, request as httpRequest } from 'http';
+import type { IncomingMessage } from 'http';
+import { request as httpsRequest } from 'https';
+import dns from 'dns';
+import net from 'net';
 import { Server } from 'socket.io';
 import morgan from 'morgan';
 import multer from 'multer';
+import sharp from 'sharp';
+import { encode as encodeBlurhash } from 'blurhash';
 import { nanoid } from 'nanoid';
 import pkg from 'pg';
+import type { Pool as PgPool, PoolClient } from 'pg';
 const { Pool } = pkg;
 
 // Type definitions
@@ -18,6 +27,7 @@ interface JwtPayload {
   user_id: string;
   userId?: string;
   role: string;
+  session_id?: string;
   iat?: number;
   exp?: number;
 }
@@ -37,10 +47,24 @@ interface NotificationData {
   message?: string;
 }
 
+// File saved by multer's disk storage, or held in buffer by its memory storage
+interface UploadedFile {
+  fieldname: string;
+  originalname: string;
+  mimetype: string;
+  size: number;
+  destination: string;
+  filename: string;
+  path: string;
+  buffer?: Buffer;
+}
+
 declare global {
   namespace Express {
     interface Request {
       user?: User;
+      session_id?: string | null;
+      file?: UploadedFile;
     }
   }
 }
@@ -53,16 +77,28 @@ declare module 'socket.io' {
 
 // Import Zod schemas
 import {
-  userSchema, createUserInputSchema, updateUserInputSchema, searchUserInputSchema,
+  userSchema, createUserInputSchema, updateUserInputSchema, searchUserInputSchema, changePasswordInputSchema,
+  sessionSchema, refreshTokenInputSchema, sendPhoneCodeInputSchema, verifyPhoneCodeInputSchema,
   propertySchema, createPropertyInputSchema, updatePropertyInputSchema, searchPropertyInputSchema,
+  amenitySchema,
+  exchangeRateSchema, updateExchangeRateInputSchema,
   propertyPhotoSchema, createPropertyPhotoInputSchema, updatePropertyPhotoInputSchema, searchPropertyPhotoInputSchema,
   propertyAvailabilitySchema, createPropertyAvailabilityInputSchema, updatePropertyAvailabilityInputSchema, searchPropertyAvailabilityInputSchema,
-  bookingSchema, createBookingInputSchema, updateBookingInputSchema, searchBookingInputSchema,
+  updateAvailabilityRangeInputSchema, availabilityCalendarDaySchema,
+  calendarImportSchema, createCalendarImportInputSchema,
+  pricingRuleSchema, createPricingRuleInputSchema, updatePricingRuleInputSchema,
+  stayRestrictionSchema, createStayRestrictionInputSchema, updateStayRestrictionInputSchema,
+  bookingSchema, createBookingInputSchema, updateBookingInputSchema, searchBookingInputSchema, bookingStatusHistorySchema, bookingCancellationSchema, propertyQuoteInputSchema,
   conversationSchema, createConversationInputSchema, updateConversationInputSchema, searchConversationInputSchema,
   messageSchema, createMessageInputSchema, updateMessageInputSchema, searchMessageInputSchema,
   reviewSchema, createReviewInputSchema, updateReviewInputSchema, searchReviewInputSchema,
+  guestReviewSchema, createGuestReviewInputSchema, searchGuestReviewInputSchema,
+  ratingSummarySchema,
   reviewPhotoSchema, createReviewPhotoInputSchema, updateReviewPhotoInputSchema, searchReviewPhotoInputSchema,
+  reviewResponseSchema, createReviewResponseInputSchema, updateReviewResponseInputSchema,
   adminActionSchema, createAdminActionInputSchema, updateAdminActionInputSchema, searchAdminActionInputSchema,
+  adminModerationInputSchema, adminVerificationInputSchema,
+  jobSchema, searchJobInputSchema,
   notificationSchema, createNotificationInputSchema, updateNotificationInputSchema, searchNotificationInputSchema
 } from './schema.ts';
 
@@ -131,6 +167,22 @@ function createErrorResponse(
   return response;
 }
 
+/*
+Error raised by domain helpers (pricing, availability, ...) that route handlers
+translate into a createErrorResponse payload with the given HTTP status
+*/
+class ApiError extends Error {
+  statusCode: number;
+  errorCode: string;
+
+  constructor(statusCode: number, message: string, errorCode: string) {
+    super(message);
+    this.name = 'ApiError';
+    this.statusCode = statusCode;
+    this.errorCode = errorCode;
+  }
+}
+
 // CORS configuration
 const allowedOrigins = [
   'https://123templatetest.launchpulse.ai',
@@ -164,6 +216,8 @@ app.use(cors({
     }
   },
   credentials: true,
+  // Paged endpoints that return bare arrays report their totals and cursors here
+  exposedHeaders: ['X-Total-Count', 'X-Next-Cursor'],
 }));
 app.use(express.json({ limit: "5mb" }));
 app.use(morgan('combined'));
@@ -181,284 +235,4501 @@ app.use(morgan('combined'));
 //   }
 // }));
 
-// Create storage directory if it doesn't exist
+// Create storage directories if they don't exist
+// Listing photos and avatars are public; identity documents never leave the API
 const storagePath = path.join(__dirname, 'storage');
-if (!fs.existsSync(storagePath)) {
-  fs.mkdirSync(storagePath, { recursive: true });
+const publicUploadsPath = path.join(storagePath, 'public');
+const privateUploadsPath = path.join(storagePath, 'private');
+for (const directory of [publicUploadsPath, privateUploadsPath]) {
+  if (!fs.existsSync(directory)) {
+    fs.mkdirSync(directory, { recursive: true });
+  }
 }
 
+const PUBLIC_UPLOADS_ROUTE = '/uploads/';
+const VERIFICATION_DOCUMENTS_ROUTE = '/api/files/verification-documents/';
+
+app.use(PUBLIC_UPLOADS_ROUTE, express.static(publicUploadsPath, {
+  index: false,
+  dotfiles: 'deny',
+  maxAge: '7d',
+  setHeaders: (res) => {
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+  }
+}));
+
+// File Uploads
+
+const IMAGE_TYPES = ['jpg', 'png', 'webp'];
+const DOCUMENT_TYPES = [...IMAGE_TYPES, 'pdf'];
+
 // Multer configuration for file uploads
-const storage = multer.diskStorage({
-  destination: (req, file, cb) => {
-    cb(null, storagePath);
-  },
-  filename: (req, file, cb) => {
-    const uniqueName = `${nanoid()}-${file.originalname}`;
-    cb(null, uniqueName);
+// Files are saved under a bare id and renamed once their real type is known
+const createUploader = (destination: string, allowedMimeTypes: (mimetype: string) => boolean) => multer({
+  storage: multer.diskStorage({
+    destination: (req, file, cb) => {
+      cb(null, destination);
+    },
+    filename: (req, file, cb) => {
+      cb(null, nanoid());
+    }
+  }),
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 }, // 5MB limit
+  fileFilter: (req, file, cb) => {
+    if (allowedMimeTypes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new ApiError(400, 'Unsupported file type', 'INVALID_FILE_TYPE'));
+    }
   }
 });
 
-const upload = multer({ 
-  storage,
-  limits: { fileSize: 5 * 1024 * 1024 }, // 5MB limit
+const upload = createUploader(publicUploadsPath, (mimetype) => mimetype.startsWith('image/'));
+const documentUpload = createUploader(
+  privateUploadsPath,
+  (mimetype) => mimetype.startsWith('image/') || mimetype === 'application/pdf'
+);
+
+// Calendar files are parsed from memory and never stored; their content is checked when parsed
+const calendarUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 5 * 1024 * 1024, files: 1 }, // 5MB limit
   fileFilter: (req, file, cb) => {
-    if (file.mimetype.startsWith('image/')) {
+    if (['text/calendar', 'text/plain', 'application/octet-stream'].includes(file.mimetype)) {
       cb(null, true);
     } else {
-      cb(new Error('Only image files are allowed'));
+      cb(new ApiError(400, 'Unsupported file type', 'INVALID_FILE_TYPE'));
     }
   }
 });
 
 /*
-Authentication middleware for protected routes
-Validates JWT token and attaches user information to request object
+Runs a single-file multer upload and answers multer failures in the API's
+error format instead of falling through to the default HTML handler
 */
-const authenticateToken = async (req, res, next) => {
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
-
-  if (!token) {
-    return res.status(401).json(createErrorResponse('Access token required', null, 'AUTH_TOKEN_MISSING'));
-  }
-
-  try {
-    const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    const userId = decoded.user_id || decoded.userId;
-    const result = await pool.query('SELECT user_id, email, name, role, created_at FROM users WHERE user_id = $1', [userId]);
-    
-    if (result.rows.length === 0) {
-      return res.status(401).json(createErrorResponse('Invalid token', null, 'AUTH_TOKEN_INVALID'));
+const acceptUpload = (uploader: multer.Multer, field: string) => (req, res, next) => {
+  uploader.single(field)(req, res, (error) => {
+    if (!error) {
+      return next();
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    if (error instanceof multer.MulterError) {
+      return error.code === 'LIMIT_FILE_SIZE'
+        ? res.status(413).json(createErrorResponse('File is larger than 5MB', null, 'FILE_TOO_LARGE'))
+        : res.status(400).json(createErrorResponse(error.message, null, 'INVALID_UPLOAD'));
     }
+    next(error);
+  });
+};
 
-    req.user = result.rows[0];
-    next();
-  } catch (error) {
-    return res.status(403).json(createErrorResponse('Invalid or expired token', error, 'AUTH_TOKEN_INVALID'));
+// Identifies an upload from its leading bytes; the client-sent mimetype is not trusted
+const detectFileType = (buffer: Buffer): string | null => {
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) {
+    return 'jpg';
+  }
+  if (buffer.length >= 8 && buffer.subarray(0, 8).equals(Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]))) {
+    return 'png';
+  }
+  if (buffer.length >= 12 && buffer.toString('latin1', 0, 4) === 'RIFF' && buffer.toString('latin1', 8, 12) === 'WEBP') {
+    return 'webp';
   }
+  if (buffer.toString('latin1', 0, 5) === '%PDF-') {
+    return 'pdf';
+  }
+  return null;
 };
 
 /*
-WebSocket authentication middleware
-Validates JWT token in socket handshake and attaches user information
+Re-encoders for uploaded images. sharp writes no metadata unless asked to, so EXIF
+and XMP blocks, and any location they carry, are left behind; rotate() first applies
+the EXIF orientation that would be lost with them
 */
-io.use(async (socket, next) => {
-  try {
-    const token = socket.handshake.auth.token;
-    if (!token) {
-      return next(new Error('Authentication token required'));
-    }
+const IMAGE_ENCODERS: Record<string, (image: ReturnType<typeof sharp>) => ReturnType<typeof sharp>> = {
+  jpg: (image) => image.rotate().jpeg({ quality: 90 }),
+  png: (image) => image.rotate().png(),
+  webp: (image) => image.rotate().webp({ quality: 90 })
+};
 
-    const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
-    const userId = decoded.user_id || decoded.userId;
-    const result = await pool.query('SELECT user_id, email, name, role FROM users WHERE user_id = $1', [userId]);
-    
-    if (result.rows.length === 0) {
-      return next(new Error('Invalid token'));
-    }
+/*
+Checks an uploaded file against the allowed types, re-encodes images without their
+metadata and gives the file its real extension. Returns the stored file name
+*/
+async function processUpload(file: UploadedFile, allowedTypes: string[]): Promise<string> {
+  const buffer = await fs.promises.readFile(file.path);
+  const type = detectFileType(buffer);
+  if (!type || !allowedTypes.includes(type)) {
+    throw new ApiError(400, 'Unsupported file type', 'INVALID_FILE_TYPE');
+  }
 
-    socket.user = result.rows[0];
-    next();
-  } catch (error) {
-    next(new Error('Authentication failed'));
+  const filename = `${file.filename}.${type}`;
+  const target = path.join(path.dirname(file.path), filename);
+  const encode = IMAGE_ENCODERS[type];
+  if (encode) {
+    const image = await encode(sharp(buffer)).toBuffer().catch(() => {
+      throw new ApiError(400, 'Image could not be processed', 'INVALID_IMAGE');
+    });
+    await fs.promises.writeFile(target, image);
+    await fs.promises.unlink(file.path);
+  } else {
+    await fs.promises.rename(file.path, target);
   }
-});
+  return filename;
+}
 
-// Authentication Routes
+// Removes the temporary file of an upload whose request failed
+async function discardUpload(file?: UploadedFile) {
+  if (file) {
+    await fs.promises.rm(file.path, { force: true });
+  }
+}
 
-/*
-User registration endpoint
-Creates new user account with comprehensive validation and Libya-specific fields
-Returns user object and JWT token for immediate authentication
-*/
-app.post('/api/auth/register', async (req, res) => {
-  try {
-    const validatedData = createUserInputSchema.parse(req.body);
-    const { email, phone_number, password_hash, name, profile_picture_url, bio, emergency_contact_name, emergency_contact_phone, role, is_verified, verification_document_url } = validatedData;
+// Absolute URL for a stored file; PUBLIC_BASE_URL overrides the request host behind
+// proxies and is the only base background jobs can use
+const storedFileUrl = (req, route: string, filename: string) => {
+  const base = process.env.PUBLIC_BASE_URL || (req ? `${req.protocol}://${req.get('host')}` : `http://localhost:${port}`);
+  return `${base}${route}${filename}`;
+};
 
-    // Check if user exists
-    const existingUser = await pool.query('SELECT user_id FROM users WHERE email = $1 OR phone_number = $2', [email, phone_number]);
-    if (existingUser.rows.length > 0) {
-      return res.status(409).json(createErrorResponse('User with this email or phone number already exists', null, 'USER_ALREADY_EXISTS'));
+const PUBLIC_FILE_ROUTES = [[PUBLIC_UPLOADS_ROUTE, publicUploadsPath]];
+const STORED_FILE_ROUTES = [...PUBLIC_FILE_ROUTES, [VERIFICATION_DOCUMENTS_ROUTE, privateUploadsPath]];
+
+// Maps a URL produced by storedFileUrl back to its file; other URLs are left alone
+const storedFilePath = (url?: string | null, routes = STORED_FILE_ROUTES): string | null => {
+  if (!url) {
+    return null;
+  }
+  let pathname: string;
+  try {
+    pathname = new URL(url, 'http://localhost').pathname;
+  } catch {
+    return null;
+  }
+  for (const [route, directory] of routes) {
+    const filename = pathname.slice(route.length);
+    if (pathname.startsWith(route) && filename && filename === path.basename(filename)) {
+      return path.join(directory, filename);
     }
+  }
+  return null;
+};
 
-    // Generate unique user ID
-    const user_id = `user_${nanoid()}`;
+// Same as storedFilePath, for files anyone may see
+const publicFilePath = (url?: string | null) => storedFilePath(url, PUBLIC_FILE_ROUTES);
 
-    // Create user (NO HASHING - store password directly for development)
-    const result = await pool.query(
-      `INSERT INTO users (user_id, email, phone_number, password_hash, name, profile_picture_url, bio, 
-       emergency_contact_name, emergency_contact_phone, role, is_verified, verification_document_url, 
-       created_at, updated_at) 
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14) 
-       RETURNING user_id, email, phone_number, name, profile_picture_url, bio, emergency_contact_name, 
-       emergency_contact_phone, role, is_verified, verification_document_url, created_at, updated_at`,
-      [user_id, email.toLowerCase().trim(), phone_number, password_hash, name.trim(), profile_picture_url, bio, 
-       emergency_contact_name, emergency_contact_phone, role, is_verified || false, verification_document_url, 
-       new Date().toISOString(), new Date().toISOString()]
-    );
+async function removeFile(file: string | null) {
+  if (file) {
+    await fs.promises.rm(file, { force: true }).catch((error) => console.error('Remove stored file error:', error));
+  }
+}
 
-    const user = result.rows[0];
+async function removeStoredFile(url?: string | null) {
+  await removeFile(storedFilePath(url));
+}
 
-    // Generate JWT
-    const token = jwt.sign(
-      { user_id: user.user_id, email: user.email }, 
-      JWT_SECRET, 
-      { expiresIn: '7d' }
-    );
+// Remote Fetching
 
-    // Emit WebSocket event
-    io.emit('user/created', user);
+const REMOTE_FETCH_MAX_REDIRECTS = 3;
 
-    res.status(201).json({
-      user,
-      token
-    });
-  } catch (error) {
-    console.error('Registration error:', error);
-    if (error.name === 'ZodError') {
-      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+// Ranges user-supplied URLs may not reach: this host, private networks, link-local
+// (cloud metadata) and other reserved space. IPv4 rules also match IPv4-mapped IPv6
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [address, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 3]
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv4');
+}
+for (const [address, prefix] of [['::', 127], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  BLOCKED_ADDRESSES.addSubnet(address, prefix, 'ipv6');
+}
+
+const isBlockedAddress = (address: string) =>
+  BLOCKED_ADDRESSES.check(address, net.isIP(address) === 6 ? 'ipv6' : 'ipv4');
+
+// dns.lookup for outgoing requests that refuses hosts resolving to a blocked address
+const publicLookup = (hostname: string, options: dns.LookupOptions, callback) => {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses: dns.LookupAddress[]) => {
+    if (error) {
+      return callback(error);
     }
-    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
-  }
-});
+    if (addresses.length === 0 || addresses.some(({ address }) => isBlockedAddress(address))) {
+      return callback(new Error(`${hostname} resolves to a private address`));
+    }
+    if (options.all) {
+      return callback(null, addresses);
+    }
+    callback(null, addresses[0].address, addresses[0].family);
+  });
+};
 
 /*
-User login endpoint
-Authenticates user credentials and returns JWT token
-Direct password comparison for development ease
+GETs a user-supplied http(s) URL. The host has to resolve to public addresses only,
+checked again on every redirect and when connecting, and the body is read up to
+maxBytes: a longer response is cut off rather than buffered
 */
-app.post('/api/auth/login', async (req, res) => {
-  try {
-    const { email, password } = req.body;
+async function fetchRemote(url: string, { maxBytes, timeoutMs, accept = '*/*' }: { maxBytes: number; timeoutMs: number; accept?: string }): Promise<Buffer> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  let target = new URL(url);
+  for (let redirects = 0; ; redirects++) {
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') {
+      throw new Error(`Only http and https URLs can be fetched, not ${target.protocol}`);
+    }
+    // Literal addresses are connected to without a lookup
+    const host = target.hostname.replace(/^\[|\]$/g, '');
+    if (net.isIP(host) && isBlockedAddress(host)) {
+      throw new Error(`${host} is a private address`);
+    }
 
-    if (!email || !password) {
-      return res.status(400).json(createErrorResponse('Email and password are required', null, 'MISSING_REQUIRED_FIELDS'));
+    const response = await new Promise<IncomingMessage>((resolve, reject) => {
+      const send = target.protocol === 'https:' ? httpsRequest : httpRequest;
+      send(target, { headers: { Accept: accept }, lookup: publicLookup, signal }, resolve).on('error', reject).end();
+    });
+    const { statusCode = 0, headers } = response;
+
+    if (statusCode >= 300 && statusCode < 400 && headers.location) {
+      response.resume();
+      if (redirects === REMOTE_FETCH_MAX_REDIRECTS) {
+        throw new Error(`${url} redirected more than ${REMOTE_FETCH_MAX_REDIRECTS} times`);
+      }
+      target = new URL(headers.location, target);
+      continue;
+    }
+    if (statusCode < 200 || statusCode >= 300) {
+      response.resume();
+      throw new Error(`${url} answered ${statusCode}`);
     }
 
-    // Find user (NO HASHING - direct password comparison for development)
-    const result = await pool.query('SELECT * FROM users WHERE email = $1', [email.toLowerCase().trim()]);
-    if (result.rows.length === 0) {
-      return res.status(400).json(createErrorResponse('Invalid email or password', null, 'INVALID_CREDENTIALS'));
+    const tooLarge = new Error(`${url} is larger than ${maxBytes} bytes`);
+    if (Number(headers['content-length']) > maxBytes) {
+      response.destroy();
+      throw tooLarge;
     }
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of response) {
+      size += chunk.length;
+      if (size > maxBytes) {
+        response.destroy();
+        throw tooLarge;
+      }
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  }
+}
 
-    const user = result.rows[0];
+// Photo Renditions
 
-    // Check password (direct comparison for development)
-    if (password !== user.password_hash) {
-      return res.status(400).json(createErrorResponse('Invalid email or password', null, 'INVALID_CREDENTIALS'));
-    }
+// Widths of the resized copies served next to the original photo_url
+const PHOTO_RENDITIONS = { thumbnail: 320, card: 800, full: 1600 };
+const PHOTO_TABLES = ['property_photos', 'review_photos'];
+const MAX_REMOTE_PHOTO_BYTES = 20 * 1024 * 1024;
 
-    // Generate JWT
-    const token = jwt.sign(
-      { user_id: user.user_id, email: user.email }, 
-      JWT_SECRET, 
-      { expiresIn: '7d' }
-    );
+interface PhotoRenditions {
+  thumbnail_url: string;
+  card_url: string;
+  full_url: string;
+  blurhash: string;
+}
 
-    const userResponse = {
-      user_id: user.user_id,
-      email: user.email,
-      phone_number: user.phone_number,
-      name: user.name,
-      profile_picture_url: user.profile_picture_url,
-      bio: user.bio,
-      emergency_contact_name: user.emergency_contact_name,
-      emergency_contact_phone: user.emergency_contact_phone,
-      role: user.role,
-      is_verified: user.is_verified,
-      verification_document_url: user.verification_document_url,
-      created_at: user.created_at,
-      updated_at: user.updated_at
-    };
+/*
+Reads the original of a photo, from disk when it was uploaded here and over
+HTTP for photos created from an external photo_url. Private storage is never
+read: photo_url is client-supplied and renditions are public
+*/
+async function loadPhotoSource(url: string): Promise<Buffer> {
+  const file = publicFilePath(url);
+  if (file) {
+    return fs.promises.readFile(file);
+  }
+  return fetchRemote(url, { maxBytes: MAX_REMOTE_PHOTO_BYTES, timeoutMs: 15000, accept: 'image/*' });
+}
 
-    res.json({
-      user: userResponse,
-      token
-    });
+/*
+Writes WebP renditions of an image into public storage and computes its blurhash
+placeholder. rotate() applies the EXIF orientation, and sharp drops all other
+metadata from its output
+*/
+async function createPhotoRenditions(req, source: Buffer): Promise<PhotoRenditions> {
+  const id = nanoid();
+  const urls: Record<string, string> = {};
+  const written: string[] = [];
+  try {
+    for (const [name, width] of Object.entries(PHOTO_RENDITIONS)) {
+      const filename = `${id}-${name}.webp`;
+      await sharp(source)
+        .rotate()
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: name === 'thumbnail' ? 70 : 80 })
+        .toFile(path.join(publicUploadsPath, filename));
+      written.push(filename);
+      urls[`${name}_url`] = storedFileUrl(req, PUBLIC_UPLOADS_ROUTE, filename);
+    }
+
+    const { data, info } = await sharp(source)
+      .rotate()
+      .resize(32, 32, { fit: 'inside' })
+      .ensureAlpha()
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    return {
+      thumbnail_url: urls.thumbnail_url,
+      card_url: urls.card_url,
+      full_url: urls.full_url,
+      blurhash: encodeBlurhash(new Uint8ClampedArray(data), info.width, info.height, 4, 3)
+    };
   } catch (error) {
-    console.error('Login error:', error);
-    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+    for (const filename of written) {
+      await fs.promises.rm(path.join(publicUploadsPath, filename), { force: true });
+    }
+    throw error;
   }
-});
+}
 
 /*
-User logout endpoint
-Validates authentication token for logout confirmation
+Stores an uploaded photo and its renditions. Uploads are processed right away so
+the app never has to fall back to the original
 */
-app.post('/api/auth/logout', authenticateToken, (req, res) => {
-  res.json({
-    message: 'Logout successful'
-  });
-});
+async function storeUploadedPhoto(req, file: UploadedFile): Promise<PhotoRenditions & { photo_url: string; photo_file: string }> {
+  const filename = await processUpload(file, IMAGE_TYPES);
+  const photo_url = storedFileUrl(req, PUBLIC_UPLOADS_ROUTE, filename);
+  try {
+    const renditions = await createPhotoRenditions(req, await fs.promises.readFile(path.join(publicUploadsPath, filename)));
+    return { photo_url, photo_file: filename, ...renditions };
+  } catch {
+    await removeFile(path.join(publicUploadsPath, filename));
+    throw new ApiError(400, 'Image could not be processed', 'INVALID_IMAGE');
+  }
+}
 
 /*
-Token verification endpoint
-Validates JWT token and returns user information
+Deletes the files a photo row owns: the original it uploaded, if any, and its
+renditions. photo_url is client-supplied, so the file it points to is left alone
 */
-app.get('/api/auth/verify', authenticateToken, (req, res) => {
-  // Get the token from the authorization header
-  const authHeader = req.headers['authorization'];
-  const token = authHeader && authHeader.split(' ')[1];
-  
-  res.json({
-    user: req.user,
-    token: token,
-    valid: true
+async function removePhotoFiles(photo) {
+  if (photo.photo_file) {
+    await removeFile(path.join(publicUploadsPath, path.basename(photo.photo_file)));
+  }
+  for (const url of [photo.thumbnail_url, photo.card_url, photo.full_url]) {
+    await removeFile(publicFilePath(url));
+  }
+}
+
+/*
+Queues rendition generation for a photo; the URL is part of the dedupe key so a
+photo whose photo_url changes is processed again
+*/
+async function enqueuePhotoRenditions(db: Queryable, photo_table: string, photo) {
+  const urlHash = crypto.createHash('sha256').update(photo.photo_url).digest('hex').slice(0, 16);
+  return enqueueJob(db, {
+    job_type: 'generate_photo_renditions',
+    dedupe_key: `generate_photo_renditions:${photo.photo_id}:${urlHash}`,
+    payload: { photo_table, photo_id: photo.photo_id }
   });
-});
+}
 
-// User Management Routes
+/*
+Generates renditions for a stored photo row and saves them, replacing older ones
+Nothing is saved when the row was deleted or its photo_url changed meanwhile
+*/
+async function generateStoredPhotoRenditions(photo_table: string, photo_id: string) {
+  if (!PHOTO_TABLES.includes(photo_table)) {
+    throw new Error(`Unknown photo table ${photo_table}`);
+  }
+  const current = await pool.query(`SELECT * FROM ${photo_table} WHERE photo_id = $1`, [photo_id]);
+  const photo = current.rows[0];
+  if (!photo) return null;
+
+  const renditions = await createPhotoRenditions(null, await loadPhotoSource(photo.photo_url));
+  const result = await pool.query(
+    `UPDATE ${photo_table} SET thumbnail_url = $1, card_url = $2, full_url = $3, blurhash = $4
+     WHERE photo_id = $5 AND photo_url = $6 RETURNING *`,
+    [renditions.thumbnail_url, renditions.card_url, renditions.full_url, renditions.blurhash, photo_id, photo.photo_url]
+  );
+  if (result.rows.length === 0) {
+    await removePhotoFiles(renditions);
+    return null;
+  }
+  await removePhotoFiles({ ...photo, photo_file: null });
+  return result.rows[0];
+}
 
 /*
-Get user profile endpoint
-Retrieves public user profile information by user ID
+Adds each listing's first photo, renditions included, as cover_photo so list
+screens can show a card-sized image without fetching every photo
 */
-app.get('/api/users/:user_id', async (req, res) => {
-  try {
-    const { user_id } = req.params;
+async function attachCoverPhotos(properties) {
+  if (properties.length === 0) {
+    return properties;
+  }
+  const result = await pool.query(
+    `SELECT DISTINCT ON (property_id) * FROM property_photos
+     WHERE property_id = ANY($1) ORDER BY property_id, display_order ASC, created_at ASC`,
+    [properties.map(property => property.property_id)]
+  );
+  const covers = new Map(result.rows.map(photo => [photo.property_id, photo]));
+  return properties.map(property => ({ ...property, cover_photo: covers.get(property.property_id) || null }));
+}
 
-    const result = await pool.query(
-      `SELECT user_id, email, phone_number, name, profile_picture_url, bio, 
-       emergency_contact_name, emergency_contact_phone, role, is_verified, 
-       verification_document_url, created_at, updated_at 
-       FROM users WHERE user_id = $1`, 
-      [user_id]
-    );
+// Embeds each review's photos, oldest first, as photos and the host's reply as host_response
+async function attachReviewDetails(reviews) {
+  if (reviews.length === 0) {
+    return reviews;
+  }
+  const review_ids = reviews.map(review => review.review_id);
+  const photos = await pool.query(
+    `SELECT * FROM review_photos WHERE review_id = ANY($1) ORDER BY created_at ASC, photo_id ASC`,
+    [review_ids]
+  );
+  const responses = await pool.query('SELECT * FROM review_responses WHERE review_id = ANY($1)', [review_ids]);
+  const responsesByReview = new Map(responses.rows.map(response => [response.review_id, response]));
+  return reviews.map(review => ({
+    ...review,
+    photos: photos.rows.filter(photo => photo.review_id === review.review_id),
+    host_response: responsesByReview.get(review.review_id) || null
+  }));
+}
 
-    if (result.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('User not found', null, 'USER_NOT_FOUND'));
-    }
+// Password Hashing
 
-    res.json(result.rows[0]);
-  } catch (error) {
-    console.error('Get user error:', error);
-    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+const BCRYPT_ROUNDS = parseInt(process.env.BCRYPT_ROUNDS || '12');
+const BCRYPT_HASH_PATTERN = /^\$2[aby]\$\d{2}\$/;
+// Compared against when the email is unknown so both paths take similar time
+const DUMMY_PASSWORD_HASH = bcrypt.hashSync('dummy-password', BCRYPT_ROUNDS);
+
+const hashPassword = (password: string): Promise<string> => bcrypt.hash(password, BCRYPT_ROUNDS);
+
+/*
+Checks a password against the stored value
+Rows created before hashing hold the plain password; they still verify, and
+needs_rehash tells the caller to replace them, as it does for hashes made with
+fewer rounds than currently configured
+*/
+async function verifyPassword(password: string, stored: string): Promise<{ valid: boolean; needs_rehash: boolean }> {
+  if (BCRYPT_HASH_PATTERN.test(stored)) {
+    const valid = await bcrypt.compare(password, stored);
+    return { valid, needs_rehash: valid && bcrypt.getRounds(stored) < BCRYPT_ROUNDS };
   }
-});
+
+  const given = Buffer.from(password);
+  const expected = Buffer.from(stored);
+  const valid = given.length === expected.length && crypto.timingSafeEqual(given, expected);
+  return { valid, needs_rehash: valid };
+}
+
+// Sessions
+
+const ACCESS_TOKEN_TTL = process.env.ACCESS_TOKEN_TTL || '15m';
+const REFRESH_TOKEN_TTL_DAYS = parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30');
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+const issueAccessToken = (user: { user_id: string; email: string }, session_id: string): string =>
+  jwt.sign({ user_id: user.user_id, email: user.email, session_id }, JWT_SECRET, { expiresIn: ACCESS_TOKEN_TTL } as jwt.SignOptions);
 
 /*
-Update user profile endpoint
-Updates user profile information with ownership validation
+Refresh tokens are "<session_id>.<secret>"; only a hash of the secret is stored
+and it changes on every refresh
+*/
+const newRefreshToken = (session_id: string) => {
+  const refresh_token = `${session_id}.${crypto.randomBytes(32).toString('base64url')}`;
+  return { refresh_token, refresh_token_hash: hashToken(refresh_token) };
+};
+
+/*
+Opens a session for a device that just signed in and returns its token pair
+*/
+async function createSession(user: { user_id: string; email: string }, req) {
+  const session_id = `sess_${nanoid()}`;
+  const { refresh_token, refresh_token_hash } = newRefreshToken(session_id);
+  const now = new Date();
+  const expires_at = new Date(now.getTime() + REFRESH_TOKEN_TTL_DAYS * 86400000).toISOString();
+
+  await pool.query(
+    `INSERT INTO sessions (session_id, user_id, refresh_token_hash, user_agent, ip_address, created_at, last_used_at, expires_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $6, $7)`,
+    [session_id, user.user_id, refresh_token_hash, req.get('user-agent') || null, req.ip || null, now.toISOString(), expires_at]
+  );
+
+  return { token: issueAccessToken(user, session_id), refresh_token, session_id };
+}
+
+const isSessionActive = async (session_id: string, user_id: string): Promise<boolean> => {
+  const result = await pool.query(
+    'SELECT 1 FROM sessions WHERE session_id = $1 AND user_id = $2 AND revoked_at IS NULL AND expires_at > $3',
+    [session_id, user_id, new Date().toISOString()]
+  );
+  return result.rows.length > 0;
+};
+
+/*
+Revokes sessions and drops any sockets that were opened with them
+*/
+async function revokeSessions(user_id: string, session_ids: string[]) {
+  if (session_ids.length === 0) return;
+
+  await pool.query(
+    'UPDATE sessions SET revoked_at = $1 WHERE user_id = $2 AND session_id = ANY($3) AND revoked_at IS NULL',
+    [new Date().toISOString(), user_id, session_ids]
+  );
+
+  const sockets = await io.in(`user_${user_id}`).fetchSockets();
+  for (const socket of sockets) {
+    if (session_ids.includes(socket.data.session_id)) {
+      socket.disconnect(true);
+    }
+  }
+}
+
+/*
+Revokes every active session of a user except the given one
+*/
+async function revokeOtherSessions(user_id: string, current_session_id: string | null): Promise<number> {
+  const result = await pool.query(
+    'SELECT session_id FROM sessions WHERE user_id = $1 AND revoked_at IS NULL AND session_id IS DISTINCT FROM $2',
+    [user_id, current_session_id]
+  );
+  const sessionIds = result.rows.map(row => row.session_id);
+  await revokeSessions(user_id, sessionIds);
+  return sessionIds.length;
+}
+
+// Phone Verification
+
+const OTP_TTL_MINUTES = parseInt(process.env.OTP_TTL_MINUTES || '10');
+const OTP_MAX_ATTEMPTS = parseInt(process.env.OTP_MAX_ATTEMPTS || '5');
+const OTP_RESEND_INTERVAL_SECONDS = parseInt(process.env.OTP_RESEND_INTERVAL_SECONDS || '60');
+const OTP_MAX_SENDS_PER_HOUR = parseInt(process.env.OTP_MAX_SENDS_PER_HOUR || '5');
+
+/*
+Normalizes Libyan mobile numbers to +2189XXXXXXXX
+Accepts +218 / 00218 / 218 prefixes, the national 09X form and the bare 9X form,
+with spaces, dashes, dots or parentheses; returns null for anything else
+*/
+const normalizeLibyanPhone = (input: string): string | null => {
+  const digits = input.trim().replace(/[\s\-.()]/g, '');
+  const match = digits.match(/^(?:\+218|00218|218|0)?(9[1-5]\d{7})$/);
+  return match ? `+218${match[1]}` : null;
+};
+
+interface SmsProvider {
+  name: string;
+  send(to: string, message: string): Promise<void>;
+}
+
+/*
+Development and test provider: writes messages to the log and keeps them in
+memory instead of sending them
+*/
+class LoggingSmsProvider implements SmsProvider {
+  name = 'log';
+  outbox: { to: string; message: string; sent_at: string }[] = [];
+
+  async send(to: string, message: string) {
+    this.outbox.push({ to, message, sent_at: new Date().toISOString() });
+    console.log(`[sms:${this.name}] to ${to}: ${message}`);
+  }
+}
+
+// Real gateways register here and are selected with SMS_PROVIDER
+const SMS_PROVIDERS: Record<string, () => SmsProvider> = {
+  log: () => new LoggingSmsProvider()
+};
+
+const createSmsProvider = (name = process.env.SMS_PROVIDER || 'log'): SmsProvider => {
+  const factory = SMS_PROVIDERS[name];
+  if (!factory) {
+    throw new Error(`Unknown SMS provider "${name}"`);
+  }
+  return factory();
+};
+
+const smsProvider = createSmsProvider();
+
+const hashOtp = (verification_id: string, code: string): string => hashToken(`${verification_id}:${code}`);
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505';
+
+// Pricing Engine
+
+const SERVICE_FEE_RATE = parseFloat(process.env.SERVICE_FEE_RATE || '0.10');
+// Client-submitted totals may differ from the server quote by rounding only
+const PRICE_TOLERANCE = 0.01;
+
+// Friday and Saturday nights, the Libyan weekend
+const WEEKEND_DAYS = [5, 6];
+
+interface PricingRule {
+  rule_id: string;
+  property_id: string;
+  rule_type: 'weekend' | 'seasonal' | 'length_of_stay' | 'early_bird' | 'last_minute';
+  name: string;
+  start_date: string | null;
+  end_date: string | null;
+  nightly_price: number | null;
+  adjustment_percent: number | null;
+  min_nights: number | null;
+  days_before: number | null;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+interface NightlyRate {
+  date: string;
+  price: number;
+  source: 'base' | 'override' | 'seasonal' | 'weekend';
+  rule_id?: string;
+}
+
+interface PriceAdjustment {
+  rule_id: string;
+  rule_type: PricingRule['rule_type'];
+  name: string;
+  adjustment_percent: number;
+  amount: number;
+}
+
+interface BookingQuote {
+  property_id: string;
+  currency: string;
+  check_in: string;
+  check_out: string;
+  nights: number;
+  guest_count: number;
+  nightly_rates: NightlyRate[];
+  nightly_subtotal: number;
+  adjustments: PriceAdjustment[];
+  subtotal: number;
+  service_fee: number;
+  total_price: number;
+}
+
+type Queryable = PgPool | PoolClient;
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+/*
+Normalizes a date input to the YYYY-MM-DD form used by the TEXT date columns
+*/
+const toDateOnly = (value: string | Date): string => {
+  const date = value instanceof Date ? value : new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new ApiError(400, 'Invalid date', 'INVALID_DATE');
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/*
+Lists every night of a stay: check_in inclusive, check_out exclusive
+*/
+const enumerateNights = (checkIn: string, checkOut: string): string[] => {
+  const nights = [];
+  const cursor = new Date(`${checkIn}T00:00:00Z`);
+  const end = new Date(`${checkOut}T00:00:00Z`);
+  while (cursor < end) {
+    nights.push(cursor.toISOString().slice(0, 10));
+    cursor.setUTCDate(cursor.getUTCDate() + 1);
+  }
+  return nights;
+};
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+
+const formatPricingRule = (row): PricingRule => ({
+  ...row,
+  nightly_price: row.nightly_price === null ? null : parseFloat(row.nightly_price),
+  adjustment_percent: row.adjustment_percent === null ? null : parseFloat(row.adjustment_percent)
+});
+
+/*
+Active rules of each of the given properties, newest first so that the newest of
+equally specific rules wins
+*/
+async function loadPricingRulesByProperty(db: Queryable, propertyIds: string[]): Promise<Map<string, PricingRule[]>> {
+  const result = await db.query(
+    'SELECT * FROM pricing_rules WHERE property_id = ANY($1) AND is_active = true ORDER BY created_at DESC, rule_id DESC',
+    [propertyIds]
+  );
+  const rules = new Map<string, PricingRule[]>(propertyIds.map(id => [id, []]));
+  for (const row of result.rows) {
+    rules.get(row.property_id).push(formatPricingRule(row));
+  }
+  return rules;
+}
+
+async function loadPricingRules(db: Queryable, property_id: string): Promise<PricingRule[]> {
+  return (await loadPricingRulesByProperty(db, [property_id])).get(property_id);
+}
+
+// The price_override of each of the given properties on each of the given dates that has one
+async function loadPriceOverrides(db: Queryable, propertyIds: string[], dates: string[]): Promise<Map<string, Map<string, number>>> {
+  const result = await db.query(
+    `SELECT property_id, date, price_override FROM property_availability
+     WHERE property_id = ANY($1) AND date = ANY($2) AND price_override IS NOT NULL`,
+    [propertyIds, dates]
+  );
+  const overrides = new Map<string, Map<string, number>>(propertyIds.map(id => [id, new Map()]));
+  for (const row of result.rows) {
+    overrides.get(row.property_id).set(row.date, parseFloat(row.price_override));
+  }
+  return overrides;
+}
+
+/*
+Prices each of the given nights; the first source that applies wins:
+1. the price_override of the date's property_availability row
+2. a seasonal rule covering the date, the shortest season first so Eid beats summer
+3. the weekend rule, on Friday and Saturday nights
+4. base_price_per_night
+A rule sets the price to its nightly_price or moves the base price by its adjustment_percent
+*/
+async function priceNights(
+  db: Queryable,
+  property: { property_id: string; base_price_per_night: string },
+  dates: string[],
+  rules: PricingRule[]
+): Promise<NightlyRate[]> {
+  const overrides = await loadPriceOverrides(db, [property.property_id], dates);
+  return rateNights(property, dates, rules, overrides.get(property.property_id));
+}
+
+// priceNights with the overrides already loaded
+function rateNights(
+  property: { base_price_per_night: string },
+  dates: string[],
+  rules: PricingRule[],
+  overrides: Map<string, number>
+): NightlyRate[] {
+  const basePrice = parseFloat(property.base_price_per_night);
+  const rulePrice = (rule: PricingRule) => rule.nightly_price ?? roundCurrency(basePrice * (1 + rule.adjustment_percent / 100));
+  // Sorting is stable, so the newest of equally long seasons stays first
+  const seasons = rules
+    .filter(rule => rule.rule_type === 'seasonal')
+    .sort((a, b) => daysBetween(a.start_date, a.end_date) - daysBetween(b.start_date, b.end_date));
+  const weekend = rules.find(rule => rule.rule_type === 'weekend');
+
+  return dates.map(date => {
+    if (overrides.has(date)) {
+      return { date, price: overrides.get(date), source: 'override' };
+    }
+    const season = seasons.find(rule => rule.start_date <= date && date <= rule.end_date);
+    if (season) {
+      return { date, price: rulePrice(season), source: 'seasonal', rule_id: season.rule_id };
+    }
+    if (weekend && WEEKEND_DAYS.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) {
+      return { date, price: rulePrice(weekend), source: 'weekend', rule_id: weekend.rule_id };
+    }
+    return { date, price: basePrice, source: 'base' };
+  });
+}
+
+/*
+Stay-level adjustments, applied in this order to the nightly subtotal with each
+one compounding on the last:
+1. the length_of_stay rule with the largest min_nights the stay reaches, so a
+   monthly discount replaces the weekly one
+2. one booking-window rule: the early_bird rule with the largest days_before the
+   stay is booked ahead of, otherwise the last_minute rule with the smallest
+   days_before the check-in falls within
+*/
+const calculateStayAdjustments = (
+  rules: PricingRule[],
+  nights: number,
+  daysAhead: number,
+  nightlySubtotal: number
+): PriceAdjustment[] => {
+  const lengthOfStay = rules
+    .filter(rule => rule.rule_type === 'length_of_stay' && nights >= rule.min_nights)
+    .sort((a, b) => b.min_nights - a.min_nights)[0];
+  const earlyBird = rules
+    .filter(rule => rule.rule_type === 'early_bird' && daysAhead >= rule.days_before)
+    .sort((a, b) => b.days_before - a.days_before)[0];
+  const lastMinute = rules
+    .filter(rule => rule.rule_type === 'last_minute' && daysAhead <= rule.days_before)
+    .sort((a, b) => a.days_before - b.days_before)[0];
+
+  let running = nightlySubtotal;
+  return [lengthOfStay, earlyBird ?? lastMinute].filter(Boolean).map(rule => {
+    const amount = roundCurrency(running * rule.adjustment_percent / 100);
+    running = roundCurrency(running + amount);
+    return {
+      rule_id: rule.rule_id,
+      rule_type: rule.rule_type,
+      name: rule.name,
+      adjustment_percent: rule.adjustment_percent,
+      amount
+    };
+  });
+};
+
+/*
+Prices a stay before the service fee: the nights by priceNights, then their
+subtotal adjusted by the stay-level rules
+*/
+async function priceStay(
+  db: Queryable,
+  property: { property_id: string; base_price_per_night: string },
+  checkIn: string,
+  checkOut: string
+) {
+  const rules = await loadPricingRules(db, property.property_id);
+  return summarizeStay(rules, await priceNights(db, property, enumerateNights(checkIn, checkOut), rules), checkIn);
+}
+
+/*
+priceStay for many listings at once, with two queries whatever their number; the
+stays come back in the order of the listings
+*/
+async function priceStays(
+  db: Queryable,
+  properties: { property_id: string; base_price_per_night: string }[],
+  checkIn: string,
+  checkOut: string
+) {
+  const propertyIds = properties.map(property => property.property_id);
+  const dates = enumerateNights(checkIn, checkOut);
+  const rules = await loadPricingRulesByProperty(db, propertyIds);
+  const overrides = await loadPriceOverrides(db, propertyIds, dates);
+  return properties.map(property => {
+    const propertyRules = rules.get(property.property_id);
+    return summarizeStay(propertyRules, rateNights(property, dates, propertyRules, overrides.get(property.property_id)), checkIn);
+  });
+}
+
+// Totals the priced nights of a stay and applies its stay-level rules
+function summarizeStay(rules: PricingRule[], nightly_rates: NightlyRate[], checkIn: string) {
+  const nightly_subtotal = roundCurrency(nightly_rates.reduce((sum, night) => sum + night.price, 0));
+  const adjustments = calculateStayAdjustments(
+    rules, nightly_rates.length, daysBetween(toDateOnly(new Date()), checkIn), nightly_subtotal
+  );
+  const subtotal = roundCurrency(adjustments.reduce((sum, adjustment) => sum + adjustment.amount, nightly_subtotal));
+
+  return { nightly_rates, nightly_subtotal, adjustments, subtotal };
+}
+
+/*
+Builds the authoritative price breakdown for a stay
+The service fee is a percentage of the priceStay subtotal and is added on top of it
+*/
+async function calculateBookingQuote(
+  db: Queryable,
+  params: { property_id: string; check_in: string | Date; check_out: string | Date; guest_count: number }
+): Promise<BookingQuote> {
+  const checkIn = toDateOnly(params.check_in);
+  const checkOut = toDateOnly(params.check_out);
+
+  // Capped like search and calendar ranges, since every night is priced and stored
+  if (checkOut <= checkIn || daysBetween(checkIn, checkOut) > CALENDAR_MAX_DAYS) {
+    throw new ApiError(400, `check_out must be after check_in and at most ${CALENDAR_MAX_DAYS} nights later`, 'INVALID_DATE_RANGE');
+  }
+
+  const propertyResult = await db.query(
+    'SELECT property_id, base_price_per_night, currency, guest_capacity FROM properties WHERE property_id = $1',
+    [params.property_id]
+  );
+  if (propertyResult.rows.length === 0) {
+    throw new ApiError(404, 'Property not found', 'PROPERTY_NOT_FOUND');
+  }
+
+  const property = propertyResult.rows[0];
+  if (params.guest_count > property.guest_capacity) {
+    throw new ApiError(400, `Property accommodates at most ${property.guest_capacity} guests`, 'GUEST_CAPACITY_EXCEEDED');
+  }
+
+  const { nightly_rates, nightly_subtotal, adjustments, subtotal } = await priceStay(db, property, checkIn, checkOut);
+  const service_fee = roundCurrency(subtotal * SERVICE_FEE_RATE);
+
+  return {
+    property_id: property.property_id,
+    currency: property.currency,
+    check_in: checkIn,
+    check_out: checkOut,
+    nights: nightly_rates.length,
+    guest_count: params.guest_count,
+    nightly_rates,
+    nightly_subtotal,
+    adjustments,
+    subtotal,
+    service_fee,
+    total_price: roundCurrency(subtotal + service_fee)
+  };
+}
+
+/*
+Rejects client-computed totals that disagree with the server quote
+Omitted values are accepted and replaced by the quoted ones
+*/
+const assertQuoteMatches = (quote: BookingQuote, submitted: { total_price?: number; service_fee?: number }) => {
+  const mismatched = (value: number | undefined, expected: number) =>
+    value !== undefined && Math.abs(value - expected) > PRICE_TOLERANCE;
+
+  if (mismatched(submitted.total_price, quote.total_price) || mismatched(submitted.service_fee, quote.service_fee)) {
+    throw new ApiError(
+      400,
+      `Submitted price does not match the current quote (total ${quote.total_price}, service fee ${quote.service_fee} ${quote.currency})`,
+      'PRICE_MISMATCH'
+    );
+  }
+};
+
+// Exchange Rates
+
+const EXCHANGE_RATE_TYPES = ['official', 'parallel'];
+// Used when a request does not pick a rate type
+const DEFAULT_EXCHANGE_RATE_TYPE = process.env.EXCHANGE_RATE_TYPE || 'official';
+
+type CurrencyConversion = {
+  currency: string;
+  rate_type: string;
+  // LYD per unit of each currency with a rate of this type, LYD included
+  rates: Map<string, number>;
+};
+
+/*
+Reads display_currency (LYD when absent) and rate_type from a request and loads the
+rates of that type; rejects currencies without a rate
+*/
+async function readCurrencyConversion(
+  input: { display_currency?: string; rate_type?: string },
+  db: Queryable = pool
+): Promise<CurrencyConversion> {
+  const rate_type = input.rate_type || DEFAULT_EXCHANGE_RATE_TYPE;
+  if (!EXCHANGE_RATE_TYPES.includes(rate_type)) {
+    throw new ApiError(400, `rate_type must be one of ${EXCHANGE_RATE_TYPES.join(', ')}`, 'INVALID_RATE_TYPE');
+  }
+
+  const result = await db.query('SELECT currency, lyd_per_unit FROM exchange_rates WHERE rate_type = $1', [rate_type]);
+  const rates = new Map<string, number>([['LYD', 1], ...result.rows.map((row): [string, number] => [row.currency, parseFloat(row.lyd_per_unit)])]);
+
+  const currency = (input.display_currency || 'LYD').toUpperCase();
+  if (!rates.has(currency)) {
+    throw new ApiError(400, `No ${rate_type} exchange rate for ${currency}`, 'UNSUPPORTED_CURRENCY');
+  }
+  return { currency, rate_type, rates };
+}
+
+// Units of the conversion currency per unit of from, to six places; null when from has no rate
+const exchangeRate = (from: string, conversion: CurrencyConversion): number | null =>
+  conversion.rates.has(from)
+    ? Math.round((conversion.rates.get(from) / conversion.rates.get(conversion.currency)) * 1e6) / 1e6
+    : null;
+
+// Adds the nightly price in the display currency next to the listing's own price and currency
+function withDisplayPrices(properties, conversion: CurrencyConversion) {
+  return properties.map(property => {
+    const rate = exchangeRate(property.currency, conversion);
+    return {
+      ...property,
+      display_currency: conversion.currency,
+      exchange_rate: rate,
+      exchange_rate_type: conversion.rate_type,
+      display_price_per_night: rate === null ? null : roundCurrency(parseFloat(property.base_price_per_night) * rate),
+      ...(property.stay_subtotal !== undefined && {
+        display_stay_subtotal: rate === null ? null : roundCurrency(property.stay_subtotal * rate)
+      })
+    };
+  });
+}
+
+/*
+Prices the searched stay at each listing as its booking quote would, before the
+service fee, so pricing rules show in results
+*/
+async function attachStayPrices(properties, checkIn: string, checkOut: string) {
+  const stays = await priceStays(pool, properties, checkIn, checkOut);
+  return properties.map((property, index) => {
+    const stay = stays[index];
+    return {
+      ...property,
+      stay_nights: stay.nightly_rates.length,
+      stay_subtotal: stay.subtotal,
+      stay_price_per_night: roundCurrency(stay.subtotal / stay.nightly_rates.length)
+    };
+  });
+}
+
+// Listings may only be priced in currencies that can be converted for search
+async function assertSupportedCurrency(currency: string) {
+  if (currency === 'LYD') {
+    return;
+  }
+  const result = await pool.query('SELECT 1 FROM exchange_rates WHERE currency = $1 LIMIT 1', [currency]);
+  if (result.rows.length === 0) {
+    throw new ApiError(400, `Listings cannot be priced in ${currency} until an exchange rate is set`, 'UNSUPPORTED_CURRENCY');
+  }
+}
+
+// Stay Restrictions
+
+// Advance notice counts to 14:00 Libya time (UTC+2) on the check-in date
+const CHECK_IN_TIME_UTC = 'T12:00:00Z';
+
+interface StayRestriction {
+  restriction_id: string;
+  property_id: string;
+  start_date: string;
+  end_date: string;
+  min_nights: number | null;
+  max_nights: number | null;
+  closed_to_arrival: boolean;
+  closed_to_departure: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+const hoursUntilCheckIn = (checkIn: string, now: Date): number =>
+  Math.floor((Date.parse(`${checkIn}${CHECK_IN_TIME_UTC}`) - now.getTime()) / 3600000);
+
+/*
+Rejects stays the property's restrictions do not allow
+min_nights and max_nights come from the shortest date-range restriction covering
+check_in that sets them, else from the property; ranges closed to arrival or
+departure close their dates on top of the property's closed weekdays. Advance
+notice and the booking window are property-wide and skipped when unset
+*/
+async function assertStayAllowed(db: Queryable, property_id: string, checkIn: string, checkOut: string, now = new Date()) {
+  const propertyResult = await db.query(
+    `SELECT min_nights, max_nights, advance_notice_hours, booking_window_days,
+     closed_arrival_weekdays, closed_departure_weekdays FROM properties WHERE property_id = $1`,
+    [property_id]
+  );
+  const property = propertyResult.rows[0];
+
+  const restrictionResult = await db.query(
+    `SELECT * FROM stay_restrictions
+     WHERE property_id = $1 AND ($2 BETWEEN start_date AND end_date OR $3 BETWEEN start_date AND end_date)
+     ORDER BY created_at DESC, restriction_id DESC`,
+    [property_id, checkIn, checkOut]
+  );
+  const restrictions: StayRestriction[] = restrictionResult.rows;
+  const covering = (date: string) => restrictions.filter(restriction => restriction.start_date <= date && date <= restriction.end_date);
+  // Sorting is stable, so the newest of equally long ranges stays first
+  const rangeLimit = (field: 'min_nights' | 'max_nights') => covering(checkIn)
+    .filter(restriction => restriction[field] !== null)
+    .sort((a, b) => daysBetween(a.start_date, a.end_date) - daysBetween(b.start_date, b.end_date))[0]?.[field];
+
+  const nights = daysBetween(checkIn, checkOut);
+  const minNights = rangeLimit('min_nights') ?? property.min_nights;
+  const maxNights = rangeLimit('max_nights') ?? property.max_nights;
+
+  if (nights < minNights) {
+    throw new ApiError(400, `Stays arriving on ${checkIn} must be at least ${minNights} nights`, 'MIN_NIGHTS_NOT_MET');
+  }
+  if (maxNights !== null && nights > maxNights) {
+    throw new ApiError(400, `Stays arriving on ${checkIn} can be at most ${maxNights} nights`, 'MAX_NIGHTS_EXCEEDED');
+  }
+
+  const arrivalWeekday = new Date(`${checkIn}T00:00:00Z`).getUTCDay();
+  if (property.closed_arrival_weekdays.includes(arrivalWeekday) || covering(checkIn).some(restriction => restriction.closed_to_arrival)) {
+    throw new ApiError(400, `Check-in is not possible on ${checkIn}`, 'CLOSED_TO_ARRIVAL');
+  }
+  const departureWeekday = new Date(`${checkOut}T00:00:00Z`).getUTCDay();
+  if (property.closed_departure_weekdays.includes(departureWeekday) || covering(checkOut).some(restriction => restriction.closed_to_departure)) {
+    throw new ApiError(400, `Check-out is not possible on ${checkOut}`, 'CLOSED_TO_DEPARTURE');
+  }
+
+  if (property.advance_notice_hours > 0 && hoursUntilCheckIn(checkIn, now) < property.advance_notice_hours) {
+    throw new ApiError(400, `Bookings need at least ${property.advance_notice_hours} hours notice before check-in`, 'ADVANCE_NOTICE_REQUIRED');
+  }
+  if (property.booking_window_days !== null && daysBetween(toDateOnly(now), checkIn) > property.booking_window_days) {
+    throw new ApiError(400, `Check-in can be at most ${property.booking_window_days} days ahead`, 'BOOKING_WINDOW_EXCEEDED');
+  }
+}
+
+// A listing's max_nights may not be below its min_nights
+const assertNightLimits = (limits: { min_nights: number | null; max_nights: number | null }) => {
+  if (limits.min_nights !== null && limits.max_nights !== null && limits.max_nights < limits.min_nights) {
+    throw new ApiError(400, 'max_nights must not be below min_nights', 'INVALID_STAY_RESTRICTION');
+  }
+};
+
+// Calendar Reservation
+
+// Postgres exclusion_violation, raised by bookings_no_overlapping_stays in db.sql
+const EXCLUSION_VIOLATION = '23P01';
+
+/*
+Runs the callback inside a single transaction on a dedicated client
+Commits on success, rolls back and rethrows on any error
+*/
+async function withTransaction<T>(fn: (client: PoolClient) => Promise<T>): Promise<T> {
+  const client = await pool.connect();
+  try {
+    await client.query('BEGIN');
+    const result = await fn(client);
+    await client.query('COMMIT');
+    return result;
+  } catch (error) {
+    await client.query('ROLLBACK');
+    throw error;
+  } finally {
+    client.release();
+  }
+}
+
+/*
+Serializes calendar changes for a property by locking its row until the
+surrounding transaction ends
+*/
+async function lockPropertyCalendar(client: PoolClient, property_id: string) {
+  const result = await client.query(
+    'SELECT property_id FROM properties WHERE property_id = $1 FOR UPDATE',
+    [property_id]
+  );
+  if (result.rows.length === 0) {
+    throw new ApiError(404, 'Property not found', 'PROPERTY_NOT_FOUND');
+  }
+}
+
+/*
+Rejects a stay that overlaps a confirmed booking or a night marked unavailable
+exclude_booking_id skips the booking being confirmed and the nights it holds
+*/
+async function assertDatesAvailable(
+  db: Queryable,
+  params: { property_id: string; check_in: string; check_out: string; exclude_booking_id?: string }
+) {
+  const excludeId = params.exclude_booking_id || null;
+
+  const overlapping = await db.query(
+    `SELECT booking_id FROM bookings
+     WHERE property_id = $1 AND status = 'confirmed' AND booking_id IS DISTINCT FROM $4
+     AND left(check_in, 10) < $3 AND left(check_out, 10) > $2`,
+    [params.property_id, params.check_in, params.check_out, excludeId]
+  );
+  if (overlapping.rows.length > 0) {
+    throw new ApiError(409, 'Selected dates overlap an existing confirmed booking', 'DATES_UNAVAILABLE');
+  }
+
+  const blocked = await db.query(
+    `SELECT date FROM property_availability
+     WHERE property_id = $1 AND date >= $2 AND date < $3 AND is_available = false
+     AND booking_id IS DISTINCT FROM $4
+     ORDER BY date ASC`,
+    [params.property_id, params.check_in, params.check_out, excludeId]
+  );
+  if (blocked.rows.length > 0) {
+    const dates = blocked.rows.map(row => row.date).join(', ');
+    throw new ApiError(409, `Selected dates are not available: ${dates}`, 'DATES_UNAVAILABLE');
+  }
+}
+
+/*
+Marks every night of a confirmed booking unavailable, keeping any price_override
+*/
+async function blockBookedNights(client: PoolClient, booking: { booking_id: string; property_id: string; check_in: string; check_out: string }) {
+  for (const date of enumerateNights(booking.check_in.slice(0, 10), booking.check_out.slice(0, 10))) {
+    await client.query(
+      `INSERT INTO property_availability (availability_id, property_id, date, is_available, price_override, booking_id)
+       VALUES ($1, $2, $3, false, NULL, $4)
+       ON CONFLICT (property_id, date)
+       DO UPDATE SET is_available = false, booking_id = EXCLUDED.booking_id`,
+      [`avail_${nanoid()}`, booking.property_id, date, booking.booking_id]
+    );
+  }
+}
+
+/*
+Frees the nights held by a booking that is no longer confirmed
+Rows that only existed for the hold are removed, host-priced rows are reopened
+*/
+async function releaseBookedNights(client: PoolClient, booking_id: string) {
+  await client.query(
+    'DELETE FROM property_availability WHERE booking_id = $1 AND price_override IS NULL',
+    [booking_id]
+  );
+  await client.query(
+    'UPDATE property_availability SET is_available = true, booking_id = NULL WHERE booking_id = $1',
+    [booking_id]
+  );
+}
+
+// Longest span a calendar request may read or change at once
+const CALENDAR_MAX_DAYS = 366;
+
+/*
+Lists the dates from start_date to end_date, both inclusive, keeping only the
+given weekdays (0 = Sunday) when any are listed
+*/
+function enumerateCalendarDates(start_date: string | Date, end_date: string | Date, weekdays?: number[]): string[] {
+  const start = toDateOnly(start_date);
+  const end = toDateOnly(end_date);
+  if (end < start) {
+    throw new ApiError(400, 'end_date must not be before start_date', 'INVALID_DATE_RANGE');
+  }
+  // Checked before enumerating, so a range spanning centuries is never built
+  if (daysBetween(start, end) + 1 > CALENDAR_MAX_DAYS) {
+    throw new ApiError(400, `Calendar ranges cover at most ${CALENDAR_MAX_DAYS} days`, 'INVALID_DATE_RANGE');
+  }
+
+  const dayAfterEnd = new Date(`${end}T00:00:00Z`);
+  dayAfterEnd.setUTCDate(dayAfterEnd.getUTCDate() + 1);
+  const dates = enumerateNights(start, dayAfterEnd.toISOString().slice(0, 10));
+
+  return weekdays ? dates.filter(date => weekdays.includes(new Date(`${date}T00:00:00Z`).getUTCDay())) : dates;
+}
+
+/*
+Applies is_available and price_override to each date, leaving nights held by a
+confirmed booking untouched. A date back to open at the base price needs no row,
+so its row is removed
+*/
+async function applyAvailabilityRange(
+  client: PoolClient,
+  property_id: string,
+  dates: string[],
+  changes: { is_available?: boolean; price_override?: number | null }
+) {
+  const existing = await client.query(
+    'SELECT * FROM property_availability WHERE property_id = $1 AND date = ANY($2)',
+    [property_id, dates]
+  );
+  const rowsByDate = new Map(existing.rows.map(row => [row.date, row]));
+
+  const created = [];
+  const updated = [];
+  const deleted = [];
+  const skipped_dates = [];
+
+  for (const date of dates) {
+    const row = rowsByDate.get(date);
+    if (row && row.booking_id) {
+      skipped_dates.push(date);
+      continue;
+    }
+
+    const is_available = changes.is_available ?? (row ? row.is_available : true);
+    const price_override = changes.price_override !== undefined ? changes.price_override : (row ? row.price_override : null);
+
+    if (is_available && price_override === null) {
+      if (row) {
+        await client.query('DELETE FROM property_availability WHERE availability_id = $1', [row.availability_id]);
+        deleted.push({ availability_id: row.availability_id, property_id, date });
+      }
+      continue;
+    }
+
+    const result = await client.query(
+      `INSERT INTO property_availability (availability_id, property_id, date, is_available, price_override)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (property_id, date)
+       DO UPDATE SET is_available = EXCLUDED.is_available, price_override = EXCLUDED.price_override
+       RETURNING *`,
+      [`avail_${nanoid()}`, property_id, date, is_available, price_override]
+    );
+    (row ? updated : created).push(result.rows[0]);
+  }
+
+  return { created, updated, deleted, skipped_dates };
+}
+
+/*
+Day-by-day view of a property's calendar merging host availability rows,
+confirmed bookings and pending requests
+*/
+async function buildAvailabilityCalendar(
+  db: Queryable,
+  property: { property_id: string; base_price_per_night: string },
+  dates: string[]
+) {
+  const start = dates[0];
+  const end = dates[dates.length - 1];
+
+  const availability = await db.query(
+    'SELECT * FROM property_availability WHERE property_id = $1 AND date BETWEEN $2 AND $3',
+    [property.property_id, start, end]
+  );
+  const rowsByDate = new Map(availability.rows.map(row => [row.date, row]));
+
+  const bookings = await db.query(
+    `SELECT booking_id, status, left(check_in, 10) AS check_in, left(check_out, 10) AS check_out FROM bookings
+     WHERE property_id = $1 AND status IN ('confirmed', 'pending')
+     AND left(check_in, 10) <= $3 AND left(check_out, 10) > $2
+     ORDER BY check_in ASC`,
+    [property.property_id, start, end]
+  );
+
+  const prices = await priceNights(db, property, dates, await loadPricingRules(db, property.property_id));
+
+  return dates.map((date, index) => {
+    const row = rowsByDate.get(date);
+    const staying = bookings.rows.filter(booking => booking.check_in <= date && date < booking.check_out);
+    const confirmed = staying.find(booking => booking.status === 'confirmed');
+    const price_override = row && row.price_override !== null ? parseFloat(row.price_override) : null;
+
+    return {
+      date,
+      status: confirmed ? 'booked' : row && !row.is_available ? 'blocked' : 'available',
+      price: prices[index].price,
+      price_override,
+      price_source: prices[index].source,
+      booking_id: confirmed ? confirmed.booking_id : null,
+      pending_booking_ids: staying.filter(booking => booking.status === 'pending').map(booking => booking.booking_id)
+    };
+  });
+}
+
+// iCalendar Sync
+
+const ICAL_SYNC_INTERVAL_MINUTES = parseInt(process.env.ICAL_SYNC_INTERVAL_MINUTES || '60');
+// Imported events starting further ahead than this are ignored
+const ICAL_IMPORT_HORIZON_DAYS = parseInt(process.env.ICAL_IMPORT_HORIZON_DAYS || '365');
+const ICAL_FETCH_TIMEOUT_MS = 15000;
+const ICAL_MAX_BYTES = 5 * 1024 * 1024;
+const ICAL_PRODID = '-//LibyaStay//Calendar Sync//EN';
+
+interface CalendarEvent {
+  uid: string;
+  summary: string | null;
+  start_date: string;
+  // Exclusive, like check_out
+  end_date: string;
+}
+
+interface CalendarFetcher {
+  name: string;
+  fetch(url: string): Promise<string>;
+}
+
+class HttpCalendarFetcher implements CalendarFetcher {
+  name = 'http';
+
+  async fetch(url: string) {
+    try {
+      const body = await fetchRemote(url, { maxBytes: ICAL_MAX_BYTES, timeoutMs: ICAL_FETCH_TIMEOUT_MS, accept: 'text/calendar' });
+      return body.toString('utf8');
+    } catch (error) {
+      throw new ApiError(502, `Calendar feed could not be fetched: ${error.message}`, 'ICAL_FETCH_FAILED');
+    }
+  }
+}
+
+/*
+Offline provider for development and tests: serves https://host/path from the file
+ICAL_FETCH_DIR/host/path instead of the network
+*/
+class FileCalendarFetcher implements CalendarFetcher {
+  name = 'file';
+  root = process.env.ICAL_FETCH_DIR || path.join(storagePath, 'ical');
+
+  pathFor(url: string) {
+    const { hostname, pathname } = new URL(url);
+    // Hosts name a directory under root, so . and .. would escape it
+    if (hostname === '.' || hostname === '..') {
+      throw new ApiError(400, 'Invalid calendar URL', 'INVALID_ICAL_URL');
+    }
+    const file = path.join(this.root, hostname, decodeURIComponent(pathname));
+    if (!file.startsWith(path.join(this.root, hostname) + path.sep)) {
+      throw new ApiError(400, 'Invalid calendar URL', 'INVALID_ICAL_URL');
+    }
+    return file;
+  }
+
+  async fetch(url: string) {
+    try {
+      return await fs.promises.readFile(this.pathFor(url), 'utf8');
+    } catch (error) {
+      if (error instanceof ApiError) throw error;
+      throw new ApiError(502, `No stored calendar for ${url}`, 'ICAL_FETCH_FAILED');
+    }
+  }
+}
+
+// Selected with ICAL_FETCHER; tests run offline against the file provider
+const CALENDAR_FETCHERS: Record<string, () => CalendarFetcher> = {
+  http: () => new HttpCalendarFetcher(),
+  file: () => new FileCalendarFetcher()
+};
+
+const createCalendarFetcher = (
+  name = process.env.ICAL_FETCHER || (process.env.NODE_ENV === 'test' ? 'file' : 'http')
+): CalendarFetcher => {
+  const factory = CALENDAR_FETCHERS[name];
+  if (!factory) {
+    throw new Error(`Unknown calendar fetcher "${name}"`);
+  }
+  return factory();
+};
+
+const calendarFetcher = createCalendarFetcher();
+
+const escapeICalText = (value: string): string =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+const unescapeICalText = (value: string): string =>
+  value.replace(/\\([\\;,nN])/g, (_, char) => (char.toLowerCase() === 'n' ? '\n' : char));
+
+// Lines are folded at 75 octets with a leading space on each continuation
+const foldICalLine = (line: string): string => {
+  const parts = [];
+  let current = '';
+  for (const char of line) {
+    if (Buffer.byteLength(current + char) > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+// YYYY-MM-DD from a DATE or DATE-TIME value; times and zones are dropped
+const icalDate = (value?: string): string | null => {
+  const match = value && value.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+};
+
+/*
+Reads the events of an iCalendar document as date spans
+Folded lines are joined and property parameters ignored; events without a start
+and cancelled events are skipped, and events ending on their start day block it
+*/
+function parseICalendar(text: string): CalendarEvent[] {
+  if (!/^BEGIN:VCALENDAR/im.test(text)) {
+    throw new ApiError(400, 'Not an iCalendar document', 'INVALID_ICAL');
+  }
+
+  const events: Record<string, string>[] = [];
+  let current: Record<string, string> | null = null;
+  for (const line of text.replace(/\r?\n[ \t]/g, '').split(/\r?\n/)) {
+    if (/^BEGIN:VEVENT$/i.test(line)) {
+      current = {};
+    } else if (/^END:VEVENT$/i.test(line)) {
+      if (current) events.push(current);
+      current = null;
+    } else if (current) {
+      const match = line.match(/^([A-Za-z-]+)(?:;[^:]*)?:(.*)$/);
+      if (match) current[match[1].toUpperCase()] = match[2];
+    }
+  }
+
+  return events.flatMap((event) => {
+    const start_date = icalDate(event.DTSTART);
+    if (!start_date || (event.STATUS || '').toUpperCase() === 'CANCELLED') {
+      return [];
+    }
+    const end = icalDate(event.DTEND);
+    const end_date = end && end > start_date ? end : addDays(start_date, 1);
+    return [{
+      uid: event.UID || `${start_date}/${end_date}`,
+      summary: event.SUMMARY ? unescapeICalText(event.SUMMARY) : null,
+      start_date,
+      end_date
+    }];
+  });
+}
+
+/*
+Builds a property's export feed from today on: one all-day event per confirmed
+booking and per run of consecutive blocked nights. Guests are never named
+*/
+async function buildICalendarExport(property: { property_id: string; title: string }): Promise<string> {
+  const today = toDateOnly(new Date());
+
+  const bookings = await pool.query(
+    `SELECT booking_id, left(check_in, 10) AS check_in, left(check_out, 10) AS check_out FROM bookings
+     WHERE property_id = $1 AND status = 'confirmed' AND left(check_out, 10) > $2
+     ORDER BY check_in ASC`,
+    [property.property_id, today]
+  );
+  const blocked = await pool.query(
+    `SELECT date FROM property_availability
+     WHERE property_id = $1 AND is_available = false AND booking_id IS NULL AND date >= $2
+     ORDER BY date ASC`,
+    [property.property_id, today]
+  );
+
+  const blockedRuns: { start_date: string; end_date: string }[] = [];
+  for (const { date } of blocked.rows) {
+    const last = blockedRuns[blockedRuns.length - 1];
+    if (last && last.end_date === date) {
+      last.end_date = addDays(date, 1);
+    } else {
+      blockedRuns.push({ start_date: date, end_date: addDays(date, 1) });
+    }
+  }
+
+  const stamp = new Date().toISOString().replace(/[-:]/g, '').replace(/\.\d+/, '');
+  const compact = (date: string) => date.replace(/-/g, '');
+  const event = (uid: string, start_date: string, end_date: string, summary: string) => [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART;VALUE=DATE:${compact(start_date)}`,
+    `DTEND;VALUE=DATE:${compact(end_date)}`,
+    `SUMMARY:${summary}`,
+    'END:VEVENT'
+  ];
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${ICAL_PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeICalText(property.title)}`,
+    ...bookings.rows.flatMap(booking => event(`${booking.booking_id}@libyastay`, booking.check_in, booking.check_out, 'Reserved')),
+    ...blockedRuns.flatMap(run => event(`blocked-${property.property_id}-${run.start_date}@libyastay`, run.start_date, run.end_date, 'Not available')),
+    'END:VCALENDAR'
+  ];
+  return lines.map(foldICalLine).join('\r\n') + '\r\n';
+}
+
+/*
+Records why an import could not be read; the nights it already blocks stay blocked
+*/
+async function recordCalendarImportFailure(import_id: string, error) {
+  const now = new Date().toISOString();
+  await pool.query(
+    `UPDATE ical_imports SET last_synced_at = $1, last_sync_status = 'failed', last_error = $2, updated_at = $1
+     WHERE import_id = $3`,
+    [now, String(error.message || error), import_id]
+  );
+}
+
+/*
+Brings the nights blocked by an import in line with its events from today to
+ICAL_IMPORT_HORIZON_DAYS ahead. Nights the host or another import already blocked
+are left alone, and events overlapping confirmed bookings or pending requests here
+are stored as conflicts; the host is notified of new ones
+calendarText is an uploaded document; without it the import's source_url is fetched
+*/
+async function syncCalendarImport(import_id: string, calendarText?: string) {
+  const found = await pool.query('SELECT * FROM ical_imports WHERE import_id = $1', [import_id]);
+  const calendarImport = found.rows[0];
+  if (!calendarImport) return null;
+
+  let events: CalendarEvent[];
+  try {
+    const text = calendarText ?? await calendarFetcher.fetch(calendarImport.source_url);
+    events = parseICalendar(text);
+  } catch (error) {
+    await recordCalendarImportFailure(import_id, error);
+    throw error;
+  }
+
+  const today = toDateOnly(new Date());
+  const horizon = addDays(today, ICAL_IMPORT_HORIZON_DAYS);
+  const wanted = new Set(events.flatMap(event =>
+    enumerateNights(event.start_date > today ? event.start_date : today, event.end_date < horizon ? event.end_date : horizon)
+  ));
+
+  const result = await withTransaction(async (client) => {
+    await lockPropertyCalendar(client, calendarImport.property_id);
+
+    const existing = await client.query(
+      'SELECT * FROM property_availability WHERE property_id = $1 AND date >= $2 AND date < $3',
+      [calendarImport.property_id, today, horizon]
+    );
+    const rowsByDate = new Map(existing.rows.map(row => [row.date, row]));
+
+    const created = [];
+    const updated = [];
+    const deleted = [];
+
+    for (const date of [...wanted].sort()) {
+      const row = rowsByDate.get(date);
+      if (!row) {
+        const inserted = await client.query(
+          `INSERT INTO property_availability (availability_id, property_id, date, is_available, price_override, ical_import_id)
+           VALUES ($1, $2, $3, false, NULL, $4) RETURNING *`,
+          [`avail_${nanoid()}`, calendarImport.property_id, date, import_id]
+        );
+        created.push(inserted.rows[0]);
+      } else if (row.is_available && !row.booking_id) {
+        // A host-priced night keeps its price for when the import lets it go
+        const blocked = await client.query(
+          'UPDATE property_availability SET is_available = false, ical_import_id = $1 WHERE availability_id = $2 RETURNING *',
+          [import_id, row.availability_id]
+        );
+        updated.push(blocked.rows[0]);
+      }
+    }
+
+    for (const row of existing.rows) {
+      if (row.ical_import_id !== import_id || wanted.has(row.date)) continue;
+      if (row.price_override === null) {
+        await client.query('DELETE FROM property_availability WHERE availability_id = $1', [row.availability_id]);
+        deleted.push({ availability_id: row.availability_id, property_id: row.property_id, date: row.date });
+      } else {
+        const released = await client.query(
+          'UPDATE property_availability SET is_available = true, ical_import_id = NULL WHERE availability_id = $1 RETURNING *',
+          [row.availability_id]
+        );
+        updated.push(released.rows[0]);
+      }
+    }
+
+    const bookings = await client.query(
+      `SELECT booking_id, status, left(check_in, 10) AS check_in, left(check_out, 10) AS check_out FROM bookings
+       WHERE property_id = $1 AND status IN ('confirmed', 'pending') AND left(check_out, 10) > $2`,
+      [calendarImport.property_id, today]
+    );
+    const conflicts = events.flatMap(event => bookings.rows
+      .filter(booking => booking.check_in < event.end_date && booking.check_out > event.start_date && event.end_date > today)
+      .map(booking => ({
+        event_uid: event.uid,
+        event_summary: event.summary,
+        start_date: event.start_date,
+        end_date: event.end_date,
+        booking_id: booking.booking_id,
+        booking_status: booking.status,
+        check_in: booking.check_in,
+        check_out: booking.check_out
+      })));
+
+    const now = new Date().toISOString();
+    const saved = await client.query(
+      `UPDATE ical_imports SET last_synced_at = $1, last_sync_status = 'ok', last_error = NULL,
+       event_count = $2, conflicts = $3, updated_at = $1 WHERE import_id = $4 RETURNING *`,
+      [now, events.length, JSON.stringify(conflicts), import_id]
+    );
+
+    return { calendarImport: saved.rows[0], created, updated, deleted, conflicts };
+  });
+
+  result.created.forEach(row => io.emit('property_availability/created', row));
+  result.updated.forEach(row => io.emit('property_availability/updated', row));
+  result.deleted.forEach(row => io.emit('property_availability/deleted', row));
+
+  const known = new Set(JSON.parse(calendarImport.conflicts).map(conflict => `${conflict.event_uid}:${conflict.booking_id}`));
+  const newConflicts = result.conflicts.filter(conflict => !known.has(`${conflict.event_uid}:${conflict.booking_id}`));
+  if (newConflicts.length > 0) {
+    const property = await pool.query('SELECT host_id, title FROM properties WHERE property_id = $1', [calendarImport.property_id]);
+    await createNotification({
+      user_id: property.rows[0].host_id,
+      type: 'calendar_conflict',
+      title: 'Calendar Conflict',
+      message: `${calendarImport.name} has ${newConflicts.length === 1 ? 'an event' : `${newConflicts.length} events`} overlapping bookings at ${property.rows[0].title}`,
+      related_entity_type: 'property',
+      related_entity_id: calendarImport.property_id
+    });
+  }
+
+  return {
+    import: formatCalendarImport(result.calendarImport),
+    blocked_dates: [
+      ...result.created.map(row => row.date),
+      ...result.updated.filter(row => !row.is_available).map(row => row.date)
+    ].sort(),
+    released_dates: [
+      ...result.deleted.map(row => row.date),
+      ...result.updated.filter(row => row.is_available).map(row => row.date)
+    ].sort(),
+    conflicts: result.conflicts
+  };
+}
+
+// API shape of an ical_imports row
+const formatCalendarImport = (row) => ({ ...row, conflicts: JSON.parse(row.conflicts) });
+
+/*
+Releases the nights an import blocked, from today on, ahead of deleting it
+Earlier nights lose their link to the import but stay blocked
+*/
+async function releaseCalendarImport(client: PoolClient, import_id: string) {
+  const today = toDateOnly(new Date());
+  const deleted = await client.query(
+    'DELETE FROM property_availability WHERE ical_import_id = $1 AND date >= $2 AND price_override IS NULL RETURNING availability_id, property_id, date',
+    [import_id, today]
+  );
+  const reopened = await client.query(
+    'UPDATE property_availability SET is_available = true, ical_import_id = NULL WHERE ical_import_id = $1 AND date >= $2 RETURNING *',
+    [import_id, today]
+  );
+  await client.query('UPDATE property_availability SET ical_import_id = NULL WHERE ical_import_id = $1', [import_id]);
+  return { deleted: deleted.rows, updated: reopened.rows };
+}
+
+// Booking Status State Machine
+
+type BookingActorRole = 'guest' | 'host' | 'admin' | 'system';
+
+interface BookingActor {
+  role: BookingActorRole;
+  user_id: string | null;
+}
+
+/*
+Allowed status transitions and the actors permitted to perform each one
+declined, cancelled, expired and completed are terminal; completed and expired
+are only reached through the background jobs
+*/
+const BOOKING_TRANSITIONS: Record<string, Record<string, BookingActorRole[]>> = {
+  pending: {
+    // system confirms on the host's behalf for instant-book listings
+    confirmed: ['host', 'system'],
+    declined: ['host'],
+    cancelled: ['guest', 'host', 'admin'],
+    expired: ['system']
+  },
+  confirmed: {
+    cancelled: ['guest', 'host', 'admin'],
+    completed: ['system']
+  },
+  declined: {},
+  cancelled: {},
+  expired: {},
+  completed: {}
+};
+
+const SYSTEM_ACTOR: BookingActor = { role: 'system', user_id: null };
+
+/*
+Resolves the role a user plays on a booking; null when they are not a participant
+*/
+const getBookingActor = (booking, user: User): BookingActor | null => {
+  if (user.user_id === booking.host_id) return { role: 'host', user_id: user.user_id };
+  if (user.user_id === booking.guest_id) return { role: 'guest', user_id: user.user_id };
+  if (user.role === 'admin') return { role: 'admin', user_id: user.user_id };
+  return null;
+};
+
+/*
+Validates a status change against BOOKING_TRANSITIONS and the cancellation rules
+Guests and hosts cannot cancel a confirmed stay once check-in day has arrived
+*/
+const assertBookingTransition = (booking, toStatus: string, actor: BookingActor, now = new Date()) => {
+  const allowedActors = BOOKING_TRANSITIONS[booking.status]?.[toStatus];
+  if (!allowedActors) {
+    throw new ApiError(409, `Cannot change booking status from ${booking.status} to ${toStatus}`, 'INVALID_STATUS_TRANSITION');
+  }
+  if (!allowedActors.includes(actor.role)) {
+    throw new ApiError(403, `A ${actor.role} cannot change booking status from ${booking.status} to ${toStatus}`, 'INVALID_STATUS_TRANSITION');
+  }
+  if (
+    toStatus === 'cancelled' && booking.status === 'confirmed' &&
+    (actor.role === 'guest' || actor.role === 'host') &&
+    toDateOnly(now) >= booking.check_in.slice(0, 10)
+  ) {
+    throw new ApiError(409, 'A stay cannot be cancelled on or after its check-in date', 'INVALID_STATUS_TRANSITION');
+  }
+};
+
+async function recordBookingTransition(
+  db: Queryable,
+  entry: { booking_id: string; from_status: string | null; to_status: string; actor: BookingActor; reason?: string | null }
+) {
+  const result = await db.query(
+    `INSERT INTO booking_status_history (history_id, booking_id, from_status, to_status, changed_by, actor_role, reason, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8) RETURNING *`,
+    [
+      `bhist_${nanoid()}`, entry.booking_id, entry.from_status, entry.to_status,
+      entry.actor.user_id, entry.actor.role, entry.reason || null, new Date().toISOString()
+    ]
+  );
+  return result.rows[0];
+}
+
+/*
+Applies a validated status change inside the caller's transaction
+Confirming re-checks and reserves the calendar, leaving confirmed frees it,
+and every change is appended to booking_status_history
+The booking must have been read with SELECT ... FOR UPDATE by the caller
+*/
+async function transitionBookingStatus(
+  client: PoolClient,
+  booking,
+  toStatus: string,
+  actor: BookingActor,
+  reason?: string | null
+) {
+  assertBookingTransition(booking, toStatus, actor);
+
+  if (toStatus === 'confirmed') {
+    await lockPropertyCalendar(client, booking.property_id);
+    await assertDatesAvailable(client, {
+      property_id: booking.property_id,
+      check_in: booking.check_in.slice(0, 10),
+      check_out: booking.check_out.slice(0, 10),
+      exclude_booking_id: booking.booking_id
+    });
+  }
+
+  const result = await client.query(
+    'UPDATE bookings SET status = $1, updated_at = $2 WHERE booking_id = $3 RETURNING *',
+    [toStatus, new Date().toISOString(), booking.booking_id]
+  );
+  const updated = result.rows[0];
+
+  if (booking.status === 'confirmed') {
+    await releaseBookedNights(client, booking.booking_id);
+  }
+  if (toStatus === 'confirmed') {
+    await blockBookedNights(client, updated);
+  }
+
+  await recordBookingTransition(client, {
+    booking_id: booking.booking_id,
+    from_status: booking.status,
+    to_status: toStatus,
+    actor,
+    reason
+  });
+
+  if (toStatus === 'cancelled') {
+    await recordCancellation(client, booking, actor, reason);
+  }
+
+  return updated;
+}
+
+// Cancellation Policies
+
+type CancellationPolicy = 'flexible' | 'moderate' | 'strict';
+
+interface RefundTier {
+  min_days_before: number;
+  refund_percentage: number;
+  refund_service_fee: boolean;
+}
+
+/*
+Guest refund rules per listing policy, checked from the first tier down
+days_before is counted in whole days from today to the check-in date
+*/
+const CANCELLATION_POLICIES: Record<CancellationPolicy, RefundTier[]> = {
+  flexible: [
+    { min_days_before: 1, refund_percentage: 100, refund_service_fee: true },
+    { min_days_before: 0, refund_percentage: 0, refund_service_fee: false }
+  ],
+  moderate: [
+    { min_days_before: 5, refund_percentage: 100, refund_service_fee: true },
+    { min_days_before: 1, refund_percentage: 50, refund_service_fee: false },
+    { min_days_before: 0, refund_percentage: 0, refund_service_fee: false }
+  ],
+  strict: [
+    { min_days_before: 14, refund_percentage: 100, refund_service_fee: true },
+    { min_days_before: 7, refund_percentage: 50, refund_service_fee: false },
+    { min_days_before: 0, refund_percentage: 0, refund_service_fee: false }
+  ]
+};
+
+/*
+Penalty charged to a host who cancels a confirmed stay, as a percentage of the
+nightly subtotal; the guest is always refunded in full
+*/
+const HOST_CANCELLATION_PENALTIES: { min_days_before: number; penalty_percentage: number }[] = [
+  { min_days_before: 30, penalty_percentage: 10 },
+  { min_days_before: 7, penalty_percentage: 25 },
+  { min_days_before: 0, penalty_percentage: 50 }
+];
+
+interface CancellationOutcome {
+  booking_id: string;
+  cancellation_policy: CancellationPolicy;
+  cancelled_by_role: BookingActorRole;
+  days_before_check_in: number;
+  refund_percentage: number;
+  refund_subtotal: number;
+  refund_service_fee: number;
+  refund_amount: number;
+  host_penalty: number;
+  currency: string;
+}
+
+/*
+Works out what the guest gets back and what the host owes if the given actor
+cancels now
+Pending requests were never accepted, so they are refunded in full; host and
+admin cancellations refund in full too, and only a host cancelling a confirmed
+stay is penalised
+*/
+async function calculateCancellationOutcome(db: Queryable, booking, actor: BookingActor, now = new Date()): Promise<CancellationOutcome> {
+  // Amounts are in the booking's own currency, which the listing may since have changed
+  const propertyResult = await db.query(
+    'SELECT cancellation_policy FROM properties WHERE property_id = $1',
+    [booking.property_id]
+  );
+  const property = propertyResult.rows[0];
+  const policy: CancellationPolicy = CANCELLATION_POLICIES[property.cancellation_policy] ? property.cancellation_policy : 'strict';
+
+  const totalPrice = parseFloat(booking.total_price);
+  const serviceFee = parseFloat(booking.service_fee);
+  const subtotal = roundCurrency(totalPrice - serviceFee);
+  const daysBefore = daysBetween(toDateOnly(now), booking.check_in.slice(0, 10));
+
+  let refundPercentage = 100;
+  let refundsServiceFee = true;
+  let hostPenalty = 0;
+
+  if (booking.status === 'confirmed' && actor.role === 'guest') {
+    const tiers = CANCELLATION_POLICIES[policy];
+    const tier = tiers.find(t => daysBefore >= t.min_days_before) || tiers[tiers.length - 1];
+    refundPercentage = tier.refund_percentage;
+    refundsServiceFee = tier.refund_service_fee;
+  } else if (booking.status === 'confirmed' && actor.role === 'host') {
+    const penalty = HOST_CANCELLATION_PENALTIES.find(t => daysBefore >= t.min_days_before) ||
+      HOST_CANCELLATION_PENALTIES[HOST_CANCELLATION_PENALTIES.length - 1];
+    hostPenalty = roundCurrency(subtotal * penalty.penalty_percentage / 100);
+  }
+
+  const refund_subtotal = roundCurrency(subtotal * refundPercentage / 100);
+  const refund_service_fee = refundsServiceFee ? serviceFee : 0;
+
+  return {
+    booking_id: booking.booking_id,
+    cancellation_policy: policy,
+    cancelled_by_role: actor.role,
+    days_before_check_in: daysBefore,
+    refund_percentage: refundPercentage,
+    refund_subtotal,
+    refund_service_fee,
+    refund_amount: roundCurrency(refund_subtotal + refund_service_fee),
+    host_penalty: hostPenalty,
+    currency: booking.currency
+  };
+}
+
+/*
+Stores the refund and penalty settled when a booking is cancelled
+*/
+async function recordCancellation(db: Queryable, booking, actor: BookingActor, reason?: string | null) {
+  const outcome = await calculateCancellationOutcome(db, booking, actor);
+  const result = await db.query(
+    `INSERT INTO booking_cancellations (
+      cancellation_id, booking_id, cancelled_by, actor_role, reason, previous_status, cancellation_policy,
+      days_before_check_in, refund_percentage, refund_subtotal, refund_service_fee, refund_amount,
+      host_penalty, currency, created_at
+    ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) RETURNING *`,
+    [
+      `bcanc_${nanoid()}`, booking.booking_id, actor.user_id, actor.role, reason || null, booking.status,
+      outcome.cancellation_policy, outcome.days_before_check_in, outcome.refund_percentage,
+      outcome.refund_subtotal, outcome.refund_service_fee, outcome.refund_amount,
+      outcome.host_penalty, outcome.currency, new Date().toISOString()
+    ]
+  );
+  return result.rows[0];
+}
+
+// Instant Book
+
+interface InstantBookEligibility {
+  instant_book: boolean;
+  eligible: boolean;
+  reasons: string[];
+}
+
+/*
+Decides whether a guest's request on a listing is confirmed without host approval
+reasons explains why not, so the app can say the booking will be sent as a request
+*/
+async function getInstantBookEligibility(db: Queryable, property_id: string, guest_id: string): Promise<InstantBookEligibility> {
+  const propertyResult = await db.query(
+    'SELECT host_id, instant_book, instant_book_requires_verified FROM properties WHERE property_id = $1',
+    [property_id]
+  );
+  if (propertyResult.rows.length === 0) {
+    throw new ApiError(404, 'Property not found', 'PROPERTY_NOT_FOUND');
+  }
+
+  const property = propertyResult.rows[0];
+  const reasons = [];
+
+  if (!property.instant_book) {
+    reasons.push('instant_book_disabled');
+  }
+
+  if (property.instant_book_requires_verified) {
+    const guestResult = await db.query('SELECT is_verified FROM users WHERE user_id = $1', [guest_id]);
+    if (!guestResult.rows[0]?.is_verified) {
+      reasons.push('guest_not_verified');
+    }
+  }
+
+  return { instant_book: property.instant_book, eligible: reasons.length === 0, reasons };
+}
+
+// Notifications
+
+/*
+Stores a notification and pushes it to the recipient's socket room
+*/
+async function createNotification(
+  data: { user_id: string; type: string; title: string; message: string; related_entity_type?: string | null; related_entity_id?: string | null },
+  db: Queryable = pool
+) {
+  const result = await db.query(
+    `INSERT INTO notifications (notification_id, user_id, type, title, message, related_entity_type, related_entity_id, is_read, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9) RETURNING *`,
+    [
+      `not_${nanoid()}`, data.user_id, data.type, data.title, data.message,
+      data.related_entity_type || null, data.related_entity_id || null, false, new Date().toISOString()
+    ]
+  );
+  const notification = result.rows[0];
+
+  io.to(`user_${notification.user_id}`).emit('notification/created', notification);
+
+  return notification;
+}
+
+/*
+Notifies the other party of a booking status change and emits the matching event
+*/
+async function notifyBookingStatusChange(booking, actor: BookingActor) {
+  let notificationData: NotificationData = {};
+
+  if (booking.status === 'confirmed') {
+    notificationData = {
+      user_id: booking.guest_id,
+      type: 'booking_confirmed',
+      title: 'Booking Confirmed',
+      message: 'Your booking has been confirmed by the host'
+    };
+    io.emit('booking/confirmed', booking);
+  } else if (booking.status === 'declined') {
+    notificationData = {
+      user_id: booking.guest_id,
+      type: 'booking_declined',
+      title: 'Booking Declined',
+      message: 'Your booking request has been declined'
+    };
+    io.emit('booking/declined', booking);
+  } else if (booking.status === 'cancelled') {
+    const cancellation = await pool.query(
+      'SELECT refund_amount, currency FROM booking_cancellations WHERE booking_id = $1',
+      [booking.booking_id]
+    );
+    const refund = cancellation.rows[0];
+    notificationData = {
+      user_id: actor.user_id === booking.guest_id ? booking.host_id : booking.guest_id,
+      type: 'booking_cancelled',
+      title: 'Booking Cancelled',
+      message: refund
+        ? `A booking has been cancelled; the guest is refunded ${parseFloat(refund.refund_amount)} ${refund.currency}`
+        : 'A booking has been cancelled'
+    };
+    io.emit('booking/cancelled', booking);
+  } else if (booking.status === 'expired') {
+    notificationData = {
+      user_id: booking.guest_id,
+      type: 'booking_expired',
+      title: 'Booking Request Expired',
+      message: 'The host did not respond to your booking request in time'
+    };
+    io.emit('booking/expired', booking);
+  } else if (booking.status === 'completed') {
+    io.emit('booking/completed', booking);
+  }
+
+  if (notificationData.user_id) {
+    await createNotification({
+      user_id: notificationData.user_id,
+      type: notificationData.type,
+      title: notificationData.title,
+      message: notificationData.message,
+      related_entity_type: 'booking',
+      related_entity_id: booking.booking_id
+    });
+  }
+
+  io.emit('booking/updated', booking);
+}
+
+// Blind Review Publishing
+
+// Guest and host review a completed stay within this many days of check-out; neither
+// review is shown before both are in or the window has closed
+const REVIEW_WINDOW_DAYS = parseInt(process.env.REVIEW_WINDOW_DAYS || '14');
+
+const isReviewWindowOpen = (booking, now = new Date()): boolean =>
+  toDateOnly(now) < addDays(booking.check_out.slice(0, 10), REVIEW_WINDOW_DAYS);
+
+/*
+Checks that a participant may still review a stay
+*/
+function assertReviewableStay(booking) {
+  if (booking.status !== 'completed') {
+    throw new ApiError(400, 'Cannot review booking that is not completed', 'BOOKING_NOT_COMPLETED');
+  }
+  if (!isReviewWindowOpen(booking)) {
+    throw new ApiError(400, `Reviews can only be written within ${REVIEW_WINDOW_DAYS} days of check-out`, 'REVIEW_WINDOW_CLOSED');
+  }
+}
+
+/*
+Publishes the reviews of a stay once both sides have written theirs, or whatever was
+written once the window has closed. Callers hold the booking lock so that two
+simultaneous submissions cannot both miss each other
+*/
+async function publishBookingReviews(client: PoolClient, booking_id: string, windowClosed = false) {
+  const review = (await client.query('SELECT * FROM reviews WHERE booking_id = $1', [booking_id])).rows[0];
+  const guestReview = (await client.query('SELECT * FROM guest_reviews WHERE booking_id = $1', [booking_id])).rows[0];
+  const published = { review: null, guest_review: null };
+  if (!windowClosed && !(review && guestReview)) {
+    return published;
+  }
+
+  const now = new Date().toISOString();
+  if (review && !review.published_at) {
+    const result = await client.query('UPDATE reviews SET published_at = $1 WHERE review_id = $2 RETURNING *', [now, review.review_id]);
+    published.review = result.rows[0];
+  }
+  if (guestReview && !guestReview.published_at) {
+    const result = await client.query(
+      'UPDATE guest_reviews SET published_at = $1 WHERE guest_review_id = $2 RETURNING *',
+      [now, guestReview.guest_review_id]
+    );
+    published.guest_review = result.rows[0];
+  }
+  return published;
+}
+
+/*
+Emits the creation events of newly published reviews; until then only the
+participants know a review exists
+*/
+async function announcePublishedReviews(published: { review; guest_review }) {
+  if (published.review) {
+    await refreshReviewRatingSummaries(published.review);
+    const [review] = await attachReviewDetails([published.review]);
+    io.emit('review/created', review);
+  }
+  if (published.guest_review) {
+    io.emit('guest_review/created', published.guest_review);
+  }
+}
+
+// Summary of the published reviews hosts have left for a guest
+async function getGuestReputation(guest_id: string) {
+  const reviews = await pool.query(
+    `SELECT COUNT(*) AS review_count, AVG(overall_rating) AS overall_rating, AVG(house_rules_rating) AS house_rules_rating,
+     AVG(cleanliness_rating) AS cleanliness_rating, AVG(communication_rating) AS communication_rating
+     FROM guest_reviews WHERE guest_id = $1 AND published_at IS NOT NULL`,
+    [guest_id]
+  );
+  const stays = await pool.query(`SELECT COUNT(*) FROM bookings WHERE guest_id = $1 AND status = 'completed'`, [guest_id]);
+  const averages = reviews.rows[0];
+  const average = (value) => value === null ? null : Math.round(parseFloat(value) * 100) / 100;
+  return {
+    completed_stays: parseInt(stays.rows[0].count),
+    review_count: parseInt(averages.review_count),
+    overall_rating: average(averages.overall_rating),
+    house_rules_rating: average(averages.house_rules_rating),
+    cleanliness_rating: average(averages.cleanliness_rating),
+    communication_rating: average(averages.communication_rating)
+  };
+}
+
+// Rating Summaries
+
+const RATING_CATEGORIES = ['overall', 'cleanliness', 'accuracy', 'communication', 'location', 'check_in', 'value'];
+const RATING_SUMMARY_COLUMNS = { property: 'property_id', host: 'host_id' };
+
+/*
+Recomputes the stored summary of a property or host from its published reviews.
+Runs after the review change has committed; the advisory lock makes the statement
+start after any concurrent refresh, so the last write always sees every review
+*/
+async function refreshRatingSummary(entity_type: 'property' | 'host', entity_id: string) {
+  await withTransaction(async (client) => {
+    await client.query('SELECT pg_advisory_xact_lock(hashtext($1))', [`rating_summary:${entity_type}:${entity_id}`]);
+    await client.query(
+      `INSERT INTO rating_summaries (
+        entity_type, entity_id, review_count, overall_rating, cleanliness_rating, accuracy_rating, communication_rating,
+        location_rating, check_in_rating, value_rating, rating_1_count, rating_2_count, rating_3_count,
+        rating_4_count, rating_5_count, updated_at
+      )
+      SELECT $1, $2, COUNT(*), ROUND(AVG(overall_rating), 2), ROUND(AVG(cleanliness_rating), 2), ROUND(AVG(accuracy_rating), 2),
+        ROUND(AVG(communication_rating), 2), ROUND(AVG(location_rating), 2), ROUND(AVG(check_in_rating), 2), ROUND(AVG(value_rating), 2),
+        COUNT(*) FILTER (WHERE overall_rating = 1), COUNT(*) FILTER (WHERE overall_rating = 2), COUNT(*) FILTER (WHERE overall_rating = 3),
+        COUNT(*) FILTER (WHERE overall_rating = 4), COUNT(*) FILTER (WHERE overall_rating = 5), $3
+      FROM reviews WHERE ${RATING_SUMMARY_COLUMNS[entity_type]} = $2 AND published_at IS NOT NULL
+      ON CONFLICT (entity_type, entity_id) DO UPDATE SET
+        review_count = EXCLUDED.review_count, overall_rating = EXCLUDED.overall_rating,
+        cleanliness_rating = EXCLUDED.cleanliness_rating, accuracy_rating = EXCLUDED.accuracy_rating,
+        communication_rating = EXCLUDED.communication_rating, location_rating = EXCLUDED.location_rating,
+        check_in_rating = EXCLUDED.check_in_rating, value_rating = EXCLUDED.value_rating,
+        rating_1_count = EXCLUDED.rating_1_count, rating_2_count = EXCLUDED.rating_2_count,
+        rating_3_count = EXCLUDED.rating_3_count, rating_4_count = EXCLUDED.rating_4_count,
+        rating_5_count = EXCLUDED.rating_5_count, updated_at = EXCLUDED.updated_at`,
+      [entity_type, entity_id, new Date().toISOString()]
+    );
+  });
+}
+
+// Called whenever a review is published or removed
+async function refreshReviewRatingSummaries(review) {
+  await refreshRatingSummary('property', review.property_id);
+  await refreshRatingSummary('host', review.host_id);
+}
+
+// API shape of a rating_summaries row; subjects without reviews get an empty summary
+function formatRatingSummary(row) {
+  const summary: Record<string, unknown> = { review_count: row ? row.review_count : 0 };
+  for (const category of RATING_CATEGORIES) {
+    const average = row && row[`${category}_rating`];
+    summary[`${category}_rating`] = average === null || average === undefined ? null : parseFloat(average);
+  }
+  summary.rating_distribution = Object.fromEntries(
+    [1, 2, 3, 4, 5].map(rating => [rating, row ? row[`rating_${rating}_count`] : 0])
+  );
+  return summary;
+}
+
+// Embeds the rating summaries of each property and of its host
+async function attachRatingSummaries(properties) {
+  if (properties.length === 0) {
+    return properties;
+  }
+  const result = await pool.query(
+    `SELECT * FROM rating_summaries
+     WHERE (entity_type = 'property' AND entity_id = ANY($1)) OR (entity_type = 'host' AND entity_id = ANY($2))`,
+    [properties.map(property => property.property_id), properties.map(property => property.host_id)]
+  );
+  const summaries = new Map(result.rows.map(row => [`${row.entity_type}:${row.entity_id}`, row]));
+  return properties.map(property => ({
+    ...property,
+    rating_summary: formatRatingSummary(summaries.get(`property:${property.property_id}`)),
+    host_rating_summary: formatRatingSummary(summaries.get(`host:${property.host_id}`))
+  }));
+}
+
+// Amenities
+
+// Amenity lists arrive as arrays of keys or, from older clients, as comma-separated names
+const splitAmenityEntries = (amenities: string | string[]) =>
+  (Array.isArray(amenities) ? amenities : amenities.split(',')).map(entry => entry.trim()).filter(Boolean);
+
+/*
+Resolves amenity entries against the catalog; an entry may be a key or an English or
+Arabic name. Unknown entries are rejected instead of becoming new amenities. Returns
+the keys and the comma-separated English names stored in properties.amenities
+*/
+async function resolveAmenities(amenities: string | string[]) {
+  const entries = [...new Set(splitAmenityEntries(amenities))];
+  if (entries.length === 0) {
+    return { keys: [], names: null };
+  }
+
+  const result = await pool.query(
+    `SELECT amenity_key, name_en, name_ar FROM amenities
+     WHERE amenity_key = ANY($1) OR lower(name_en) = ANY($1) OR name_ar = ANY($2)
+     ORDER BY display_order, name_en`,
+    [entries.map(entry => entry.toLowerCase()), entries]
+  );
+  const matches = (row, entry: string) =>
+    row.amenity_key === entry.toLowerCase() || row.name_en.toLowerCase() === entry.toLowerCase() || row.name_ar === entry;
+
+  const unknown = entries.filter(entry => !result.rows.some(row => matches(row, entry)));
+  if (unknown.length > 0) {
+    throw new ApiError(400, `Unknown amenities: ${unknown.join(', ')}`, 'UNKNOWN_AMENITY');
+  }
+
+  const rows = result.rows.filter(row => entries.some(entry => matches(row, entry)));
+  return { keys: rows.map(row => row.amenity_key), names: rows.map(row => row.name_en).join(',') };
+}
+
+// Replaces the amenities of a listing; runs in the transaction that writes properties.amenities
+async function savePropertyAmenities(client: PoolClient, property_id: string, keys: string[]) {
+  await client.query('DELETE FROM property_amenities WHERE property_id = $1', [property_id]);
+  if (keys.length > 0) {
+    await client.query(
+      `INSERT INTO property_amenities (property_id, amenity_key) SELECT $1, unnest($2::text[])`,
+      [property_id, keys]
+    );
+  }
+}
+
+// Background Jobs
+
+const JOB_POLL_INTERVAL_MS = parseInt(process.env.JOB_POLL_INTERVAL_MS || '60000');
+const JOB_BATCH_SIZE = parseInt(process.env.JOB_BATCH_SIZE || '20');
+const JOB_MAX_ATTEMPTS = parseInt(process.env.JOB_MAX_ATTEMPTS || '5');
+// A running job whose lock is older than this is assumed to belong to a dead worker
+const JOB_LOCK_TIMEOUT_MS = parseInt(process.env.JOB_LOCK_TIMEOUT_MS || '600000');
+const PENDING_BOOKING_EXPIRY_HOURS = parseInt(process.env.PENDING_BOOKING_EXPIRY_HOURS || '24');
+const CHECK_IN_REMINDER_DAYS = 1;
+
+const JOB_WORKER_ID = `worker_${nanoid()}`;
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+/*
+Queues a job unless one with the same dedupe_key already exists, which makes
+scheduling idempotent: each booking gets at most one job of every kind
+*/
+async function enqueueJob(
+  db: Queryable,
+  job: { job_type: string; dedupe_key: string; payload: Record<string, unknown>; run_at?: string }
+) {
+  const now = new Date().toISOString();
+  const result = await db.query(
+    `INSERT INTO jobs (job_id, job_type, dedupe_key, payload, status, attempts, max_attempts, run_at, created_at, updated_at)
+     VALUES ($1, $2, $3, $4, 'pending', 0, $5, $6, $7, $7)
+     ON CONFLICT (dedupe_key) DO NOTHING RETURNING *`,
+    [`job_${nanoid()}`, job.job_type, job.dedupe_key, JSON.stringify(job.payload), JOB_MAX_ATTEMPTS, job.run_at || now, now]
+  );
+  return result.rows[0] || null;
+}
+
+/*
+Loads a booking for a job inside its transaction, or null once it has left the
+expected status so a repeated run does nothing
+*/
+async function lockBookingInStatus(client: PoolClient, booking_id: string, status: string) {
+  const result = await client.query('SELECT * FROM bookings WHERE booking_id = $1 FOR UPDATE', [booking_id]);
+  const booking = result.rows[0];
+  return booking && booking.status === status ? booking : null;
+}
+
+/*
+Job handlers keyed by job_type; each receives the parsed payload and must be
+safe to run more than once
+*/
+const JOB_HANDLERS: Record<string, (payload: Record<string, string>) => Promise<void>> = {
+  complete_booking: async ({ booking_id }) => {
+    const booking = await withTransaction(async (client) => {
+      const current = await lockBookingInStatus(client, booking_id, 'confirmed');
+      return current ? transitionBookingStatus(client, current, 'completed', SYSTEM_ACTOR, 'Stay ended') : null;
+    });
+    if (booking) {
+      await notifyBookingStatusChange(booking, SYSTEM_ACTOR);
+    }
+  },
+
+  expire_booking: async ({ booking_id }) => {
+    const booking = await withTransaction(async (client) => {
+      const current = await lockBookingInStatus(client, booking_id, 'pending');
+      return current ? transitionBookingStatus(client, current, 'expired', SYSTEM_ACTOR, 'Host did not respond in time') : null;
+    });
+    if (booking) {
+      await notifyBookingStatusChange(booking, SYSTEM_ACTOR);
+    }
+  },
+
+  check_in_reminder: async ({ booking_id }) => {
+    const result = await pool.query(
+      `SELECT b.booking_id, b.guest_id, b.check_in, b.status, p.title
+       FROM bookings b JOIN properties p ON p.property_id = b.property_id
+       WHERE b.booking_id = $1`,
+      [booking_id]
+    );
+    const booking = result.rows[0];
+    if (!booking || booking.status !== 'confirmed') return;
+
+    await createNotification({
+      user_id: booking.guest_id,
+      type: 'check_in_reminder',
+      title: 'Upcoming Stay',
+      message: `Your stay at ${booking.title} starts on ${booking.check_in.slice(0, 10)}`,
+      related_entity_type: 'booking',
+      related_entity_id: booking.booking_id
+    });
+  },
+
+  review_reminder: async ({ booking_id }) => {
+    const result = await pool.query(
+      `SELECT b.booking_id, b.guest_id, b.status, p.title
+       FROM bookings b JOIN properties p ON p.property_id = b.property_id
+       WHERE b.booking_id = $1 AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.booking_id = b.booking_id)`,
+      [booking_id]
+    );
+    const booking = result.rows[0];
+    if (!booking || booking.status !== 'completed') return;
+
+    await createNotification({
+      user_id: booking.guest_id,
+      type: 'review_reminder',
+      title: 'How was your stay?',
+      message: `Leave a review for ${booking.title}`,
+      related_entity_type: 'booking',
+      related_entity_id: booking.booking_id
+    });
+  },
+
+  // Reviews still hidden when the window closes are published without their counterpart
+  publish_reviews: async ({ booking_id }) => {
+    const published = await withTransaction(async (client) => {
+      await client.query('SELECT booking_id FROM bookings WHERE booking_id = $1 FOR UPDATE', [booking_id]);
+      return publishBookingReviews(client, booking_id, true);
+    });
+    await announcePublishedReviews(published);
+  },
+
+  generate_photo_renditions: async ({ photo_table, photo_id }) => {
+    const photo = await generateStoredPhotoRenditions(photo_table, photo_id);
+    if (photo) {
+      io.emit(photo_table === 'property_photos' ? 'property_photo/updated' : 'review_photo/updated', photo);
+    }
+  },
+
+  sync_ical_import: async ({ import_id }) => {
+    await syncCalendarImport(import_id);
+  },
+
+  // One-off backfill for photos stored before renditions existed
+  backfill_photo_renditions: async () => {
+    for (const photo_table of PHOTO_TABLES) {
+      const result = await pool.query(`SELECT photo_id, photo_url FROM ${photo_table} WHERE blurhash IS NULL`);
+      for (const photo of result.rows) {
+        await enqueuePhotoRenditions(pool, photo_table, photo);
+      }
+    }
+  }
+};
+
+/*
+Finds bookings that need lifecycle work and queues one job per booking and kind
+*/
+async function scheduleLifecycleJobs(now = new Date()) {
+  const today = toDateOnly(now);
+  const expiryCutoff = new Date(now.getTime() - PENDING_BOOKING_EXPIRY_HOURS * 3600000).toISOString();
+
+  const scans: { job_type: string; query: string; params: string[] }[] = [
+    {
+      job_type: 'complete_booking',
+      query: `SELECT booking_id FROM bookings WHERE status = 'confirmed' AND left(check_out, 10) <= $1`,
+      params: [today]
+    },
+    {
+      // requests also lapse once their check-in day arrives unanswered
+      job_type: 'expire_booking',
+      query: `SELECT booking_id FROM bookings WHERE status = 'pending' AND (created_at < $1 OR left(check_in, 10) <= $2)`,
+      params: [expiryCutoff, today]
+    },
+    {
+      job_type: 'check_in_reminder',
+      query: `SELECT booking_id FROM bookings WHERE status = 'confirmed' AND left(check_in, 10) > $1 AND left(check_in, 10) <= $2`,
+      params: [today, addDays(today, CHECK_IN_REMINDER_DAYS)]
+    },
+    {
+      job_type: 'review_reminder',
+      query: `SELECT b.booking_id FROM bookings b
+              WHERE b.status = 'completed' AND left(b.check_out, 10) >= $1
+              AND NOT EXISTS (SELECT 1 FROM reviews r WHERE r.booking_id = b.booking_id)`,
+      params: [addDays(today, -REVIEW_WINDOW_DAYS)]
+    },
+    {
+      job_type: 'publish_reviews',
+      query: `SELECT b.booking_id FROM bookings b
+              WHERE left(b.check_out, 10) <= $1
+              AND (EXISTS (SELECT 1 FROM reviews r WHERE r.booking_id = b.booking_id AND r.published_at IS NULL)
+                OR EXISTS (SELECT 1 FROM guest_reviews g WHERE g.booking_id = b.booking_id AND g.published_at IS NULL))`,
+      params: [addDays(today, -REVIEW_WINDOW_DAYS)]
+    }
+  ];
+
+  let queued = 0;
+  for (const scan of scans) {
+    const result = await pool.query(scan.query, scan.params);
+    for (const row of result.rows) {
+      const job = await enqueueJob(pool, {
+        job_type: scan.job_type,
+        dedupe_key: `${scan.job_type}:${row.booking_id}`,
+        payload: { booking_id: row.booking_id }
+      });
+      if (job) queued++;
+    }
+  }
+  return queued;
+}
+
+/*
+Queues one pull per linked calendar and sync interval; uploaded calendars are not pulled
+*/
+async function scheduleCalendarImports(now = new Date()) {
+  const slot = Math.floor(now.getTime() / (ICAL_SYNC_INTERVAL_MINUTES * 60000));
+  const result = await pool.query('SELECT import_id FROM ical_imports WHERE source_url IS NOT NULL');
+
+  let queued = 0;
+  for (const row of result.rows) {
+    const job = await enqueueJob(pool, {
+      job_type: 'sync_ical_import',
+      dedupe_key: `sync_ical_import:${row.import_id}:${slot}`,
+      payload: { import_id: row.import_id }
+    });
+    if (job) queued++;
+  }
+  return queued;
+}
+
+/*
+Claims due jobs for this worker, including running jobs whose lock has expired
+SKIP LOCKED lets several backend instances share the queue
+*/
+async function claimDueJobs(limit: number) {
+  const now = new Date();
+  const staleBefore = new Date(now.getTime() - JOB_LOCK_TIMEOUT_MS).toISOString();
+  const result = await pool.query(
+    `UPDATE jobs SET status = 'running', attempts = attempts + 1, locked_at = $1, locked_by = $2, updated_at = $1
+     WHERE job_id IN (
+       SELECT job_id FROM jobs
+       WHERE (status = 'pending' AND run_at <= $1) OR (status = 'running' AND locked_at < $3)
+       ORDER BY run_at ASC
+       LIMIT $4
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING *`,
+    [now.toISOString(), JOB_WORKER_ID, staleBefore, limit]
+  );
+  return result.rows;
+}
+
+/*
+Runs one claimed job and records the outcome
+Failures are retried with exponential backoff until max_attempts is reached
+*/
+async function runJob(job) {
+  const now = new Date();
+  try {
+    const handler = JOB_HANDLERS[job.job_type];
+    if (!handler) {
+      throw new Error(`Unknown job type ${job.job_type}`);
+    }
+    await handler(JSON.parse(job.payload));
+
+    await pool.query(
+      `UPDATE jobs SET status = 'completed', last_error = NULL, locked_at = NULL, locked_by = NULL,
+       completed_at = $1, updated_at = $1 WHERE job_id = $2`,
+      [new Date().toISOString(), job.job_id]
+    );
+  } catch (error) {
+    console.error(`Job ${job.job_id} (${job.job_type}) failed:`, error);
+    const retryAt = new Date(now.getTime() + Math.pow(2, job.attempts) * 60000).toISOString();
+    await pool.query(
+      `UPDATE jobs SET status = $1, run_at = $2, last_error = $3, locked_at = NULL, locked_by = NULL, updated_at = $4
+       WHERE job_id = $5`,
+      [job.attempts < job.max_attempts ? 'pending' : 'failed', retryAt, String(error.message || error), now.toISOString(), job.job_id]
+    );
+  }
+}
+
+/*
+One scheduler pass: queue lifecycle and calendar sync jobs, then run whatever is due
+*/
+async function runJobsOnce() {
+  const queued = await scheduleLifecycleJobs() + await scheduleCalendarImports();
+  const jobs = await claimDueJobs(JOB_BATCH_SIZE);
+  for (const job of jobs) {
+    await runJob(job);
+  }
+  return { queued, processed: jobs.length };
+}
+
+/*
+Polls the job queue in the background; passes never overlap
+*/
+function startJobRunner() {
+  let running = false;
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      await runJobsOnce();
+    } catch (error) {
+      console.error('Job runner error:', error);
+    } finally {
+      running = false;
+    }
+  }, JOB_POLL_INTERVAL_MS);
+  timer.unref();
+}
+
+/*
+Authentication middleware for protected routes
+Validates JWT token and its session, and attaches user information to request object
+Tokens issued before sessions existed carry no session_id and stay valid until they expire
+*/
+const authenticateToken = async (req, res, next) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  if (!token) {
+    return res.status(401).json(createErrorResponse('Access token required', null, 'AUTH_TOKEN_MISSING'));
+  }
+
+  try {
+    const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+    const userId = decoded.user_id || decoded.userId;
+    const result = await pool.query('SELECT user_id, email, name, role, created_at FROM users WHERE user_id = $1', [userId]);
+    
+    if (result.rows.length === 0) {
+      return res.status(401).json(createErrorResponse('Invalid token', null, 'AUTH_TOKEN_INVALID'));
+    }
+
+    // Tokens from before sessions existed name none and could never be revoked, so
+    // their holders sign in again
+    if (!decoded.session_id) {
+      return res.status(401).json(createErrorResponse('Token has no session; sign in again', null, 'AUTH_TOKEN_INVALID'));
+    }
+
+    if (!(await isSessionActive(decoded.session_id, userId))) {
+      return res.status(401).json(createErrorResponse('Session has been revoked', null, 'SESSION_REVOKED'));
+    }
+
+    req.user = result.rows[0];
+    req.session_id = decoded.session_id;
+    next();
+  } catch (error) {
+    if (error.name === 'TokenExpiredError') {
+      return res.status(401).json(createErrorResponse('Access token expired', null, 'AUTH_TOKEN_EXPIRED'));
+    }
+    return res.status(403).json(createErrorResponse('Invalid or expired token', error, 'AUTH_TOKEN_INVALID'));
+  }
+};
+
+/*
+Admin-only guard, used after authenticateToken
+*/
+const requireAdmin = (req, res, next) => {
+  if (req.user.role !== 'admin') {
+    return res.status(403).json(createErrorResponse('Forbidden: Admin access required', null, 'FORBIDDEN_ACCESS'));
+  }
+  next();
+};
+
+/*
+WebSocket authentication middleware
+Validates JWT token in socket handshake and attaches user information
+*/
+io.use(async (socket, next) => {
+  try {
+    const token = socket.handshake.auth.token;
+    if (!token) {
+      return next(new Error('Authentication token required'));
+    }
+
+    const decoded = jwt.verify(token, JWT_SECRET) as JwtPayload;
+    const userId = decoded.user_id || decoded.userId;
+    const result = await pool.query('SELECT user_id, email, name, role FROM users WHERE user_id = $1', [userId]);
+    
+    if (result.rows.length === 0) {
+      return next(new Error('Invalid token'));
+    }
+
+    if (!decoded.session_id) {
+      return next(new Error('Token has no session'));
+    }
+
+    if (!(await isSessionActive(decoded.session_id, userId))) {
+      return next(new Error('Session has been revoked'));
+    }
+
+    socket.user = result.rows[0];
+    socket.data.session_id = decoded.session_id;
+    next();
+  } catch (error) {
+    next(new Error('Authentication failed'));
+  }
+});
+
+// Pagination
+
+const MAX_PAGE_SIZE = 100;
+
+type SortKey = { expression: string; direction: 'ASC' | 'DESC' };
+
+type PageQuery = {
+  // Columns to return; the sort keys are selected next to them to build the cursor
+  select: string;
+  from: string;
+  where: string;
+  params: unknown[];
+  // Names the ordering so a cursor is only accepted by the ordering that issued it
+  sort: string;
+  // The last key must be unique, e.g. the primary key, so rows never tie
+  order: SortKey[];
+  limit: number;
+  offset?: number;
+  cursor?: string;
+};
+
+function decodeCursor(cursor: string, sort: string, length: number): unknown[] {
+  try {
+    const { s, v } = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+    if (s === sort && Array.isArray(v) && v.length === length) {
+      return v;
+    }
+  } catch {
+    // Malformed cursors get the same error as mismatched ones
+  }
+  throw new ApiError(400, 'Invalid cursor for this listing; start again from the first page', 'INVALID_CURSOR');
+}
+
+/*
+Runs one page of a list query and counts every row matching its filters. A cursor
+holds the sort values of the last row returned and the next page starts strictly
+after that row, so rows added in the meantime never shift pages the way offsets do.
+offset is still honored when no cursor is given; next_cursor is null on the last page
+*/
+async function fetchPage(query: PageQuery, db: Queryable = pool) {
+  const params = [...query.params];
+  const param = (value) => `$${params.push(value)}`;
+  let where = query.where;
+
+  if (query.cursor) {
+    const values = decodeCursor(query.cursor, query.sort, query.order.length);
+    // (key1, key2, ...) after the cursor, each key compared in its own direction
+    const after = query.order.map((key, i) => [
+      ...query.order.slice(0, i).map((previous, j) => `${previous.expression} = ${param(values[j])}`),
+      `${key.expression} ${key.direction === 'ASC' ? '>' : '<'} ${param(values[i])}`
+    ].join(' AND '));
+    where = `(${where}) AND ((${after.join(') OR (')}))`;
+  }
+
+  const limit = Math.min(Math.max(query.limit || 10, 1), MAX_PAGE_SIZE);
+  const offset = query.cursor ? 0 : Math.max(query.offset || 0, 0);
+  const result = await db.query(
+    `SELECT ${query.select}, ${query.order.map((key, i) => `${key.expression} AS cursor_key_${i}`).join(', ')}
+     FROM ${query.from} WHERE ${where}
+     ORDER BY ${query.order.map(key => `${key.expression} ${key.direction}`).join(', ')}
+     LIMIT ${param(limit + 1)} OFFSET ${param(offset)}`,
+    params
+  );
+  const count = await db.query(`SELECT COUNT(*) FROM ${query.from} WHERE ${query.where}`, query.params);
+
+  const rows = result.rows.slice(0, limit);
+  const last = rows[rows.length - 1];
+  const next_cursor = result.rows.length > limit
+    ? Buffer.from(JSON.stringify({ s: query.sort, v: query.order.map((_, i) => last[`cursor_key_${i}`]) })).toString('base64url')
+    : null;
+  for (const row of rows) {
+    query.order.forEach((_, i) => delete row[`cursor_key_${i}`]);
+  }
+
+  return { rows, total_count: parseInt(count.rows[0].count), next_cursor };
+}
+
+// Endpoints answering with a bare array report the page in headers, keeping the body unchanged
+function setPageHeaders(res, page: { total_count: number; next_cursor: string | null }) {
+  res.set('X-Total-Count', String(page.total_count));
+  if (page.next_cursor) {
+    res.set('X-Next-Cursor', page.next_cursor);
+  }
+}
+
+// Authentication Routes
+
+/*
+User registration endpoint
+Creates new user account with comprehensive validation and Libya-specific fields
+Returns user object and JWT token for immediate authentication
+*/
+app.post('/api/auth/register', async (req, res) => {
+  try {
+    const validatedData = createUserInputSchema.parse(req.body);
+    const { email, password, name, profile_picture_url, bio, emergency_contact_name, emergency_contact_phone, role, verification_document_url } = validatedData;
+    // Libyan numbers are stored in one canonical form so uniqueness holds across formats
+    const phone_number = normalizeLibyanPhone(validatedData.phone_number) || validatedData.phone_number.trim();
+
+    // Stored files are attached through the upload endpoints only, so a new account
+    // never points at, and later deletes, a file uploaded for someone else
+    for (const [column, url] of Object.entries({ profile_picture_url, verification_document_url })) {
+      if (storedFilePath(url)) {
+        return res.status(400).json(createErrorResponse(`${column} must be set through the upload endpoint`, null, 'INVALID_FILE_URL'));
+      }
+    }
+
+    // Check if user exists
+    const existingUser = await pool.query('SELECT user_id FROM users WHERE email = $1 OR phone_number = $2', [email, phone_number]);
+    if (existingUser.rows.length > 0) {
+      return res.status(409).json(createErrorResponse('User with this email or phone number already exists', null, 'USER_ALREADY_EXISTS'));
+    }
+
+    // Generate unique user ID
+    const user_id = `user_${nanoid()}`;
+
+    const password_hash = await hashPassword(password);
+
+    const result = await pool.query(
+      `INSERT INTO users (user_id, email, phone_number, password_hash, name, profile_picture_url, bio, 
+       emergency_contact_name, emergency_contact_phone, role, is_verified, verification_document_url, 
+       created_at, updated_at) 
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14) 
+       RETURNING user_id, email, phone_number, phone_verified, name, profile_picture_url, bio, emergency_contact_name, 
+       emergency_contact_phone, role, is_verified, verification_document_url, created_at, updated_at`,
+      [user_id, email.toLowerCase().trim(), phone_number, password_hash, name.trim(), profile_picture_url, bio, 
+       emergency_contact_name, emergency_contact_phone, role, false, verification_document_url, 
+       new Date().toISOString(), new Date().toISOString()]
+    );
+
+    const user = result.rows[0];
+
+    const { token, refresh_token } = await createSession(user, req);
+
+    // Emit WebSocket event
+    io.emit('user/created', user);
+
+    res.status(201).json({
+      user,
+      token,
+      refresh_token
+    });
+  } catch (error) {
+    console.error('Registration error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+User login endpoint
+Authenticates user credentials and returns JWT token
+Legacy plain-text passwords are replaced by a hash on the first successful login
+*/
+app.post('/api/auth/login', async (req, res) => {
+  try {
+    const { email, password } = req.body;
+
+    if (!email || !password) {
+      return res.status(400).json(createErrorResponse('Email and password are required', null, 'MISSING_REQUIRED_FIELDS'));
+    }
+
+    const result = await pool.query('SELECT * FROM users WHERE email = $1', [email.toLowerCase().trim()]);
+    if (result.rows.length === 0) {
+      await verifyPassword(password, DUMMY_PASSWORD_HASH);
+      return res.status(401).json(createErrorResponse('Invalid email or password', null, 'INVALID_CREDENTIALS'));
+    }
+
+    const user = result.rows[0];
+
+    const { valid, needs_rehash } = await verifyPassword(password, user.password_hash);
+    if (!valid) {
+      return res.status(401).json(createErrorResponse('Invalid email or password', null, 'INVALID_CREDENTIALS'));
+    }
+
+    if (needs_rehash) {
+      await pool.query('UPDATE users SET password_hash = $1 WHERE user_id = $2', [await hashPassword(password), user.user_id]);
+    }
+
+    const { token, refresh_token } = await createSession(user, req);
+
+    const userResponse = {
+      user_id: user.user_id,
+      email: user.email,
+      phone_number: user.phone_number,
+      phone_verified: user.phone_verified,
+      name: user.name,
+      profile_picture_url: user.profile_picture_url,
+      bio: user.bio,
+      emergency_contact_name: user.emergency_contact_name,
+      emergency_contact_phone: user.emergency_contact_phone,
+      role: user.role,
+      is_verified: user.is_verified,
+      verification_document_url: user.verification_document_url,
+      created_at: user.created_at,
+      updated_at: user.updated_at
+    };
+
+    res.json({
+      user: userResponse,
+      token,
+      refresh_token
+    });
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Change password endpoint
+Requires the current password and stores a fresh hash of the new one
+*/
+app.post('/api/auth/change-password', authenticateToken, async (req, res) => {
+  try {
+    const { current_password, new_password } = changePasswordInputSchema.parse(req.body);
+
+    const result = await pool.query('SELECT password_hash FROM users WHERE user_id = $1', [req.user.user_id]);
+    const { valid } = await verifyPassword(current_password, result.rows[0].password_hash);
+    if (!valid) {
+      return res.status(401).json(createErrorResponse('Current password is incorrect', null, 'INVALID_CREDENTIALS'));
+    }
+
+    await pool.query(
+      'UPDATE users SET password_hash = $1, updated_at = $2 WHERE user_id = $3',
+      [await hashPassword(new_password), new Date().toISOString(), req.user.user_id]
+    );
+
+    // Other devices must sign in again with the new password
+    await revokeOtherSessions(req.user.user_id, req.session_id);
+
+    res.json({
+      message: 'Password changed successfully'
+    });
+  } catch (error) {
+    console.error('Change password error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Send phone verification code endpoint
+Texts a one-time code to the user's Libyan mobile number, or to a new number
+they want to switch to; resends are throttled per user
+*/
+app.post('/api/auth/phone/send-code', authenticateToken, async (req, res) => {
+  try {
+    const { phone_number } = sendPhoneCodeInputSchema.parse(req.body);
+
+    const userResult = await pool.query('SELECT phone_number FROM users WHERE user_id = $1', [req.user.user_id]);
+    const target = normalizeLibyanPhone(phone_number || userResult.rows[0].phone_number);
+    if (!target) {
+      return res.status(400).json(createErrorResponse('Only Libyan mobile numbers (+218 9x) can be verified', null, 'INVALID_PHONE_NUMBER'));
+    }
+
+    const taken = await pool.query('SELECT 1 FROM users WHERE phone_number = $1 AND user_id <> $2', [target, req.user.user_id]);
+    if (taken.rows.length > 0) {
+      return res.status(409).json(createErrorResponse('Phone number is already registered to another account', null, 'PHONE_NUMBER_TAKEN'));
+    }
+
+    const now = new Date();
+    const recent = await pool.query(
+      `SELECT created_at FROM phone_verifications WHERE user_id = $1 AND created_at > $2 ORDER BY created_at DESC`,
+      [req.user.user_id, new Date(now.getTime() - 3600000).toISOString()]
+    );
+    if (recent.rows.length >= OTP_MAX_SENDS_PER_HOUR) {
+      return res.status(429).json(createErrorResponse('Too many verification codes requested, try again later', null, 'OTP_SEND_LIMIT_REACHED'));
+    }
+    if (recent.rows.length > 0) {
+      const resendAt = new Date(new Date(recent.rows[0].created_at).getTime() + OTP_RESEND_INTERVAL_SECONDS * 1000);
+      if (resendAt > now) {
+        res.set('Retry-After', String(Math.ceil((resendAt.getTime() - now.getTime()) / 1000)));
+        return res.status(429).json(createErrorResponse('Please wait before requesting another code', null, 'OTP_RESEND_TOO_SOON'));
+      }
+    }
+
+    const verification_id = `pver_${nanoid()}`;
+    const code = crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    const expires_at = new Date(now.getTime() + OTP_TTL_MINUTES * 60000).toISOString();
+
+    // Only the newest code is valid
+    await pool.query(
+      'UPDATE phone_verifications SET expires_at = $1 WHERE user_id = $2 AND consumed_at IS NULL AND expires_at > $1',
+      [now.toISOString(), req.user.user_id]
+    );
+    await pool.query(
+      `INSERT INTO phone_verifications (verification_id, user_id, phone_number, code_hash, attempts, expires_at, created_at)
+       VALUES ($1, $2, $3, $4, 0, $5, $6)`,
+      [verification_id, req.user.user_id, target, hashOtp(verification_id, code), expires_at, now.toISOString()]
+    );
+
+    await smsProvider.send(target, `Your LibyaStay verification code is ${code}. It expires in ${OTP_TTL_MINUTES} minutes.`);
+
+    res.json({
+      phone_number: target,
+      expires_at,
+      resend_available_at: new Date(now.getTime() + OTP_RESEND_INTERVAL_SECONDS * 1000).toISOString()
+    });
+  } catch (error) {
+    console.error('Send phone code error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Verify phone code endpoint
+Checks the latest code sent to the user; on success the number it was sent to
+becomes the user's verified phone number
+*/
+app.post('/api/auth/phone/verify', authenticateToken, async (req, res) => {
+  try {
+    const { code } = verifyPhoneCodeInputSchema.parse(req.body);
+    const now = new Date().toISOString();
+
+    const result = await pool.query(
+      `SELECT * FROM phone_verifications
+       WHERE user_id = $1 AND consumed_at IS NULL AND expires_at > $2
+       ORDER BY created_at DESC LIMIT 1`,
+      [req.user.user_id, now]
+    );
+    const verification = result.rows[0];
+    if (!verification) {
+      return res.status(400).json(createErrorResponse('No active verification code, request a new one', null, 'OTP_EXPIRED'));
+    }
+
+    // The attempt is claimed before the code is compared, so parallel guesses cannot
+    // all pass the limit check
+    const claimed = await pool.query(
+      `UPDATE phone_verifications SET attempts = attempts + 1
+       WHERE verification_id = $1 AND attempts < $2 AND consumed_at IS NULL RETURNING attempts`,
+      [verification.verification_id, OTP_MAX_ATTEMPTS]
+    );
+    if (claimed.rows.length === 0) {
+      return res.status(429).json(createErrorResponse('Too many incorrect attempts, request a new code', null, 'OTP_TOO_MANY_ATTEMPTS'));
+    }
+
+    const given = Buffer.from(hashOtp(verification.verification_id, code));
+    const expected = Buffer.from(verification.code_hash);
+    if (!crypto.timingSafeEqual(given, expected)) {
+      return res.status(400).json(createErrorResponse(
+        `Incorrect code, ${OTP_MAX_ATTEMPTS - claimed.rows[0].attempts} attempts remaining`, null, 'OTP_INVALID'
+      ));
+    }
+
+    const updatedUser = await withTransaction(async (client) => {
+      const consumed = await client.query(
+        'UPDATE phone_verifications SET consumed_at = $1 WHERE verification_id = $2 AND consumed_at IS NULL',
+        [now, verification.verification_id]
+      );
+      if (consumed.rowCount === 0) {
+        throw new ApiError(400, 'No active verification code, request a new one', 'OTP_EXPIRED');
+      }
+      const updated = await client.query(
+        `UPDATE users SET phone_number = $1, phone_verified = true, phone_verified_at = $2, updated_at = $2
+         WHERE user_id = $3
+         RETURNING user_id, email, phone_number, phone_verified, phone_verified_at, name, profile_picture_url, bio,
+         emergency_contact_name, emergency_contact_phone, role, is_verified,
+         verification_document_url, created_at, updated_at`,
+        [verification.phone_number, now, req.user.user_id]
+      );
+      return updated.rows[0];
+    });
+
+    io.emit('user/updated', updatedUser);
+
+    res.json(updatedUser);
+  } catch (error) {
+    console.error('Verify phone code error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    if (error.code === UNIQUE_VIOLATION) {
+      return res.status(409).json(createErrorResponse('Phone number is already registered to another account', null, 'PHONE_NUMBER_TAKEN'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Refresh token endpoint
+Exchanges a refresh token for a new access token and rotates the refresh token
+Presenting an already rotated token means it leaked, so the session is revoked
+*/
+app.post('/api/auth/refresh', async (req, res) => {
+  try {
+    const { refresh_token } = refreshTokenInputSchema.parse(req.body);
+    const session_id = refresh_token.split('.')[0];
+
+    const result = await pool.query(
+      `SELECT s.*, u.email FROM sessions s JOIN users u ON u.user_id = s.user_id WHERE s.session_id = $1`,
+      [session_id]
+    );
+    const session = result.rows[0];
+    const now = new Date().toISOString();
+
+    if (!session || session.revoked_at || session.expires_at <= now) {
+      return res.status(401).json(createErrorResponse('Invalid or expired refresh token', null, 'REFRESH_TOKEN_INVALID'));
+    }
+
+    const next = newRefreshToken(session_id);
+    const rotated = await pool.query(
+      `UPDATE sessions SET refresh_token_hash = $1, last_used_at = $2
+       WHERE session_id = $3 AND refresh_token_hash = $4 AND revoked_at IS NULL RETURNING session_id`,
+      [next.refresh_token_hash, now, session_id, hashToken(refresh_token)]
+    );
+
+    if (rotated.rows.length === 0) {
+      await revokeSessions(session.user_id, [session_id]);
+      return res.status(401).json(createErrorResponse('Refresh token has already been used', null, 'REFRESH_TOKEN_REUSED'));
+    }
+
+    res.json({
+      token: issueAccessToken({ user_id: session.user_id, email: session.email }, session_id),
+      refresh_token: next.refresh_token
+    });
+  } catch (error) {
+    console.error('Refresh token error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+User logout endpoint
+Revokes the session the access token belongs to
+*/
+app.post('/api/auth/logout', authenticateToken, async (req, res) => {
+  try {
+    if (req.session_id) {
+      await revokeSessions(req.user.user_id, [req.session_id]);
+    }
+
+    res.json({
+      message: 'Logout successful'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+List sessions endpoint
+Shows the devices currently signed in to the account
+*/
+app.get('/api/auth/sessions', authenticateToken, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT session_id, user_agent, ip_address, created_at, last_used_at, expires_at
+       FROM sessions WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > $2
+       ORDER BY last_used_at DESC`,
+      [req.user.user_id, new Date().toISOString()]
+    );
+
+    res.json(result.rows.map(session => ({ ...session, is_current: session.session_id === req.session_id })));
+  } catch (error) {
+    console.error('List sessions error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Revoke other sessions endpoint
+Signs out every device except the one making the request
+*/
+app.delete('/api/auth/sessions', authenticateToken, async (req, res) => {
+  try {
+    const revokedCount = await revokeOtherSessions(req.user.user_id, req.session_id);
+
+    res.json({
+      message: 'Other sessions revoked',
+      revoked_count: revokedCount
+    });
+  } catch (error) {
+    console.error('Revoke sessions error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Revoke session endpoint
+Signs out a single device of the current user
+*/
+app.delete('/api/auth/sessions/:session_id', authenticateToken, async (req, res) => {
+  try {
+    const { session_id } = req.params;
+
+    const result = await pool.query(
+      'SELECT session_id FROM sessions WHERE session_id = $1 AND user_id = $2 AND revoked_at IS NULL',
+      [session_id, req.user.user_id]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Session not found', null, 'SESSION_NOT_FOUND'));
+    }
+
+    await revokeSessions(req.user.user_id, [session_id]);
+
+    res.json({
+      message: 'Session revoked'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Token verification endpoint
+Validates JWT token and returns user information
+*/
+app.get('/api/auth/verify', authenticateToken, (req, res) => {
+  // Get the token from the authorization header
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+  
+  res.json({
+    user: req.user,
+    token: token,
+    valid: true
+  });
+});
+
+// User Management Routes
+
+/*
+Get user profile endpoint
+Retrieves public user profile information by user ID
+*/
+app.get('/api/users/:user_id', async (req, res) => {
+  try {
+    const { user_id } = req.params;
+
+    const result = await pool.query(
+      `SELECT user_id, email, phone_number, phone_verified, name, profile_picture_url, bio, 
+       emergency_contact_name, emergency_contact_phone, role, is_verified, 
+       verification_document_url, created_at, updated_at 
+       FROM users WHERE user_id = $1`, 
+      [user_id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('User not found', null, 'USER_NOT_FOUND'));
+    }
+
+    const user = result.rows[0];
+    if (user.role === 'host') {
+      user.host_stats = await getHostStats(user_id);
+    }
+    user.guest_reputation = await getGuestReputation(user_id);
+
+    res.json(user);
+  } catch (error) {
+    console.error('Get user error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Update user profile endpoint
+Updates user profile information with ownership validation
 */
 app.patch('/api/users/:user_id', authenticateToken, async (req, res) => {
   try {
-    const { user_id } = req.params;
+    const { user_id } = req.params;
+    
+    // Check ownership
+    if (req.user.user_id !== user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot update other user profiles', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const updateData = updateUserInputSchema.parse({ ...req.body, user_id });
+
+    // Identity verification is granted by admins only
+    if (updateData.is_verified !== undefined && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Only admins can change identity verification', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    // Roles are granted by admins only, so nobody can promote themselves
+    if (updateData.role !== undefined && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Only admins can change user roles', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    // Stored files are attached through the upload endpoints only, so a profile never
+    // points at, and later deletes, a file uploaded for someone else
+    const current = await pool.query(
+      'SELECT profile_picture_url, verification_document_url, profile_picture_file, verification_document_file FROM users WHERE user_id = $1',
+      [user_id]
+    );
+    const replaced = Object.values(USER_FILE_UPLOADS).filter(config =>
+      updateData[config.column] !== undefined && updateData[config.column] !== current.rows[0]?.[config.column]
+    );
+    for (const config of replaced) {
+      if (storedFilePath(updateData[config.column])) {
+        return res.status(400).json(createErrorResponse(`${config.column} must be set through the upload endpoint`, null, 'INVALID_FILE_URL'));
+      }
+    }
+    
+    // Build dynamic update query
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    // The uploaded file of a replaced URL no longer belongs to the profile
+    for (const config of replaced) {
+      updateFields.push(`${config.fileColumn} = NULL`);
+    }
+
+    // A new number has to be verified again
+    if (updateData.phone_number !== undefined) {
+      updateData.phone_number = normalizeLibyanPhone(updateData.phone_number) || updateData.phone_number.trim();
+      updateFields.push('phone_verified = false', 'phone_verified_at = NULL');
+    }
+
+    for (const [key, value] of Object.entries(updateData)) {
+      if (key !== 'user_id' && value !== undefined) {
+        updateFields.push(`${key} = $${paramCount}`);
+        updateValues.push(value);
+        paramCount++;
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
+    }
+
+    updateFields.push(`updated_at = $${paramCount}`);
+    updateValues.push(new Date().toISOString());
+    updateValues.push(user_id);
+
+    const result = await pool.query(
+      `UPDATE users SET ${updateFields.join(', ')} WHERE user_id = $${paramCount + 1} 
+       RETURNING user_id, email, phone_number, phone_verified, name, profile_picture_url, bio, 
+       emergency_contact_name, emergency_contact_phone, role, is_verified, 
+       verification_document_url, created_at, updated_at`,
+      updateValues
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('User not found', null, 'USER_NOT_FOUND'));
+    }
+
+    const updatedUser = result.rows[0];
+
+    for (const config of replaced) {
+      await removeFile(userFilePath(config, current.rows[0][config.fileColumn]));
+    }
+
+    // Emit WebSocket event
+    io.emit('user/updated', updatedUser);
+
+    res.json(updatedUser);
+  } catch (error) {
+    console.error('Update user error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+const USER_PROFILE_COLUMNS = `user_id, email, phone_number, phone_verified, name, profile_picture_url, bio,
+       emergency_contact_name, emergency_contact_phone, role, is_verified,
+       verification_document_url, created_at, updated_at`;
+
+/*
+Upload user file endpoints
+Profile pictures ("photo" field) are public; verification documents ("document"
+field, image or PDF) are only served to their owner and admins. The previous
+file is deleted once the new one is saved. fileColumn records the uploaded file,
+which only the upload endpoint sets, so only that file is ever deleted or served
+*/
+const USER_FILE_UPLOADS = {
+  'profile-picture': {
+    uploader: upload, field: 'photo', column: 'profile_picture_url', fileColumn: 'profile_picture_file',
+    route: PUBLIC_UPLOADS_ROUTE, directory: publicUploadsPath, types: IMAGE_TYPES
+  },
+  'verification-document': {
+    uploader: documentUpload, field: 'document', column: 'verification_document_url', fileColumn: 'verification_document_file',
+    route: VERIFICATION_DOCUMENTS_ROUTE, directory: privateUploadsPath, types: DOCUMENT_TYPES
+  }
+};
+
+const userFilePath = (config: { directory: string }, file?: string | null) =>
+  file ? path.join(config.directory, path.basename(file)) : null;
+
+for (const [kind, config] of Object.entries(USER_FILE_UPLOADS)) {
+  app.post(`/api/users/:user_id/${kind}`, authenticateToken, acceptUpload(config.uploader, config.field), async (req, res) => {
+    try {
+      const { user_id } = req.params;
+
+      if (!req.file) {
+        throw new ApiError(400, `A ${config.field} file is required`, 'FILE_REQUIRED');
+      }
+
+      // Check ownership
+      if (req.user.user_id !== user_id && req.user.role !== 'admin') {
+        throw new ApiError(403, 'Forbidden: Cannot update other user profiles', 'FORBIDDEN_ACCESS');
+      }
+
+      const existing = await pool.query(`SELECT ${config.fileColumn} AS file FROM users WHERE user_id = $1`, [user_id]);
+      if (existing.rows.length === 0) {
+        throw new ApiError(404, 'User not found', 'USER_NOT_FOUND');
+      }
+
+      const filename = await processUpload(req.file, config.types);
+      const url = storedFileUrl(req, config.route, filename);
+      const result = await pool.query(
+        `UPDATE users SET ${config.column} = $1, ${config.fileColumn} = $2, updated_at = $3 WHERE user_id = $4 RETURNING ${USER_PROFILE_COLUMNS}`,
+        [url, filename, new Date().toISOString(), user_id]
+      ).catch(async (error) => {
+        await removeStoredFile(url);
+        throw error;
+      });
+
+      await removeFile(userFilePath(config, existing.rows[0].file));
+
+      const updatedUser = result.rows[0];
+
+      // Emit WebSocket event
+      io.emit('user/updated', updatedUser);
+
+      res.json(updatedUser);
+    } catch (error) {
+      console.error(`Upload ${kind} error:`, error);
+      await discardUpload(req.file);
+      if (error instanceof ApiError) {
+        return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+      }
+      res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+    }
+  });
+}
+
+/*
+Get verification document endpoint
+Streams a stored identity document to its owner or an admin
+*/
+app.get(`${VERIFICATION_DOCUMENTS_ROUTE}:filename`, authenticateToken, async (req, res) => {
+  try {
+    const { filename } = req.params;
+    const url = `${VERIFICATION_DOCUMENTS_ROUTE}${filename}`;
+
+    // The file column is unique, so a document has exactly one owner
+    const owner = await pool.query('SELECT user_id FROM users WHERE verification_document_file = $1', [filename]);
+    if (owner.rows.length === 0 || !storedFilePath(url)) {
+      return res.status(404).json(createErrorResponse('File not found', null, 'FILE_NOT_FOUND'));
+    }
+
+    if (owner.rows[0].user_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot view other user documents', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    res.sendFile(storedFilePath(url), {
+      headers: { 'Cache-Control': 'private, no-store', 'X-Content-Type-Options': 'nosniff' }
+    }, (error) => {
+      if (error && !res.headersSent) {
+        res.status(404).json(createErrorResponse('File not found', null, 'FILE_NOT_FOUND'));
+      }
+    });
+  } catch (error) {
+    console.error('Get verification document error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get user's property listings endpoint
+Retrieves all properties owned by a specific user
+*/
+app.get('/api/users/:user_id/listings', async (req, res) => {
+  try {
+    const { user_id } = req.params;
+
+    const result = await pool.query(
+      `SELECT * FROM properties WHERE host_id = $1 ORDER BY created_at DESC`,
+      [user_id]
+    );
+
+    res.json(await attachCoverPhotos(result.rows));
+  } catch (error) {
+    console.error('Get user listings error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get user's bookings endpoint
+Retrieves all bookings associated with a user as guest or host
+*/
+app.get('/api/users/:user_id/bookings', authenticateToken, async (req, res) => {
+  try {
+    const { user_id } = req.params;
+    const { status } = req.query;
+    const statusStr = status as string;
+
+    // Check access
+    if (req.user.user_id !== user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access other user bookings', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    let query = `SELECT * FROM bookings WHERE (guest_id = $1 OR host_id = $1)`;
+    const queryParams = [user_id];
+
+    if (statusStr) {
+      query += ` AND status = $2`;
+      queryParams.push(statusStr);
+    }
+
+    query += ` ORDER BY created_at DESC`;
+
+    const result = await pool.query(query, queryParams);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get user bookings error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get user's reviews endpoint
+Retrieves all reviews written by or received by a user
+*/
+app.get('/api/users/:user_id/reviews', async (req, res) => {
+  try {
+    const { user_id } = req.params;
+
+    const result = await pool.query(
+      `SELECT * FROM reviews WHERE (reviewer_id = $1 OR host_id = $1) AND published_at IS NOT NULL ORDER BY created_at DESC`,
+      [user_id]
+    );
+
+    res.json(await attachReviewDetails(result.rows));
+  } catch (error) {
+    console.error('Get user reviews error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get guest reviews endpoint
+Retrieves the published reviews hosts have left for a guest, newest first
+*/
+app.get('/api/users/:user_id/guest-reviews', async (req, res) => {
+  try {
+    const { user_id } = req.params;
+    const { limit, offset } = searchGuestReviewInputSchema.parse({
+      guest_id: user_id,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+    });
+
+    const result = await pool.query(
+      `SELECT * FROM guest_reviews WHERE guest_id = $1 AND published_at IS NOT NULL
+       ORDER BY created_at DESC LIMIT $2 OFFSET $3`,
+      [user_id, limit, offset]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get guest reviews error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Amenity Routes
+
+/*
+List amenities endpoint
+Returns the amenity catalog with English and Arabic labels, optionally for one category
+*/
+app.get('/api/amenities', async (req, res) => {
+  try {
+    const { category } = req.query;
+    const queryParams = [];
+    let query = `SELECT * FROM amenities`;
+
+    if (category) {
+      query += ` WHERE category = $1`;
+      queryParams.push(category as string);
+    }
+
+    query += ` ORDER BY display_order ASC, name_en ASC`;
+
+    const result = await pool.query(query, queryParams);
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List amenities error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Exchange Rate Routes
+
+/*
+List exchange rates endpoint
+Returns LYD per unit of each supported currency, optionally for one rate type
+*/
+app.get('/api/exchange-rates', async (req, res) => {
+  try {
+    const { rate_type } = req.query;
+    const queryParams = [];
+    let query = `SELECT * FROM exchange_rates`;
+
+    if (rate_type) {
+      query += ` WHERE rate_type = $1`;
+      queryParams.push(rate_type as string);
+    }
+
+    query += ` ORDER BY currency ASC, rate_type ASC`;
+
+    const result = await pool.query(query, queryParams);
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List exchange rates error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Property Management Routes
+
+
+const GEO_DEFAULT_RADIUS_KM = 25;
+const GEO_MAX_RADIUS_KM = 500;
+const KM_PER_DEGREE = 111.32;
+// The map view returns every match in view at once, up to this many
+const MAP_MAX_RESULTS = parseInt(process.env.MAP_MAX_RESULTS || '500');
+
+type GeoFilter = {
+  near: { latitude: number; longitude: number } | null;
+  radius_km: number;
+  // west, south, east, north
+  bbox: number[] | null;
+};
+
+const parseCoordinates = (value: string, count: number): number[] | null => {
+  const coordinates = value.split(',').map(part => part.trim() === '' ? NaN : Number(part));
+  return coordinates.length === count && coordinates.every(Number.isFinite) ? coordinates : null;
+};
+
+/*
+Reads near=lat,lng with radius_km and bbox=west,south,east,north from the query string
+*/
+function parseGeoFilter(query): GeoFilter {
+  let near = null;
+  if (query.near) {
+    const coordinates = parseCoordinates(String(query.near), 2);
+    if (!coordinates || Math.abs(coordinates[0]) > 90 || Math.abs(coordinates[1]) > 180) {
+      throw new ApiError(400, 'near must be latitude,longitude', 'INVALID_GEO_FILTER');
+    }
+    near = { latitude: coordinates[0], longitude: coordinates[1] };
+  }
+
+  const radius_km = query.radius_km ? Number(query.radius_km) : GEO_DEFAULT_RADIUS_KM;
+  if (!(radius_km > 0 && radius_km <= GEO_MAX_RADIUS_KM)) {
+    throw new ApiError(400, `radius_km must be greater than 0 and at most ${GEO_MAX_RADIUS_KM}`, 'INVALID_GEO_FILTER');
+  }
+
+  let bbox = null;
+  if (query.bbox) {
+    bbox = parseCoordinates(String(query.bbox), 4);
+    if (!bbox || bbox[0] > bbox[2] || bbox[1] > bbox[3] || Math.abs(bbox[0]) > 180 || Math.abs(bbox[2]) > 180
+      || Math.abs(bbox[1]) > 90 || Math.abs(bbox[3]) > 90) {
+      throw new ApiError(400, 'bbox must be west,south,east,north', 'INVALID_GEO_FILTER');
+    }
+  }
+
+  return { near, radius_km, bbox };
+}
+
+// Longer queries are cut to this many words
+const TEXT_SEARCH_MAX_WORDS = 8;
+const PROPERTY_SEARCH_VECTOR = 'property_search_vector(title, description, city, neighborhood, amenities)';
+
+/*
+Turns free text into a tsquery over the normalized words, each matched as a prefix;
+a word that is a known place name also matches its other spellings, so طرابلس finds
+listings in Tripoli. Returns null when the text has no words
+*/
+async function buildTextSearchQuery(text: string): Promise<string | null> {
+  const normalized = await pool.query('SELECT normalize_search_text($1) AS text', [text]);
+  const words: string[] = [...new Set<string>(normalized.rows[0].text.split(/[^\p{L}\p{N}]+/u).filter(Boolean))]
+    .slice(0, TEXT_SEARCH_MAX_WORDS);
+  if (words.length === 0) return null;
+
+  const aliases = await pool.query(
+    `SELECT a.alias AS word, b.alias AS spelling
+     FROM place_name_aliases a JOIN place_name_aliases b ON b.place_name = a.place_name
+     WHERE a.alias = ANY($1) AND b.alias <> a.alias`,
+    [words]
+  );
+
+  return words.map(word => {
+    const spellings = [word, ...aliases.rows.filter(row => row.word === word).map(row => row.spelling)];
+    return `(${spellings.map(spelling => `'${spelling}':*`).join(' | ')})`;
+  }).join(' & ');
+}
+
+// Nightly price in LYD; rate_type is one of EXCHANGE_RATE_TYPES, so it is safe to inline
+const lydPriceExpression = (conversion: CurrencyConversion) =>
+  `lyd_amount(base_price_per_night, currency, '${conversion.rate_type}')`;
+
+// Price range conditions on a nightly price in LYD; the bounds are given in display_currency
+const priceRangeConditions = (
+  filters: { price_min?: number; price_max?: number },
+  conversion: CurrencyConversion,
+  lydPrice: string,
+  param: (value: unknown) => string
+): string[] => {
+  const lydPerUnit = conversion.rates.get(conversion.currency);
+  return [
+    ...(filters.price_min ? [`${lydPrice} >= ${param(filters.price_min * lydPerUnit)}`] : []),
+    ...(filters.price_max ? [`${lydPrice} <= ${param(filters.price_max * lydPerUnit)}`] : [])
+  ];
+};
+
+// The searched stay, when both dates are given
+const readSearchStay = (filters: { check_in?: string; check_out?: string }) => {
+  if (!filters.check_in || !filters.check_out) {
+    return null;
+  }
+  const check_in = toDateOnly(filters.check_in);
+  const check_out = toDateOnly(filters.check_out);
+  if (check_out <= check_in || daysBetween(check_in, check_out) > CALENDAR_MAX_DAYS) {
+    throw new ApiError(400, `check_out must be after check_in and at most ${CALENDAR_MAX_DAYS} nights later`, 'INVALID_DATE_RANGE');
+  }
+  return { check_in, check_out };
+};
+
+// Coerce query parameters to proper types
+const readPropertySearchParams = (query) => ({
+  q: query.q as string,
+  location: query.location as string,
+  check_in: query.check_in as string,
+  check_out: query.check_out as string,
+  guests: query.guests ? parseInt(query.guests as string) || undefined : undefined,
+  // In display_currency, LYD by default
+  price_min: query.price_min ? parseFloat(query.price_min as string) || undefined : undefined,
+  price_max: query.price_max ? parseFloat(query.price_max as string) || undefined : undefined,
+  display_currency: query.display_currency as string,
+  rate_type: query.rate_type as string,
+  property_type: query.property_type as string,
+  // Keys or names, all of which a listing must offer
+  amenities: query.amenities ? [...new Set(splitAmenityEntries(String(query.amenities)).map(entry => entry.toLowerCase()))] : undefined,
+  min_rating: query.min_rating ? parseFloat(query.min_rating as string) || undefined : undefined,
+  sort_by: query.sort_by as string,
+  limit: parseInt((query.limit as string) || '10'),
+  offset: parseInt((query.offset as string) || '0'),
+  cursor: query.cursor as string
+});
+
+/*
+Builds the WHERE clause shared by the list and map views of property search, plus
+the distance expression when searching around a point and the relevance expression
+when searching text. Geo filters only match listings with coordinates; the other
+filters match listings without them too
+*/
+function buildPropertySearch(
+  filters: ReturnType<typeof readPropertySearchParams>,
+  geo: GeoFilter,
+  textQuery: string | null,
+  conversion: CurrencyConversion,
+  amenityKeys: string[]
+) {
+  const conditions = ['is_active = true'];
+  const queryParams = [];
+  const param = (value) => `$${queryParams.push(value)}`;
+
+  // Full-text filtering
+  let relevance = null;
+  if (textQuery) {
+    const tsquery = `to_tsquery('simple', ${param(textQuery)})`;
+    conditions.push(`${PROPERTY_SEARCH_VECTOR} @@ ${tsquery}`);
+    relevance = `ts_rank(${PROPERTY_SEARCH_VECTOR}, ${tsquery})`;
+  }
+
+  // Location filtering
+  if (filters.location) {
+    const location = param(`%${filters.location}%`);
+    conditions.push(`(city ILIKE ${location} OR neighborhood ILIKE ${location})`);
+  }
+
+  // Guest capacity filtering
+  if (filters.guests) {
+    conditions.push(`guest_capacity >= ${param(filters.guests)}`);
+  }
+
+  // Price range filtering on base_price_per_night; with dates applyStayPrices filters
+  // on the stay instead
+  if (!readSearchStay(filters)) {
+    conditions.push(...priceRangeConditions(filters, conversion, lydPriceExpression(conversion), param));
+  }
+
+  // Property type filtering
+  if (filters.property_type) {
+    conditions.push(`property_type = ${param(filters.property_type)}`);
+  }
+
+  // Amenities filtering; a listing must offer every requested amenity. The keys are
+  // resolved from the entries first, so two names of one amenity count once
+  if (amenityKeys.length > 0) {
+    conditions.push(`property_id IN (
+      SELECT property_id FROM property_amenities WHERE amenity_key = ANY(${param(amenityKeys)})
+      GROUP BY property_id HAVING COUNT(*) = ${param(amenityKeys.length)}
+    )`);
+  }
+
+  // Rating filtering; listings without reviews have no average and drop out
+  if (filters.min_rating) {
+    conditions.push(`property_id IN (
+      SELECT entity_id FROM rating_summaries WHERE entity_type = 'property' AND overall_rating >= ${param(filters.min_rating)}
+    )`);
+  }
+
+  // Date availability filtering
+  if (filters.check_in && filters.check_out) {
+    conditions.push(`property_id NOT IN (
+      SELECT DISTINCT property_id FROM property_availability
+      WHERE date BETWEEN ${param(filters.check_in)} AND ${param(filters.check_out)}
+      AND is_available = false
+    )`);
+  }
+
+  // Stay restrictions, as assertStayAllowed applies them
+  const stay = readSearchStay(filters);
+  if (stay) {
+    const now = new Date();
+    const checkIn = param(stay.check_in);
+    const checkOut = param(stay.check_out);
+    const nights = param(daysBetween(stay.check_in, stay.check_out));
+    const rangeLimit = (field: string) => `(
+      SELECT r.${field} FROM stay_restrictions r
+      WHERE r.property_id = properties.property_id AND r.${field} IS NOT NULL
+      AND ${checkIn} BETWEEN r.start_date AND r.end_date
+      ORDER BY r.end_date::date - r.start_date::date ASC, r.created_at DESC, r.restriction_id DESC
+      LIMIT 1
+    )`;
+    conditions.push(`${nights} >= COALESCE(${rangeLimit('min_nights')}, min_nights)`);
+    conditions.push(`${nights} <= COALESCE(${rangeLimit('max_nights')}, max_nights, ${nights})`);
+    conditions.push(`NOT (${param(new Date(`${stay.check_in}T00:00:00Z`).getUTCDay())} = ANY(closed_arrival_weekdays))`);
+    conditions.push(`NOT (${param(new Date(`${stay.check_out}T00:00:00Z`).getUTCDay())} = ANY(closed_departure_weekdays))`);
+    conditions.push(`NOT EXISTS (
+      SELECT 1 FROM stay_restrictions r
+      WHERE r.property_id = properties.property_id
+      AND ((r.closed_to_arrival AND ${checkIn} BETWEEN r.start_date AND r.end_date)
+        OR (r.closed_to_departure AND ${checkOut} BETWEEN r.start_date AND r.end_date))
+    )`);
+    conditions.push(`(advance_notice_hours = 0 OR advance_notice_hours <= ${param(hoursUntilCheckIn(stay.check_in, now))})`);
+    conditions.push(`(booking_window_days IS NULL OR booking_window_days >= ${param(daysBetween(toDateOnly(now), stay.check_in))})`);
+  }
+
+  // Geo filtering
+  if (geo.near || geo.bbox) {
+    conditions.push('latitude IS NOT NULL AND longitude IS NOT NULL');
+  }
+
+  if (geo.bbox) {
+    const [west, south, east, north] = geo.bbox;
+    conditions.push(`point(longitude, latitude) <@ box(point(${param(west)}, ${param(south)}), point(${param(east)}, ${param(north)}))`);
+  }
+
+  let distance = null;
+  if (geo.near) {
+    const { latitude, longitude } = geo.near;
+    distance = `haversine_km(${param(latitude)}, ${param(longitude)}, latitude, longitude)`;
+    // The enclosing box lets the spatial index narrow the rows before exact distances are computed
+    const latitudeSpan = geo.radius_km / KM_PER_DEGREE;
+    const longitudeSpan = geo.radius_km / (KM_PER_DEGREE * Math.max(Math.cos(latitude * Math.PI / 180), 0.01));
+    conditions.push(`point(longitude, latitude) <@ box(
+      point(${param(longitude - longitudeSpan)}, ${param(latitude - latitudeSpan)}),
+      point(${param(longitude + longitudeSpan)}, ${param(latitude + latitudeSpan)})
+    )`);
+    conditions.push(`${distance} <= ${param(geo.radius_km)}`);
+  }
+
+  return { where: conditions.join(' AND '), queryParams, distance, relevance };
+}
+
+/*
+Moves price filters and sorts onto the searched stay: the listings matching the
+other filters are priced together by attachStayPrices, and each stay_price_per_night
+joins the query as a parameter. Returns the search narrowed to the price range and
+the stay price in LYD to sort on
+*/
+async function applyStayPrices(
+  search: { where: string; queryParams: unknown[] },
+  filters: ReturnType<typeof readPropertySearchParams>,
+  conversion: CurrencyConversion,
+  stay: { check_in: string; check_out: string }
+) {
+  const candidates = await pool.query(
+    `SELECT property_id, base_price_per_night FROM properties WHERE ${search.where}`,
+    search.queryParams
+  );
+  const priced = await attachStayPrices(candidates.rows, stay.check_in, stay.check_out);
+
+  const queryParams = [...search.queryParams];
+  const param = (value) => `$${queryParams.push(value)}`;
+  const stayPrice = `(
+    SELECT s.price FROM unnest(${param(priced.map(property => property.property_id))}::text[], ${param(priced.map(property => property.stay_price_per_night))}::numeric[])
+    AS s(property_id, price) WHERE s.property_id = properties.property_id
+  )`;
+  const lydStayPrice = `lyd_amount(${stayPrice}, currency, '${conversion.rate_type}')`;
+
+  return {
+    // Listings added since the candidates were priced have no stay price and are left out
+    where: [
+      search.where,
+      `${stayPrice} IS NOT NULL`,
+      ...priceRangeConditions(filters, conversion, lydStayPrice, param)
+    ].join(' AND '),
+    queryParams,
+    // Listings priced in a currency that has since lost its rate sort by their own price
+    lydPrice: `COALESCE(${lydStayPrice}, ${stayPrice})`
+  };
+}
+
+/*
+Search properties endpoint
+Advanced property search with filtering, sorting, and pagination
+Supports free text, location, date range, guest count, price range, amenity, rating
+and geo filtering; text searches default to most relevant first, and searches around
+a point return distance_km and otherwise default to nearest first. Prices filter
+and sort in LYD terms across listing currencies; display_currency adds converted
+prices. With check_in and check_out each listing also gets stay_subtotal, the stay
+priced with its pricing rules, and listings whose stay restrictions rule the stay out
+are left out; price filters and sorts then use stay_price_per_night.
+Pages follow next_cursor; total_count counts every listing matching the filters
+*/
+app.get('/api/properties', async (req, res) => {
+  try {
+    const searchParams = readPropertySearchParams(req.query);
+    const { limit, offset } = searchParams;
+    const geo = parseGeoFilter(req.query);
+    const textQuery = searchParams.q ? await buildTextSearchQuery(searchParams.q) : null;
+    const conversion = await readCurrencyConversion(searchParams);
+    const { keys: amenityKeys } = await resolveAmenities(searchParams.amenities || []);
+    const sort_by = searchParams.sort_by || (textQuery ? 'relevance' : geo.near ? 'distance' : undefined);
+    const stay = readSearchStay(searchParams);
+
+    const search = buildPropertySearch(searchParams, geo, textQuery, conversion, amenityKeys);
+    const { distance, relevance } = search;
+    let { where, queryParams } = search;
+    // Listings priced in a currency that has since lost its rate sort by their own price
+    let lydPrice = `COALESCE(${lydPriceExpression(conversion)}, base_price_per_night)`;
+    const priceSort = sort_by === 'price_low_to_high' || sort_by === 'price_high_to_low';
+    if (stay && (searchParams.price_min || searchParams.price_max || priceSort)) {
+      ({ where, queryParams, lydPrice } = await applyStayPrices(search, searchParams, conversion, stay));
+    }
+
+    // Sorting; every ordering ends in property_id so cursors never land between ties
+    const newestFirst: SortKey[] = [{ expression: 'created_at', direction: 'DESC' }, { expression: 'property_id', direction: 'DESC' }];
+    let order: SortKey[];
+    switch (sort_by) {
+      case 'price_low_to_high':
+        order = [{ expression: lydPrice, direction: 'ASC' }, { expression: 'property_id', direction: 'ASC' }];
+        break;
+      case 'price_high_to_low':
+        order = [{ expression: lydPrice, direction: 'DESC' }, { expression: 'property_id', direction: 'DESC' }];
+        break;
+      case 'rating':
+      case 'rating_high_to_low':
+        // Ratings start at 1, so unrated listings come last
+        order = [{
+          expression: `COALESCE((
+            SELECT overall_rating FROM rating_summaries WHERE entity_type = 'property' AND entity_id = properties.property_id
+          ), 0)`,
+          direction: 'DESC'
+        }, ...newestFirst];
+        break;
+      case 'distance':
+        if (!distance) {
+          throw new ApiError(400, 'sort_by=distance requires near', 'INVALID_GEO_FILTER');
+        }
+        order = [{ expression: distance, direction: 'ASC' }, ...newestFirst];
+        break;
+      case 'relevance':
+        order = relevance ? [{ expression: relevance, direction: 'DESC' }, ...newestFirst] : newestFirst;
+        break;
+      default:
+        order = newestFirst;
+    }
+
+    const page = await fetchPage({
+      select: `*${distance ? `, ${distance} AS distance_km` : ''}`,
+      from: 'properties',
+      where,
+      params: queryParams,
+      sort: sort_by || 'newest',
+      order,
+      limit,
+      offset,
+      cursor: searchParams.cursor
+    });
+    let properties = distance
+      ? page.rows.map(property => ({ ...property, distance_km: Math.round(property.distance_km * 100) / 100 }))
+      : page.rows;
+    if (stay) {
+      properties = await attachStayPrices(properties, stay.check_in, stay.check_out);
+    }
+    if (searchParams.display_currency) {
+      properties = withDisplayPrices(properties, conversion);
+    }
+
+    res.json({
+      properties: await attachRatingSummaries(await attachCoverPhotos(properties)),
+      total_count: page.total_count,
+      next_cursor: page.next_cursor
+    });
+  } catch (error) {
+    console.error('Search properties error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Property map endpoint
+Returns the matching listings with coordinates as a GeoJSON FeatureCollection of
+points for client-side clustering; takes the same filters as search, usually bbox
+*/
+app.get('/api/properties/map', async (req, res) => {
+  try {
+    const searchParams = readPropertySearchParams(req.query);
+    const textQuery = searchParams.q ? await buildTextSearchQuery(searchParams.q) : null;
+    const conversion = await readCurrencyConversion(searchParams);
+    const { keys: amenityKeys } = await resolveAmenities(searchParams.amenities || []);
+    const search = buildPropertySearch(searchParams, parseGeoFilter(req.query), textQuery, conversion, amenityKeys);
+    const stay = readSearchStay(searchParams);
+    const { where, queryParams } = stay && (searchParams.price_min || searchParams.price_max)
+      ? await applyStayPrices(search, searchParams, conversion, stay)
+      : search;
+
+    const result = await pool.query(
+      `SELECT * FROM properties WHERE ${where} AND latitude IS NOT NULL AND longitude IS NOT NULL
+       ORDER BY created_at DESC LIMIT $${queryParams.length + 1}`,
+      [...queryParams, MAP_MAX_RESULTS + 1]
+    );
+    let properties = await attachRatingSummaries(await attachCoverPhotos(result.rows.slice(0, MAP_MAX_RESULTS)));
+    if (searchParams.display_currency) {
+      properties = withDisplayPrices(properties, conversion);
+    }
+
+    res.json({
+      type: 'FeatureCollection',
+      // More listings matched than are returned; zoom in to see them all
+      truncated: result.rows.length > MAP_MAX_RESULTS,
+      features: properties.map(property => ({
+        type: 'Feature',
+        id: property.property_id,
+        geometry: { type: 'Point', coordinates: [parseFloat(property.longitude), parseFloat(property.latitude)] },
+        properties: {
+          property_id: property.property_id,
+          title: property.title,
+          property_type: property.property_type,
+          base_price_per_night: parseFloat(property.base_price_per_night),
+          currency: property.currency,
+          ...(searchParams.display_currency && {
+            display_currency: property.display_currency,
+            display_price_per_night: property.display_price_per_night
+          }),
+          instant_book: property.instant_book,
+          overall_rating: property.rating_summary.overall_rating,
+          review_count: property.rating_summary.review_count,
+          thumbnail_url: property.cover_photo ? property.cover_photo.thumbnail_url || property.cover_photo.photo_url : null,
+          blurhash: property.cover_photo ? property.cover_photo.blurhash : null
+        }
+      }))
+    });
+  } catch (error) {
+    console.error('Property map error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Create property listing endpoint
+Creates new property listing with host ownership validation
+*/
+app.post('/api/properties', authenticateToken, async (req, res) => {
+  try {
+    const propertyData = createPropertyInputSchema.parse({
+      ...req.body,
+      host_id: req.user.user_id
+    });
+
+    const property_id = `prop_${nanoid()}`;
+    const now = new Date().toISOString();
+    const amenities = await resolveAmenities(propertyData.amenities || []);
+    await assertSupportedCurrency(propertyData.currency || 'LYD');
+    assertNightLimits({ min_nights: propertyData.min_nights, max_nights: propertyData.max_nights ?? null });
+
+    const newProperty = await withTransaction(async (client) => {
+      const result = await client.query(
+        `INSERT INTO properties (
+          property_id, host_id, title, description, city, neighborhood, address,
+          latitude, longitude, property_type, guest_capacity, bedrooms, beds, bathrooms,
+          amenities, base_price_per_night, currency, has_power_backup, has_water_tank,
+          house_rules, cancellation_policy, instant_book, instant_book_requires_verified,
+          min_nights, max_nights, advance_notice_hours, booking_window_days, closed_arrival_weekdays, closed_departure_weekdays,
+          is_active, created_at, updated_at
+        ) VALUES (
+          $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23,
+          $24, $25, $26, $27, $28, $29, $30, $31, $32
+        ) RETURNING *`,
+        [
+          property_id, propertyData.host_id, propertyData.title, propertyData.description,
+          propertyData.city, propertyData.neighborhood, propertyData.address,
+          propertyData.latitude, propertyData.longitude, propertyData.property_type,
+          propertyData.guest_capacity, propertyData.bedrooms, propertyData.beds, propertyData.bathrooms,
+          amenities.names, propertyData.base_price_per_night, propertyData.currency || 'LYD',
+          propertyData.has_power_backup, propertyData.has_water_tank, propertyData.house_rules,
+          propertyData.cancellation_policy, propertyData.instant_book, propertyData.instant_book_requires_verified,
+          propertyData.min_nights, propertyData.max_nights ?? null, propertyData.advance_notice_hours,
+          propertyData.booking_window_days ?? null, propertyData.closed_arrival_weekdays, propertyData.closed_departure_weekdays,
+          propertyData.is_active,
+          now, now
+        ]
+      );
+
+      await savePropertyAmenities(client, property_id, amenities.keys);
+      return result.rows[0];
+    });
+
+    // Emit WebSocket event
+    io.emit('property/created', newProperty);
+
+    res.status(201).json(newProperty);
+  } catch (error) {
+    console.error('Create property error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get property details endpoint
+Retrieves comprehensive property information including photos, amenities, rating summaries
+and upcoming stay restrictions; display_currency adds the nightly price converted at the chosen rate_type
+*/
+app.get('/api/properties/:property_id', async (req, res) => {
+  try {
+    const { property_id } = req.params;
+    const display_currency = req.query.display_currency as string;
+    const conversion = await readCurrencyConversion({ display_currency, rate_type: req.query.rate_type as string });
+
+    const result = await pool.query(
+      `SELECT * FROM properties WHERE property_id = $1`,
+      [property_id]
+    );
+
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    const photos = await pool.query(
+      `SELECT * FROM property_photos WHERE property_id = $1 ORDER BY display_order ASC`,
+      [property_id]
+    );
+
+    const amenities = await pool.query(
+      `SELECT a.* FROM property_amenities pa JOIN amenities a ON a.amenity_key = pa.amenity_key
+       WHERE pa.property_id = $1 ORDER BY a.display_order ASC, a.name_en ASC`,
+      [property_id]
+    );
+
+    // Ranges still ahead, so the app can disable dates they rule out
+    const stayRestrictions = await pool.query(
+      'SELECT * FROM stay_restrictions WHERE property_id = $1 AND end_date >= $2 ORDER BY start_date ASC',
+      [property_id, toDateOnly(new Date())]
+    );
+
+    const [property] = await attachRatingSummaries(display_currency ? withDisplayPrices(result.rows, conversion) : result.rows);
+    res.json({ ...property, photos: photos.rows, amenity_list: amenities.rows, stay_restrictions: stayRestrictions.rows });
+  } catch (error) {
+    console.error('Get property error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Update property listing endpoint
+Updates property details with ownership validation
+*/
+app.patch('/api/properties/:property_id', authenticateToken, async (req, res) => {
+  try {
+    const { property_id } = req.params;
     
     // Check ownership
-    if (req.user.user_id !== user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot update other user profiles', null, 'FORBIDDEN_ACCESS'));
+    const ownerCheck = await pool.query('SELECT host_id, suspended_at, min_nights, max_nights FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot update other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const updateData = updatePropertyInputSchema.parse({ ...req.body, property_id });
+
+    // Suspended listings come back only through admin approval
+    if (updateData.is_active === true && ownerCheck.rows[0].suspended_at) {
+      return res.status(403).json(createErrorResponse('Listing is suspended by an administrator', null, 'LISTING_SUSPENDED'));
+    }
+    
+    if (updateData.currency) {
+      await assertSupportedCurrency(updateData.currency);
+    }
+    assertNightLimits({
+      min_nights: updateData.min_nights ?? ownerCheck.rows[0].min_nights,
+      max_nights: updateData.max_nights !== undefined ? updateData.max_nights : ownerCheck.rows[0].max_nights
+    });
+
+    // Amenities are stored by key and mirrored as names in properties.amenities
+    const amenities = updateData.amenities === undefined ? null : await resolveAmenities(updateData.amenities || []);
+
+    // Build dynamic update query
+    const updateFields = [];
+    const updateValues = [];
+    let paramCount = 1;
+
+    for (const [key, value] of Object.entries({ ...updateData, amenities: amenities ? amenities.names : undefined })) {
+      if (key !== 'property_id' && value !== undefined) {
+        updateFields.push(`${key} = $${paramCount}`);
+        updateValues.push(value);
+        paramCount++;
+      }
+    }
+
+    if (updateFields.length === 0) {
+      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
+    }
+
+    updateFields.push(`updated_at = $${paramCount}`);
+    updateValues.push(new Date().toISOString());
+    updateValues.push(property_id);
+
+    const updatedProperty = await withTransaction(async (client) => {
+      const result = await client.query(
+        `UPDATE properties SET ${updateFields.join(', ')} WHERE property_id = $${paramCount + 1} RETURNING *`,
+        updateValues
+      );
+
+      if (amenities) {
+        await savePropertyAmenities(client, property_id, amenities.keys);
+      }
+      return result.rows[0];
+    });
+
+    // Emit WebSocket event
+    io.emit('property/updated', updatedProperty);
+
+    res.json(updatedProperty);
+  } catch (error) {
+    console.error('Update property error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Delete property listing endpoint
+Soft deletes property by setting is_active to false
+*/
+app.delete('/api/properties/:property_id', authenticateToken, async (req, res) => {
+  try {
+    const { property_id } = req.params;
+    
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot delete other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    await pool.query(
+      `UPDATE properties SET is_active = false, updated_at = $1 WHERE property_id = $2`,
+      [new Date().toISOString(), property_id]
+    );
+
+    // Emit WebSocket event
+    io.emit('property/deleted', { property_id });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete property error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Property Photos Routes
+
+/*
+Get property photos endpoint
+Retrieves all photos for a property ordered by display order
+*/
+app.get('/api/properties/:property_id/photos', async (req, res) => {
+  try {
+    const { property_id } = req.params;
+
+    const result = await pool.query(
+      `SELECT * FROM property_photos WHERE property_id = $1 ORDER BY display_order ASC`,
+      [property_id]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get property photos error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Add property photo endpoint
+Adds new photo to property with ownership validation
+*/
+app.post('/api/properties/:property_id/photos', authenticateToken, async (req, res) => {
+  try {
+    const { property_id } = req.params;
+    
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot add photos to other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const photoData = createPropertyPhotoInputSchema.parse({
+      ...req.body,
+      property_id
+    });
+
+    const photo_id = `photo_${nanoid()}`;
+
+    const result = await pool.query(
+      `INSERT INTO property_photos (photo_id, property_id, photo_url, caption, display_order, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+      [photo_id, property_id, photoData.photo_url, photoData.caption, photoData.display_order, new Date().toISOString()]
+    );
+
+    const newPhoto = result.rows[0];
+    await enqueuePhotoRenditions(pool, 'property_photos', newPhoto);
+
+    // Emit WebSocket event
+    io.emit('property_photo/created', newPhoto);
+
+    res.status(201).json(newPhoto);
+  } catch (error) {
+    console.error('Add property photo error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Upload property photo endpoint
+Accepts a multipart image in the "photo" field and appends it after the existing
+photos unless display_order is given
+*/
+app.post('/api/properties/:property_id/photos/upload', authenticateToken, acceptUpload(upload, 'photo'), async (req, res) => {
+  try {
+    const { property_id } = req.params;
+
+    if (!req.file) {
+      throw new ApiError(400, 'A photo file is required', 'FILE_REQUIRED');
+    }
+
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      throw new ApiError(404, 'Property not found', 'PROPERTY_NOT_FOUND');
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      throw new ApiError(403, 'Forbidden: Cannot add photos to other user properties', 'FORBIDDEN_ACCESS');
+    }
+
+    let display_order = req.body.display_order !== undefined ? parseInt(req.body.display_order) : undefined;
+    if (display_order === undefined) {
+      const last = await pool.query(
+        'SELECT COALESCE(MAX(display_order) + 1, 0) AS next_order FROM property_photos WHERE property_id = $1',
+        [property_id]
+      );
+      display_order = last.rows[0].next_order;
+    }
+
+    const photoData = createPropertyPhotoInputSchema.omit({ photo_url: true }).parse({
+      property_id,
+      caption: req.body.caption || null,
+      display_order
+    });
+
+    const stored = await storeUploadedPhoto(req, req.file);
+    const photo_id = `photo_${nanoid()}`;
+
+    const result = await pool.query(
+      `INSERT INTO property_photos (photo_id, property_id, photo_url, caption, display_order,
+       thumbnail_url, card_url, full_url, blurhash, photo_file, created_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11) RETURNING *`,
+      [
+        photo_id, property_id, stored.photo_url, photoData.caption, photoData.display_order,
+        stored.thumbnail_url, stored.card_url, stored.full_url, stored.blurhash, stored.photo_file, new Date().toISOString()
+      ]
+    ).catch(async (error) => {
+      await removePhotoFiles(stored);
+      throw error;
+    });
+
+    const newPhoto = result.rows[0];
+
+    // Emit WebSocket event
+    io.emit('property_photo/created', newPhoto);
+
+    res.status(201).json(newPhoto);
+  } catch (error) {
+    console.error('Upload property photo error:', error);
+    await discardUpload(req.file);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Update property photo endpoint
+Updates photo details with ownership validation
+*/
+app.patch('/api/properties/:property_id/photos/:photo_id', authenticateToken, async (req, res) => {
+  try {
+    const { property_id, photo_id } = req.params;
+    
+    // Check ownership through property
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
     }
 
-    const updateData = updateUserInputSchema.parse({ ...req.body, user_id });
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot update photos of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    // Photos stay on the listing in the path
+    const updateData = updatePropertyPhotoInputSchema.parse({ ...req.body, photo_id, property_id });
+
+    const existing = await pool.query('SELECT * FROM property_photos WHERE photo_id = $1 AND property_id = $2', [photo_id, property_id]);
+    const urlChanged = updateData.photo_url !== undefined && existing.rows[0]?.photo_url !== updateData.photo_url;
     
     // Build dynamic update query
     const updateFields = [];
     const updateValues = [];
     let paramCount = 1;
 
+    // Renditions and the uploaded original of the previous image no longer apply
+    if (urlChanged) {
+      updateFields.push('thumbnail_url = NULL', 'card_url = NULL', 'full_url = NULL', 'blurhash = NULL', 'photo_file = NULL');
+    }
+
     for (const [key, value] of Object.entries(updateData)) {
-      if (key !== 'user_id' && value !== undefined) {
+      if (key !== 'photo_id' && value !== undefined) {
         updateFields.push(`${key} = $${paramCount}`);
         updateValues.push(value);
         paramCount++;
@@ -469,30 +4740,30 @@ app.patch('/api/users/:user_id', authenticateToken, async (req, res) => {
       return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
     }
 
-    updateFields.push(`updated_at = $${paramCount}`);
-    updateValues.push(new Date().toISOString());
-    updateValues.push(user_id);
+    updateValues.push(photo_id, property_id);
 
     const result = await pool.query(
-      `UPDATE users SET ${updateFields.join(', ')} WHERE user_id = $${paramCount + 1} 
-       RETURNING user_id, email, phone_number, name, profile_picture_url, bio, 
-       emergency_contact_name, emergency_contact_phone, role, is_verified, 
-       verification_document_url, created_at, updated_at`,
+      `UPDATE property_photos SET ${updateFields.join(', ')} WHERE photo_id = $${paramCount} AND property_id = $${paramCount + 1} RETURNING *`,
       updateValues
     );
 
     if (result.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('User not found', null, 'USER_NOT_FOUND'));
+      return res.status(404).json(createErrorResponse('Photo not found', null, 'PHOTO_NOT_FOUND'));
     }
 
-    const updatedUser = result.rows[0];
+    const updatedPhoto = result.rows[0];
+
+    if (urlChanged) {
+      await removePhotoFiles(existing.rows[0]);
+      await enqueuePhotoRenditions(pool, 'property_photos', updatedPhoto);
+    }
 
     // Emit WebSocket event
-    io.emit('user/updated', updatedUser);
+    io.emit('property_photo/updated', updatedPhoto);
 
-    res.json(updatedUser);
+    res.json(updatedPhoto);
   } catch (error) {
-    console.error('Update user error:', error);
+    console.error('Update property photo error:', error);
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
@@ -501,397 +4772,651 @@ app.patch('/api/users/:user_id', authenticateToken, async (req, res) => {
 });
 
 /*
-Get user's property listings endpoint
-Retrieves all properties owned by a specific user
+Delete property photo endpoint
+Removes photo from property with ownership validation
 */
-app.get('/api/users/:user_id/listings', async (req, res) => {
+app.delete('/api/properties/:property_id/photos/:photo_id', authenticateToken, async (req, res) => {
   try {
-    const { user_id } = req.params;
+    const { property_id, photo_id } = req.params;
+    
+    // Check ownership through property
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot delete photos from other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
 
     const result = await pool.query(
-      `SELECT * FROM properties WHERE host_id = $1 ORDER BY created_at DESC`,
-      [user_id]
+      `DELETE FROM property_photos WHERE photo_id = $1 AND property_id = $2 RETURNING *`,
+      [photo_id, property_id]
     );
 
-    res.json(result.rows);
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Photo not found', null, 'PHOTO_NOT_FOUND'));
+    }
+
+    await removePhotoFiles(result.rows[0]);
+
+    // Emit WebSocket event
+    io.emit('property_photo/deleted', { photo_id });
+
+    res.status(204).send();
   } catch (error) {
-    console.error('Get user listings error:', error);
+    console.error('Delete property photo error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
+// Property Availability Routes
+
 /*
-Get user's bookings endpoint
-Retrieves all bookings associated with a user as guest or host
+Get property availability endpoint
+Retrieves availability calendar for a property within date range
 */
-app.get('/api/users/:user_id/bookings', authenticateToken, async (req, res) => {
+app.get('/api/properties/:property_id/availability', async (req, res) => {
   try {
-    const { user_id } = req.params;
-    const { status } = req.query;
-    const statusStr = status as string;
-
-    // Check access
-    if (req.user.user_id !== user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot access other user bookings', null, 'FORBIDDEN_ACCESS'));
-    }
+    const { property_id } = req.params;
+    const { start_date, end_date } = req.query;
+    const startDateStr = start_date as string;
+    const endDateStr = end_date as string;
 
-    let query = `SELECT * FROM bookings WHERE (guest_id = $1 OR host_id = $1)`;
-    const queryParams = [user_id];
+    let query = `SELECT * FROM property_availability WHERE property_id = $1`;
+    const queryParams = [property_id];
 
-    if (statusStr) {
-      query += ` AND status = $2`;
-      queryParams.push(statusStr);
+    if (startDateStr && endDateStr) {
+      query += ` AND date BETWEEN $2 AND $3`;
+      queryParams.push(startDateStr, endDateStr);
     }
 
-    query += ` ORDER BY created_at DESC`;
+    query += ` ORDER BY date ASC`;
 
     const result = await pool.query(query, queryParams);
 
     res.json(result.rows);
   } catch (error) {
-    console.error('Get user bookings error:', error);
+    console.error('Get property availability error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Get user's reviews endpoint
-Retrieves all reviews written by or received by a user
+Set property availability endpoint
+Creates or updates availability for specific dates
 */
-app.get('/api/users/:user_id/reviews', async (req, res) => {
+app.post('/api/properties/:property_id/availability', authenticateToken, async (req, res) => {
   try {
-    const { user_id } = req.params;
+    const { property_id } = req.params;
+    
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot modify availability of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const availabilityData = createPropertyAvailabilityInputSchema.parse({
+      ...req.body,
+      property_id
+    });
+
+    const availability_id = `avail_${nanoid()}`;
 
     const result = await pool.query(
-      `SELECT * FROM reviews WHERE reviewer_id = $1 OR host_id = $1 ORDER BY created_at DESC`,
-      [user_id]
+      `INSERT INTO property_availability (availability_id, property_id, date, is_available, price_override)
+       VALUES ($1, $2, $3, $4, $5) 
+       ON CONFLICT (property_id, date) 
+       DO UPDATE SET is_available = $4, price_override = $5
+       WHERE property_availability.booking_id IS NULL
+       RETURNING *`,
+      [availability_id, property_id, toDateOnly(availabilityData.date), availabilityData.is_available, availabilityData.price_override]
     );
 
-    res.json(result.rows);
+    // Nights held by a confirmed booking can only be freed by changing the booking
+    if (result.rows.length === 0) {
+      return res.status(409).json(createErrorResponse('Date is reserved by a confirmed booking', null, 'DATES_UNAVAILABLE'));
+    }
+
+    const newAvailability = result.rows[0];
+
+    // Emit WebSocket event; an existing row for the date keeps its id
+    io.emit(
+      newAvailability.availability_id === availability_id ? 'property_availability/created' : 'property_availability/updated',
+      newAvailability
+    );
+
+    res.status(201).json(newAvailability);
   } catch (error) {
-    console.error('Get user reviews error:', error);
+    console.error('Set property availability error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
-// Property Management Routes
+/*
+Set availability for a date range endpoint
+Blocks, reopens or prices every date in a span, or only some weekdays of it.
+Nights held by confirmed bookings are skipped and listed in skipped_dates
+*/
+app.put('/api/properties/:property_id/availability', authenticateToken, async (req, res) => {
+  try {
+    const { property_id } = req.params;
+
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot modify availability of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const rangeData = updateAvailabilityRangeInputSchema.parse({
+      ...req.body,
+      property_id
+    });
+    if (rangeData.is_available === undefined && rangeData.price_override === undefined) {
+      return res.status(400).json(createErrorResponse('Set is_available, price_override or both', null, 'NO_CHANGES'));
+    }
+
+    const dates = enumerateCalendarDates(rangeData.start_date, rangeData.end_date, rangeData.weekdays);
+
+    const changes = await withTransaction(async (client) => {
+      await lockPropertyCalendar(client, property_id);
+      return applyAvailabilityRange(client, property_id, dates, rangeData);
+    });
+
+    // Emit WebSocket events
+    changes.created.forEach(row => io.emit('property_availability/created', row));
+    changes.updated.forEach(row => io.emit('property_availability/updated', row));
+    changes.deleted.forEach(row => io.emit('property_availability/deleted', row));
+
+    res.json(changes);
+  } catch (error) {
+    console.error('Set availability range error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
 
 /*
-Search properties endpoint
-Advanced property search with filtering, sorting, and pagination
-Supports location, date range, guest count, price range, and amenity filtering
+Get property calendar endpoint
+Returns each day from start_date to end_date (the next 90 days by default) with
+its status, nightly price, confirmed booking and pending requests
 */
-app.get('/api/properties', async (req, res) => {
+app.get('/api/properties/:property_id/calendar', authenticateToken, async (req, res) => {
   try {
-    // Coerce query parameters to proper types
-    const searchParams = {
-      location: req.query.location as string,
-      check_in: req.query.check_in as string,
-      check_out: req.query.check_out as string,
-      guests: req.query.guests ? parseInt(req.query.guests as string) || undefined : undefined,
-      price_min: req.query.price_min ? parseFloat(req.query.price_min as string) || undefined : undefined,
-      price_max: req.query.price_max ? parseFloat(req.query.price_max as string) || undefined : undefined,
-      property_type: req.query.property_type as string,
-      amenities: req.query.amenities as string,
-      sort_by: req.query.sort_by as string,
-      limit: parseInt((req.query.limit as string) || '10'),
-      offset: parseInt((req.query.offset as string) || '0')
-    };
+    const { property_id } = req.params;
 
-    const {
-      location, check_in, check_out, guests, price_min, price_max,
-      property_type, amenities, sort_by, limit, offset
-    } = searchParams;
+    const propertyResult = await pool.query(
+      'SELECT property_id, host_id, base_price_per_night, currency FROM properties WHERE property_id = $1',
+      [property_id]
+    );
+    if (propertyResult.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
 
-    let query = `SELECT * FROM properties WHERE is_active = true`;
-    const queryParams = [];
-    let paramCount = 1;
+    const property = propertyResult.rows[0];
+    if (property.host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot view the calendar of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
 
-    // Location filtering
-    if (location) {
-      query += ` AND (city ILIKE $${paramCount} OR neighborhood ILIKE $${paramCount})`;
-      queryParams.push(`%${location}%`);
-      paramCount++;
+    const start_date = req.query.start_date ? toDateOnly(req.query.start_date as string) : new Date().toISOString().slice(0, 10);
+    const defaultEnd = new Date(`${start_date}T00:00:00Z`);
+    defaultEnd.setUTCDate(defaultEnd.getUTCDate() + 89);
+    const end_date = req.query.end_date ? toDateOnly(req.query.end_date as string) : defaultEnd.toISOString().slice(0, 10);
+
+    const days = await buildAvailabilityCalendar(pool, property, enumerateCalendarDates(start_date, end_date));
+
+    res.json({ property_id, currency: property.currency, start_date, end_date, days });
+  } catch (error) {
+    console.error('Get property calendar error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
     }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
 
-    // Guest capacity filtering
-    if (guests) {
-      query += ` AND guest_capacity >= $${paramCount}`;
-      queryParams.push(guests);
-      paramCount++;
+// Calendar Sync Routes
+
+// Absolute URL of a property's export feed
+const icalExportUrl = (req, token: string) => storedFileUrl(req, '/api/ical/', `${token}.ics`);
+
+/*
+Get calendar export endpoint
+Returns the secret URL other channels subscribe to, creating it on first use
+*/
+app.get('/api/properties/:property_id/ical/export', authenticateToken, async (req, res) => {
+  try {
+    const { property_id } = req.params;
+
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
     }
 
-    // Price range filtering
-    if (price_min) {
-      query += ` AND base_price_per_night >= $${paramCount}`;
-      queryParams.push(price_min);
-      paramCount++;
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access the calendar of other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    if (price_max) {
-      query += ` AND base_price_per_night <= $${paramCount}`;
-      queryParams.push(price_max);
-      paramCount++;
+    await pool.query(
+      `INSERT INTO ical_exports (property_id, token, created_at) VALUES ($1, $2, $3)
+       ON CONFLICT (property_id) DO NOTHING`,
+      [property_id, crypto.randomBytes(24).toString('base64url'), new Date().toISOString()]
+    );
+    const result = await pool.query('SELECT * FROM ical_exports WHERE property_id = $1', [property_id]);
+    const calendarExport = result.rows[0];
+
+    res.json({ export_url: icalExportUrl(req, calendarExport.token), created_at: calendarExport.created_at });
+  } catch (error) {
+    console.error('Get calendar export error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Rotate calendar export endpoint
+Issues a new export URL; channels subscribed to the old one stop receiving updates
+*/
+app.post('/api/properties/:property_id/ical/export/rotate', authenticateToken, async (req, res) => {
+  try {
+    const { property_id } = req.params;
+
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
     }
 
-    // Property type filtering
-    if (property_type) {
-      query += ` AND property_type = $${paramCount}`;
-      queryParams.push(property_type);
-      paramCount++;
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access the calendar of other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    // Amenities filtering
-    if (amenities) {
-      query += ` AND amenities ILIKE $${paramCount}`;
-      queryParams.push(`%${amenities}%`);
-      paramCount++;
+    const result = await pool.query(
+      `INSERT INTO ical_exports (property_id, token, created_at) VALUES ($1, $2, $3)
+       ON CONFLICT (property_id) DO UPDATE SET token = EXCLUDED.token, created_at = EXCLUDED.created_at
+       RETURNING *`,
+      [property_id, crypto.randomBytes(24).toString('base64url'), new Date().toISOString()]
+    );
+    const calendarExport = result.rows[0];
+
+    res.json({ export_url: icalExportUrl(req, calendarExport.token), created_at: calendarExport.created_at });
+  } catch (error) {
+    console.error('Rotate calendar export error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Calendar export feed endpoint
+Serves confirmed bookings and blocked nights as iCalendar to anyone holding the token
+*/
+app.get('/api/ical/:token.ics', async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT p.property_id, p.title FROM ical_exports e JOIN properties p ON p.property_id = e.property_id
+       WHERE e.token = $1`,
+      [req.params.token]
+    );
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Calendar not found', null, 'CALENDAR_NOT_FOUND'));
     }
 
-    // Date availability filtering
-    if (check_in && check_out) {
-      query += ` AND property_id NOT IN (
-        SELECT DISTINCT property_id FROM property_availability 
-        WHERE date BETWEEN $${paramCount} AND $${paramCount + 1} 
-        AND is_available = false
-      )`;
-      queryParams.push(check_in, check_out);
-      paramCount += 2;
+    const calendar = await buildICalendarExport(result.rows[0]);
+
+    res.set('Content-Type', 'text/calendar; charset=utf-8');
+    res.set('Cache-Control', 'private, max-age=300');
+    res.send(calendar);
+  } catch (error) {
+    console.error('Calendar export feed error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+List calendar imports endpoint
+Returns the linked and uploaded calendars of a property with their last sync and conflicts
+*/
+app.get('/api/properties/:property_id/ical/imports', authenticateToken, async (req, res) => {
+  try {
+    const { property_id } = req.params;
+
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
     }
 
-    // Sorting
-    switch (sort_by) {
-      case 'price_low_to_high':
-        query += ` ORDER BY base_price_per_night ASC`;
-        break;
-      case 'price_high_to_low':
-        query += ` ORDER BY base_price_per_night DESC`;
-        break;
-      case 'newest':
-        query += ` ORDER BY created_at DESC`;
-        break;
-      default:
-        query += ` ORDER BY created_at DESC`;
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access the calendar of other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    // Pagination
-    query += ` LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-    queryParams.push(limit, offset);
-
-    const result = await pool.query(query, queryParams);
-
-    // Get total count for pagination
-    const countQuery = `SELECT COUNT(*) FROM properties WHERE is_active = true`;
-    const countResult = await pool.query(countQuery);
+    const result = await pool.query(
+      'SELECT * FROM ical_imports WHERE property_id = $1 ORDER BY created_at ASC',
+      [property_id]
+    );
 
-    res.json({
-      properties: result.rows,
-      total_count: parseInt(countResult.rows[0].count)
-    });
+    res.json(result.rows.map(formatCalendarImport));
   } catch (error) {
-    console.error('Search properties error:', error);
+    console.error('List calendar imports error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Create property listing endpoint
-Creates new property listing with host ownership validation
+Create calendar import endpoint
+Links a calendar by source_url, pulled again every ICAL_SYNC_INTERVAL_MINUTES, or
+reads an uploaded .ics file once; its events block nights straight away
 */
-app.post('/api/properties', authenticateToken, async (req, res) => {
+app.post('/api/properties/:property_id/ical/imports', authenticateToken, acceptUpload(calendarUpload, 'calendar'), async (req, res) => {
+  let import_id: string | null = null;
   try {
-    const propertyData = createPropertyInputSchema.parse({
-      ...req.body,
-      host_id: req.user.user_id
-    });
+    const { property_id } = req.params;
 
-    const property_id = `prop_${nanoid()}`;
-    const now = new Date().toISOString();
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
 
-    const result = await pool.query(
-      `INSERT INTO properties (
-        property_id, host_id, title, description, city, neighborhood, address,
-        latitude, longitude, property_type, guest_capacity, bedrooms, beds, bathrooms,
-        amenities, base_price_per_night, currency, has_power_backup, has_water_tank,
-        house_rules, cancellation_policy, instant_book, is_active, created_at, updated_at
-      ) VALUES (
-        $1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, $19, $20, $21, $22, $23, $24, $25
-      ) RETURNING *`,
-      [
-        property_id, propertyData.host_id, propertyData.title, propertyData.description,
-        propertyData.city, propertyData.neighborhood, propertyData.address,
-        propertyData.latitude, propertyData.longitude, propertyData.property_type,
-        propertyData.guest_capacity, propertyData.bedrooms, propertyData.beds, propertyData.bathrooms,
-        propertyData.amenities, propertyData.base_price_per_night, propertyData.currency || 'LYD',
-        propertyData.has_power_backup, propertyData.has_water_tank, propertyData.house_rules,
-        propertyData.cancellation_policy, propertyData.instant_book, propertyData.is_active,
-        now, now
-      ]
-    );
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot modify the calendar of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
 
-    const newProperty = result.rows[0];
+    const importData = createCalendarImportInputSchema.parse({ ...req.body, property_id });
+    const source_url = req.file ? null : importData.source_url;
+    if (!req.file && !source_url) {
+      return res.status(400).json(createErrorResponse('Provide a source_url or upload a calendar file', null, 'ICAL_SOURCE_REQUIRED'));
+    }
 
-    // Emit WebSocket event
-    io.emit('property/created', newProperty);
+    import_id = `ical_${nanoid()}`;
+    const now = new Date().toISOString();
+    await pool.query(
+      `INSERT INTO ical_imports (import_id, property_id, name, source_url, created_at, updated_at)
+       VALUES ($1, $2, $3, $4, $5, $5)`,
+      [import_id, property_id, importData.name, source_url && source_url.replace(/^webcal:/i, 'https:'), now]
+    );
 
-    res.status(201).json(newProperty);
+    const result = await syncCalendarImport(import_id, req.file ? req.file.buffer.toString('utf8') : undefined);
+
+    res.status(201).json(result);
   } catch (error) {
-    console.error('Create property error:', error);
+    console.error('Create calendar import error:', error);
+    // A calendar that cannot be read on the first try is not kept
+    if (import_id) {
+      await pool.query('DELETE FROM ical_imports WHERE import_id = $1', [import_id]).catch(() => undefined);
+    }
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Get property details endpoint
-Retrieves comprehensive property information including photos and availability
+Sync calendar import endpoint
+Pulls a linked calendar now, or re-reads an uploaded one from a new file
 */
-app.get('/api/properties/:property_id', async (req, res) => {
+app.post('/api/properties/:property_id/ical/imports/:import_id/sync', authenticateToken, acceptUpload(calendarUpload, 'calendar'), async (req, res) => {
   try {
-    const { property_id } = req.params;
+    const { property_id, import_id } = req.params;
 
-    const result = await pool.query(
-      `SELECT * FROM properties WHERE property_id = $1`,
-      [property_id]
+    // Check ownership
+    const ownerCheck = await pool.query(
+      `SELECT p.host_id, i.source_url FROM ical_imports i JOIN properties p ON p.property_id = i.property_id
+       WHERE i.import_id = $1 AND i.property_id = $2`,
+      [import_id, property_id]
     );
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Calendar import not found', null, 'CALENDAR_IMPORT_NOT_FOUND'));
+    }
 
-    if (result.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot modify the calendar of other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    res.json(result.rows[0]);
+    if (!req.file && !ownerCheck.rows[0].source_url) {
+      return res.status(400).json(createErrorResponse('Uploaded calendars sync from a new upload', null, 'ICAL_SOURCE_REQUIRED'));
+    }
+
+    const result = await syncCalendarImport(import_id, req.file ? req.file.buffer.toString('utf8') : undefined);
+
+    res.json(result);
   } catch (error) {
-    console.error('Get property error:', error);
+    console.error('Sync calendar import error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Update property listing endpoint
-Updates property details with ownership validation
+Delete calendar import endpoint
+Unlinks a calendar and reopens the upcoming nights only it had blocked
 */
-app.patch('/api/properties/:property_id', authenticateToken, async (req, res) => {
+app.delete('/api/properties/:property_id/ical/imports/:import_id', authenticateToken, async (req, res) => {
   try {
-    const { property_id } = req.params;
-    
+    const { property_id, import_id } = req.params;
+
     // Check ownership
-    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    const ownerCheck = await pool.query(
+      `SELECT p.host_id FROM ical_imports i JOIN properties p ON p.property_id = i.property_id
+       WHERE i.import_id = $1 AND i.property_id = $2`,
+      [import_id, property_id]
+    );
     if (ownerCheck.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+      return res.status(404).json(createErrorResponse('Calendar import not found', null, 'CALENDAR_IMPORT_NOT_FOUND'));
     }
 
     if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot update other user properties', null, 'FORBIDDEN_ACCESS'));
-    }
-
-    const updateData = updatePropertyInputSchema.parse({ ...req.body, property_id });
-    
-    // Build dynamic update query
-    const updateFields = [];
-    const updateValues = [];
-    let paramCount = 1;
-
-    for (const [key, value] of Object.entries(updateData)) {
-      if (key !== 'property_id' && value !== undefined) {
-        updateFields.push(`${key} = $${paramCount}`);
-        updateValues.push(value);
-        paramCount++;
-      }
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot modify the calendar of other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    if (updateFields.length === 0) {
-      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
-    }
+    const released = await withTransaction(async (client) => {
+      await lockPropertyCalendar(client, property_id);
+      const changes = await releaseCalendarImport(client, import_id);
+      await client.query('DELETE FROM ical_imports WHERE import_id = $1', [import_id]);
+      return changes;
+    });
 
-    updateFields.push(`updated_at = $${paramCount}`);
-    updateValues.push(new Date().toISOString());
-    updateValues.push(property_id);
+    // Emit WebSocket events
+    released.updated.forEach(row => io.emit('property_availability/updated', row));
+    released.deleted.forEach(row => io.emit('property_availability/deleted', row));
 
-    const result = await pool.query(
-      `UPDATE properties SET ${updateFields.join(', ')} WHERE property_id = $${paramCount + 1} RETURNING *`,
-      updateValues
-    );
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete calendar import error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
 
-    const updatedProperty = result.rows[0];
+/*
+Get property price quote endpoint
+Returns the nightly line items, service fee and total for a prospective stay
+*/
+app.get('/api/properties/:property_id/quote', async (req, res) => {
+  try {
+    const { property_id } = req.params;
+    const quoteParams = propertyQuoteInputSchema.parse({
+      check_in: req.query.check_in,
+      check_out: req.query.check_out,
+      guests: req.query.guests ? parseInt(req.query.guests as string) : undefined
+    });
 
-    // Emit WebSocket event
-    io.emit('property/updated', updatedProperty);
+    const quote = await calculateBookingQuote(pool, {
+      property_id,
+      check_in: quoteParams.check_in,
+      check_out: quoteParams.check_out,
+      guest_count: quoteParams.guests
+    });
+    // A stay that could not be booked gets no price
+    await assertStayAllowed(pool, property_id, quote.check_in, quote.check_out);
 
-    res.json(updatedProperty);
+    res.json(quote);
   } catch (error) {
-    console.error('Update property error:', error);
+    console.error('Get property quote error:', error);
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Delete property listing endpoint
-Soft deletes property by setting is_active to false
+Get instant book eligibility endpoint
+Tells the authenticated guest whether a booking on this listing confirms instantly
 */
-app.delete('/api/properties/:property_id', authenticateToken, async (req, res) => {
+app.get('/api/properties/:property_id/instant-book', authenticateToken, async (req, res) => {
   try {
     const { property_id } = req.params;
-    
-    // Check ownership
-    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
-    if (ownerCheck.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
-    }
 
-    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot delete other user properties', null, 'FORBIDDEN_ACCESS'));
+    const eligibility = await getInstantBookEligibility(pool, property_id, req.user.user_id);
+
+    res.json(eligibility);
+  } catch (error) {
+    console.error('Get instant book eligibility error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
     }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
 
-    await pool.query(
-      `UPDATE properties SET is_active = false, updated_at = $1 WHERE property_id = $2`,
-      [new Date().toISOString(), property_id]
-    );
+/*
+Get property reviews endpoint
+Retrieves all reviews for a specific property
+*/
+app.get('/api/properties/:property_id/reviews', async (req, res) => {
+  try {
+    const { property_id } = req.params;
 
-    // Emit WebSocket event
-    io.emit('property/deleted', { property_id });
+    const result = await pool.query(
+      `SELECT * FROM reviews WHERE property_id = $1 AND published_at IS NOT NULL ORDER BY created_at DESC`,
+      [property_id]
+    );
 
-    res.status(204).send();
+    res.json(await attachReviewDetails(result.rows));
   } catch (error) {
-    console.error('Delete property error:', error);
+    console.error('Get property reviews error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
-// Property Photos Routes
+// Pricing Rule Routes
+
+// Fields each rule type takes; the others must be left empty
+const PRICING_RULE_FIELDS: Record<PricingRule['rule_type'], string[]> = {
+  weekend: ['nightly_price', 'adjustment_percent'],
+  seasonal: ['start_date', 'end_date', 'nightly_price', 'adjustment_percent'],
+  length_of_stay: ['min_nights', 'adjustment_percent'],
+  early_bird: ['days_before', 'adjustment_percent'],
+  last_minute: ['days_before', 'adjustment_percent']
+};
 
 /*
-Get property photos endpoint
-Retrieves all photos for a property ordered by display order
+Checks a rule as it would be stored: weekend and seasonal rules take either
+nightly_price or adjustment_percent, seasonal rules also an inclusive date span,
+and the stay-level rules their threshold and adjustment_percent
 */
-app.get('/api/properties/:property_id/photos', async (req, res) => {
+const assertValidPricingRule = (rule) => {
+  const invalid = (message: string) => new ApiError(400, message, 'INVALID_PRICING_RULE');
+  const present = (field: string) => rule[field] !== null && rule[field] !== undefined;
+  const allowed = PRICING_RULE_FIELDS[rule.rule_type];
+
+  const unused = Object.values(PRICING_RULE_FIELDS).flat().filter((field, index, fields) =>
+    fields.indexOf(field) === index && present(field) && !allowed.includes(field)
+  );
+  if (unused.length > 0) {
+    throw invalid(`${rule.rule_type} rules do not take ${unused.join(', ')}`);
+  }
+
+  if (rule.rule_type === 'weekend' || rule.rule_type === 'seasonal') {
+    if (present('nightly_price') === present('adjustment_percent')) {
+      throw invalid(`${rule.rule_type} rules take either nightly_price or adjustment_percent`);
+    }
+  } else {
+    const missing = allowed.filter(field => !present(field));
+    if (missing.length > 0) {
+      throw invalid(`${rule.rule_type} rules require ${missing.join(', ')}`);
+    }
+  }
+
+  if (rule.rule_type === 'seasonal') {
+    if (!present('start_date') || !present('end_date')) {
+      throw invalid('seasonal rules require start_date and end_date');
+    }
+    if (rule.end_date < rule.start_date) {
+      throw invalid('end_date must not be before start_date');
+    }
+  }
+};
+
+// Schema dates become the YYYY-MM-DD strings the rule columns store
+const pricingRuleDates = (input: { start_date?: Date | null; end_date?: Date | null }) => ({
+  ...(input.start_date !== undefined && { start_date: input.start_date === null ? null : toDateOnly(input.start_date) }),
+  ...(input.end_date !== undefined && { end_date: input.end_date === null ? null : toDateOnly(input.end_date) })
+});
+
+/*
+Get pricing rules endpoint
+Lists the property's pricing rules, inactive ones included
+*/
+app.get('/api/properties/:property_id/pricing-rules', authenticateToken, async (req, res) => {
   try {
     const { property_id } = req.params;
 
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access pricing rules of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
     const result = await pool.query(
-      `SELECT * FROM property_photos WHERE property_id = $1 ORDER BY display_order ASC`,
+      'SELECT * FROM pricing_rules WHERE property_id = $1 ORDER BY rule_type ASC, created_at DESC',
       [property_id]
     );
 
-    res.json(result.rows);
+    res.json(result.rows.map(formatPricingRule));
   } catch (error) {
-    console.error('Get property photos error:', error);
+    console.error('Get pricing rules error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Add property photo endpoint
-Adds new photo to property with ownership validation
+Create pricing rule endpoint
+Adds a rule that quotes, bookings, search and the host calendar price with from now on
 */
-app.post('/api/properties/:property_id/photos', authenticateToken, async (req, res) => {
+app.post('/api/properties/:property_id/pricing-rules', authenticateToken, async (req, res) => {
   try {
     const { property_id } = req.params;
-    
+
     // Check ownership
     const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
     if (ownerCheck.rows.length === 0) {
@@ -899,177 +5424,186 @@ app.post('/api/properties/:property_id/photos', authenticateToken, async (req, r
     }
 
     if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot add photos to other user properties', null, 'FORBIDDEN_ACCESS'));
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot add pricing rules to other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    const photoData = createPropertyPhotoInputSchema.parse({
-      ...req.body,
-      property_id
-    });
+    const ruleData = createPricingRuleInputSchema.parse({ ...req.body, property_id });
+    const rule = { ...ruleData, ...pricingRuleDates(ruleData) };
+    assertValidPricingRule(rule);
 
-    const photo_id = `photo_${nanoid()}`;
+    const rule_id = `rule_${nanoid()}`;
+    const now = new Date().toISOString();
 
     const result = await pool.query(
-      `INSERT INTO property_photos (photo_id, property_id, photo_url, caption, display_order, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
-      [photo_id, property_id, photoData.photo_url, photoData.caption, photoData.display_order, new Date().toISOString()]
+      `INSERT INTO pricing_rules (
+        rule_id, property_id, rule_type, name, start_date, end_date, nightly_price,
+        adjustment_percent, min_nights, days_before, is_active, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
+      [
+        rule_id, property_id, rule.rule_type, rule.name, rule.start_date ?? null, rule.end_date ?? null,
+        rule.nightly_price ?? null, rule.adjustment_percent ?? null, rule.min_nights ?? null,
+        rule.days_before ?? null, rule.is_active, now, now
+      ]
     );
 
-    const newPhoto = result.rows[0];
-
-    // Emit WebSocket event
-    io.emit('property_photo/created', newPhoto);
-
-    res.status(201).json(newPhoto);
+    res.status(201).json(formatPricingRule(result.rows[0]));
   } catch (error) {
-    console.error('Add property photo error:', error);
+    console.error('Create pricing rule error:', error);
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Update property photo endpoint
-Updates photo details with ownership validation
+Update pricing rule endpoint
+Changes a rule's name, values or is_active; rule_type is fixed, and the updated
+rule must still have the fields its type needs
 */
-app.patch('/api/properties/:property_id/photos/:photo_id', authenticateToken, async (req, res) => {
+app.patch('/api/properties/:property_id/pricing-rules/:rule_id', authenticateToken, async (req, res) => {
   try {
-    const { property_id, photo_id } = req.params;
-    
-    // Check ownership through property
+    const { property_id, rule_id } = req.params;
+
+    // Check ownership
     const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
     if (ownerCheck.rows.length === 0) {
       return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
     }
 
     if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot update photos of other user properties', null, 'FORBIDDEN_ACCESS'));
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot update pricing rules of other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    const updateData = updatePropertyPhotoInputSchema.parse({ ...req.body, photo_id });
-    
-    // Build dynamic update query
-    const updateFields = [];
-    const updateValues = [];
-    let paramCount = 1;
-
-    for (const [key, value] of Object.entries(updateData)) {
-      if (key !== 'photo_id' && value !== undefined) {
-        updateFields.push(`${key} = $${paramCount}`);
-        updateValues.push(value);
-        paramCount++;
-      }
-    }
+    const updateData = updatePricingRuleInputSchema.parse({ ...req.body, rule_id });
 
-    if (updateFields.length === 0) {
-      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
+    const existing = await pool.query(
+      'SELECT * FROM pricing_rules WHERE rule_id = $1 AND property_id = $2',
+      [rule_id, property_id]
+    );
+    if (existing.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Pricing rule not found', null, 'PRICING_RULE_NOT_FOUND'));
     }
 
-    updateValues.push(photo_id);
-
-    const result = await pool.query(
-      `UPDATE property_photos SET ${updateFields.join(', ')} WHERE photo_id = $${paramCount + 1} RETURNING *`,
-      updateValues
+    const changes = Object.fromEntries(
+      Object.entries({ ...updateData, ...pricingRuleDates(updateData) }).filter(([key, value]) => key !== 'rule_id' && value !== undefined)
     );
-
-    if (result.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('Photo not found', null, 'PHOTO_NOT_FOUND'));
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
     }
 
-    const updatedPhoto = result.rows[0];
-
-    // Emit WebSocket event
-    io.emit('property_photo/updated', updatedPhoto);
+    const rule = { ...formatPricingRule(existing.rows[0]), ...changes };
+    assertValidPricingRule(rule);
 
-    res.json(updatedPhoto);
+    const result = await pool.query(
+      `UPDATE pricing_rules SET name = $1, start_date = $2, end_date = $3, nightly_price = $4,
+       adjustment_percent = $5, min_nights = $6, days_before = $7, is_active = $8, updated_at = $9
+       WHERE rule_id = $10 RETURNING *`,
+      [
+        rule.name, rule.start_date, rule.end_date, rule.nightly_price, rule.adjustment_percent,
+        rule.min_nights, rule.days_before, rule.is_active, new Date().toISOString(), rule_id
+      ]
+    );
+
+    res.json(formatPricingRule(result.rows[0]));
   } catch (error) {
-    console.error('Update property photo error:', error);
+    console.error('Update pricing rule error:', error);
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Delete property photo endpoint
-Removes photo from property with ownership validation
+Delete pricing rule endpoint
+Removes a rule; bookings already made keep the prices they were quoted
 */
-app.delete('/api/properties/:property_id/photos/:photo_id', authenticateToken, async (req, res) => {
+app.delete('/api/properties/:property_id/pricing-rules/:rule_id', authenticateToken, async (req, res) => {
   try {
-    const { property_id, photo_id } = req.params;
-    
-    // Check ownership through property
+    const { property_id, rule_id } = req.params;
+
+    // Check ownership
     const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
     if (ownerCheck.rows.length === 0) {
       return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
     }
 
     if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot delete photos from other user properties', null, 'FORBIDDEN_ACCESS'));
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot delete pricing rules of other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
     const result = await pool.query(
-      `DELETE FROM property_photos WHERE photo_id = $1 RETURNING photo_id`,
-      [photo_id]
+      'DELETE FROM pricing_rules WHERE rule_id = $1 AND property_id = $2 RETURNING rule_id',
+      [rule_id, property_id]
     );
 
     if (result.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('Photo not found', null, 'PHOTO_NOT_FOUND'));
+      return res.status(404).json(createErrorResponse('Pricing rule not found', null, 'PRICING_RULE_NOT_FOUND'));
     }
 
-    // Emit WebSocket event
-    io.emit('property_photo/deleted', { photo_id });
-
     res.status(204).send();
   } catch (error) {
-    console.error('Delete property photo error:', error);
+    console.error('Delete pricing rule error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
-// Property Availability Routes
+// Stay Restriction Routes
 
 /*
-Get property availability endpoint
-Retrieves availability calendar for a property within date range
+Checks a date-range restriction as it would be stored: its span is in order, its
+night limits agree and it restricts something
 */
-app.get('/api/properties/:property_id/availability', async (req, res) => {
+const assertValidStayRestriction = (restriction) => {
+  if (restriction.end_date < restriction.start_date) {
+    throw new ApiError(400, 'end_date must not be before start_date', 'INVALID_DATE_RANGE');
+  }
+  assertNightLimits(restriction);
+  if (restriction.min_nights === null && restriction.max_nights === null && !restriction.closed_to_arrival && !restriction.closed_to_departure) {
+    throw new ApiError(400, 'Set min_nights, max_nights, closed_to_arrival or closed_to_departure', 'INVALID_STAY_RESTRICTION');
+  }
+};
+
+/*
+Get stay restrictions endpoint
+Lists the property's date-range restrictions; its own limits are on the property
+*/
+app.get('/api/properties/:property_id/stay-restrictions', async (req, res) => {
   try {
     const { property_id } = req.params;
-    const { start_date, end_date } = req.query;
-    const startDateStr = start_date as string;
-    const endDateStr = end_date as string;
-
-    let query = `SELECT * FROM property_availability WHERE property_id = $1`;
-    const queryParams = [property_id];
 
-    if (startDateStr && endDateStr) {
-      query += ` AND date BETWEEN $2 AND $3`;
-      queryParams.push(startDateStr, endDateStr);
+    const propertyCheck = await pool.query('SELECT 1 FROM properties WHERE property_id = $1', [property_id]);
+    if (propertyCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
     }
 
-    query += ` ORDER BY date ASC`;
-
-    const result = await pool.query(query, queryParams);
+    const result = await pool.query(
+      'SELECT * FROM stay_restrictions WHERE property_id = $1 ORDER BY start_date ASC, created_at ASC',
+      [property_id]
+    );
 
     res.json(result.rows);
   } catch (error) {
-    console.error('Get property availability error:', error);
+    console.error('Get stay restrictions error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Set property availability endpoint
-Creates or updates availability for specific dates
+Create stay restriction endpoint
+Restricts stays over a span of dates, e.g. a weekly minimum over summer or no check-ins on Eid
 */
-app.post('/api/properties/:property_id/availability', authenticateToken, async (req, res) => {
+app.post('/api/properties/:property_id/stay-restrictions', authenticateToken, async (req, res) => {
   try {
     const { property_id } = req.params;
-    
+
     // Check ownership
     const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
     if (ownerCheck.rows.length === 0) {
@@ -1077,56 +5611,141 @@ app.post('/api/properties/:property_id/availability', authenticateToken, async (
     }
 
     if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot modify availability of other user properties', null, 'FORBIDDEN_ACCESS'));
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot add stay restrictions to other user properties', null, 'FORBIDDEN_ACCESS'));
     }
 
-    const availabilityData = createPropertyAvailabilityInputSchema.parse({
-      ...req.body,
-      property_id
-    });
+    const restrictionData = createStayRestrictionInputSchema.parse({ ...req.body, property_id });
+    const restriction = {
+      ...restrictionData,
+      start_date: toDateOnly(restrictionData.start_date),
+      end_date: toDateOnly(restrictionData.end_date),
+      min_nights: restrictionData.min_nights ?? null,
+      max_nights: restrictionData.max_nights ?? null
+    };
+    assertValidStayRestriction(restriction);
 
-    const availability_id = `avail_${nanoid()}`;
+    const restriction_id = `restr_${nanoid()}`;
+    const now = new Date().toISOString();
 
     const result = await pool.query(
-      `INSERT INTO property_availability (availability_id, property_id, date, is_available, price_override)
-       VALUES ($1, $2, $3, $4, $5) 
-       ON CONFLICT (property_id, date) 
-       DO UPDATE SET is_available = $4, price_override = $5
-       RETURNING *`,
-      [availability_id, property_id, availabilityData.date, availabilityData.is_available, availabilityData.price_override]
+      `INSERT INTO stay_restrictions (
+        restriction_id, property_id, start_date, end_date, min_nights, max_nights,
+        closed_to_arrival, closed_to_departure, created_at, updated_at
+      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+      [
+        restriction_id, property_id, restriction.start_date, restriction.end_date, restriction.min_nights,
+        restriction.max_nights, restriction.closed_to_arrival, restriction.closed_to_departure, now, now
+      ]
     );
 
-    const newAvailability = result.rows[0];
+    res.status(201).json(result.rows[0]);
+  } catch (error) {
+    console.error('Create stay restriction error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
 
-    // Emit WebSocket event
-    io.emit('property_availability/created', newAvailability);
+/*
+Update stay restriction endpoint
+Bookings already made are not affected
+*/
+app.patch('/api/properties/:property_id/stay-restrictions/:restriction_id', authenticateToken, async (req, res) => {
+  try {
+    const { property_id, restriction_id } = req.params;
 
-    res.status(201).json(newAvailability);
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot update stay restrictions of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const updateData = updateStayRestrictionInputSchema.parse({ ...req.body, restriction_id });
+
+    const existing = await pool.query(
+      'SELECT * FROM stay_restrictions WHERE restriction_id = $1 AND property_id = $2',
+      [restriction_id, property_id]
+    );
+    if (existing.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Stay restriction not found', null, 'STAY_RESTRICTION_NOT_FOUND'));
+    }
+
+    const changes = Object.fromEntries(
+      Object.entries({
+        ...updateData,
+        start_date: updateData.start_date && toDateOnly(updateData.start_date),
+        end_date: updateData.end_date && toDateOnly(updateData.end_date)
+      }).filter(([key, value]) => key !== 'restriction_id' && value !== undefined)
+    );
+    if (Object.keys(changes).length === 0) {
+      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
+    }
+
+    const restriction = { ...existing.rows[0], ...changes };
+    assertValidStayRestriction(restriction);
+
+    const result = await pool.query(
+      `UPDATE stay_restrictions SET start_date = $1, end_date = $2, min_nights = $3, max_nights = $4,
+       closed_to_arrival = $5, closed_to_departure = $6, updated_at = $7
+       WHERE restriction_id = $8 RETURNING *`,
+      [
+        restriction.start_date, restriction.end_date, restriction.min_nights, restriction.max_nights,
+        restriction.closed_to_arrival, restriction.closed_to_departure, new Date().toISOString(), restriction_id
+      ]
+    );
+
+    res.json(result.rows[0]);
   } catch (error) {
-    console.error('Set property availability error:', error);
+    console.error('Update stay restriction error:', error);
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Get property reviews endpoint
-Retrieves all reviews for a specific property
+Delete stay restriction endpoint
+Removes a date-range restriction; the property's own limits apply again
 */
-app.get('/api/properties/:property_id/reviews', async (req, res) => {
+app.delete('/api/properties/:property_id/stay-restrictions/:restriction_id', authenticateToken, async (req, res) => {
   try {
-    const { property_id } = req.params;
+    const { property_id, restriction_id } = req.params;
+
+    // Check ownership
+    const ownerCheck = await pool.query('SELECT host_id FROM properties WHERE property_id = $1', [property_id]);
+    if (ownerCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Property not found', null, 'PROPERTY_NOT_FOUND'));
+    }
+
+    if (ownerCheck.rows[0].host_id !== req.user.user_id && req.user.role !== 'admin') {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot delete stay restrictions of other user properties', null, 'FORBIDDEN_ACCESS'));
+    }
 
     const result = await pool.query(
-      `SELECT * FROM reviews WHERE property_id = $1 ORDER BY created_at DESC`,
-      [property_id]
+      'DELETE FROM stay_restrictions WHERE restriction_id = $1 AND property_id = $2 RETURNING restriction_id',
+      [restriction_id, property_id]
     );
 
-    res.json(result.rows);
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Stay restriction not found', null, 'STAY_RESTRICTION_NOT_FOUND'));
+    }
+
+    res.status(204).send();
   } catch (error) {
-    console.error('Get property reviews error:', error);
+    console.error('Delete stay restriction error:', error);
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1135,7 +5754,8 @@ app.get('/api/properties/:property_id/reviews', async (req, res) => {
 
 /*
 Search bookings endpoint
-Advanced booking search with filtering and pagination
+Advanced booking search with filtering and cursor pagination; non-admins only see
+and count bookings they are a party to
 */
 app.get('/api/bookings', authenticateToken, async (req, res) => {
   try {
@@ -1148,71 +5768,79 @@ app.get('/api/bookings', authenticateToken, async (req, res) => {
       start_date: req.query.start_date as string,
       end_date: req.query.end_date as string,
       limit: parseInt((req.query.limit as string) || '10'),
-      offset: parseInt((req.query.offset as string) || '0')
+      offset: parseInt((req.query.offset as string) || '0'),
+      cursor: req.query.cursor as string
     };
 
     const {
       property_id, guest_id, host_id, status, start_date, end_date,
-      limit, offset
+      limit, offset, cursor
     } = bookingParams;
 
-    let query = `SELECT * FROM bookings WHERE 1=1`;
+    let where = `1=1`;
     const queryParams = [];
     let paramCount = 1;
 
     // Add user context filtering
     if (req.user.role !== 'admin') {
-      query += ` AND (guest_id = $${paramCount} OR host_id = $${paramCount})`;
+      where += ` AND (guest_id = $${paramCount} OR host_id = $${paramCount})`;
       queryParams.push(req.user.user_id);
       paramCount++;
     }
 
     // Apply additional filters
     if (property_id) {
-      query += ` AND property_id = $${paramCount}`;
+      where += ` AND property_id = $${paramCount}`;
       queryParams.push(property_id);
       paramCount++;
     }
 
     if (guest_id) {
-      query += ` AND guest_id = $${paramCount}`;
+      where += ` AND guest_id = $${paramCount}`;
       queryParams.push(guest_id);
       paramCount++;
     }
 
     if (host_id) {
-      query += ` AND host_id = $${paramCount}`;
+      where += ` AND host_id = $${paramCount}`;
       queryParams.push(host_id);
       paramCount++;
     }
 
     if (status) {
-      query += ` AND status = $${paramCount}`;
+      where += ` AND status = $${paramCount}`;
       queryParams.push(status);
       paramCount++;
     }
 
     if (start_date && end_date) {
-      query += ` AND check_in BETWEEN $${paramCount} AND $${paramCount + 1}`;
+      where += ` AND check_in BETWEEN $${paramCount} AND $${paramCount + 1}`;
       queryParams.push(start_date, end_date);
       paramCount += 2;
     }
 
-    query += ` ORDER BY created_at DESC LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-    queryParams.push(limit.toString(), offset.toString());
-
-    const result = await pool.query(query, queryParams);
-
-    // Get total count
-    const countQuery = `SELECT COUNT(*) FROM bookings WHERE 1=1`;
-    const countResult = await pool.query(countQuery);
+    const page = await fetchPage({
+      select: '*',
+      from: 'bookings',
+      where,
+      params: queryParams,
+      sort: 'newest',
+      order: [{ expression: 'created_at', direction: 'DESC' }, { expression: 'booking_id', direction: 'DESC' }],
+      limit,
+      offset,
+      cursor
+    });
 
     res.json({
-      bookings: result.rows,
-      total_count: parseInt(countResult.rows[0].count)
+      bookings: page.rows,
+      total_count: page.total_count,
+      next_cursor: page.next_cursor
     });
   } catch (error) {
     console.error('Search bookings error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1236,52 +5864,97 @@ app.post('/api/bookings', authenticateToken, async (req, res) => {
 
     const host_id = propertyCheck.rows[0].host_id;
     const booking_id = `book_${nanoid()}`;
+    const conversation_id = `conv_${nanoid()}`;
     const now = new Date().toISOString();
 
-    const result = await pool.query(
-      `INSERT INTO bookings (
-        booking_id, property_id, guest_id, host_id, check_in, check_out,
-        guest_count, total_price, service_fee, special_requests, status,
-        created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13) RETURNING *`,
-      [
-        booking_id, bookingData.property_id, bookingData.guest_id, host_id,
-        bookingData.check_in, bookingData.check_out, bookingData.guest_count,
-        bookingData.total_price, bookingData.service_fee, bookingData.special_requests,
-        bookingData.status || 'pending', now, now
-      ]
-    );
-
-    const newBooking = result.rows[0];
-
-    // Create conversation
-    const conversation_id = `conv_${nanoid()}`;
-    await pool.query(
-      `INSERT INTO conversations (conversation_id, booking_id, guest_id, host_id, created_at, updated_at)
-       VALUES ($1, $2, $3, $4, $5, $6)`,
-      [conversation_id, booking_id, bookingData.guest_id, host_id, now, now]
-    );
+    // Price, availability check and inserts share one transaction holding the calendar lock
+    const newBooking = await withTransaction(async (client) => {
+      await lockPropertyCalendar(client, bookingData.property_id);
+
+      // Recompute the price server-side; client totals are only checked against it
+      const quote = await calculateBookingQuote(client, {
+        property_id: bookingData.property_id,
+        check_in: bookingData.check_in,
+        check_out: bookingData.check_out,
+        guest_count: bookingData.guest_count
+      });
+      assertQuoteMatches(quote, bookingData);
+
+      await assertStayAllowed(client, bookingData.property_id, quote.check_in, quote.check_out);
+      await assertDatesAvailable(client, {
+        property_id: bookingData.property_id,
+        check_in: quote.check_in,
+        check_out: quote.check_out
+      });
+
+      // Snapshot the rates in force so later rate changes never reprice the stay
+      const conversion = await readCurrencyConversion(bookingData, client);
+
+      const result = await client.query(
+        `INSERT INTO bookings (
+          booking_id, property_id, guest_id, host_id, check_in, check_out,
+          guest_count, total_price, service_fee, currency, special_requests, status,
+          lyd_exchange_rate, display_currency, display_exchange_rate, exchange_rate_type,
+          created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18) RETURNING *`,
+        [
+          booking_id, bookingData.property_id, bookingData.guest_id, host_id,
+          quote.check_in, quote.check_out, bookingData.guest_count,
+          quote.total_price, quote.service_fee, quote.currency, bookingData.special_requests,
+          'pending',
+          conversion.rates.get(quote.currency) ?? null, conversion.currency,
+          exchangeRate(quote.currency, conversion), conversion.rate_type,
+          now, now
+        ]
+      );
+      const booking = result.rows[0];
+
+      await recordBookingTransition(client, {
+        booking_id,
+        from_status: null,
+        to_status: 'pending',
+        actor: { role: 'guest', user_id: bookingData.guest_id }
+      });
+
+      // Create conversation
+      await client.query(
+        `INSERT INTO conversations (conversation_id, booking_id, guest_id, host_id, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6)`,
+        [conversation_id, booking_id, bookingData.guest_id, host_id, now, now]
+      );
+
+      // Instant-book listings confirm straight away when the guest qualifies
+      const eligibility = await getInstantBookEligibility(client, bookingData.property_id, bookingData.guest_id);
+      if (eligibility.eligible) {
+        return transitionBookingStatus(client, booking, 'confirmed', SYSTEM_ACTOR, 'Instant book');
+      }
 
-    // Create notification for host
-    const notification_id = `not_${nanoid()}`;
-    await pool.query(
-      `INSERT INTO notifications (notification_id, user_id, type, title, message, related_entity_type, related_entity_id, is_read, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [
-        notification_id, host_id, 'booking_request', 'New Booking Request',
-        `You have a new booking request from ${req.user.name}`,
-        'booking', booking_id, false, now
-      ]
-    );
+      return booking;
+    });
 
     // Emit WebSocket events
     io.emit('booking/created', newBooking);
-    io.to(`user_${host_id}`).emit('notification/created', {
-      notification_id, user_id: host_id, type: 'booking_request',
-      title: 'New Booking Request', message: `You have a new booking request from ${req.user.name}`,
-      related_entity_type: 'booking', related_entity_id: booking_id,
-      is_read: false, created_at: now
-    });
+
+    if (newBooking.status === 'confirmed') {
+      io.emit('booking/confirmed', newBooking);
+      await createNotification({
+        user_id: bookingData.guest_id, type: 'booking_confirmed', title: 'Booking Confirmed',
+        message: 'Your booking has been instantly confirmed',
+        related_entity_type: 'booking', related_entity_id: booking_id
+      });
+      await createNotification({
+        user_id: host_id, type: 'booking_instant', title: 'New Instant Booking',
+        message: `${req.user.name} booked your listing with Instant Book`,
+        related_entity_type: 'booking', related_entity_id: booking_id
+      });
+    } else {
+      // Create notification for host
+      await createNotification({
+        user_id: host_id, type: 'booking_request', title: 'New Booking Request',
+        message: `You have a new booking request from ${req.user.name}`,
+        related_entity_type: 'booking', related_entity_id: booking_id
+      });
+    }
 
     res.status(201).json(newBooking);
   } catch (error) {
@@ -1289,6 +5962,12 @@ app.post('/api/bookings', authenticateToken, async (req, res) => {
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    if (error.code === EXCLUSION_VIOLATION) {
+      return res.status(409).json(createErrorResponse('Selected dates overlap an existing confirmed booking', null, 'DATES_UNAVAILABLE'));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1317,215 +5996,348 @@ app.get('/api/bookings/:booking_id', authenticateToken, async (req, res) => {
       return res.status(403).json(createErrorResponse('Forbidden: Cannot access other user bookings', null, 'FORBIDDEN_ACCESS'));
     }
 
-    res.json(booking);
+    // Hosts weigh incoming requests by how earlier hosts rated the guest
+    if (booking.guest_id !== req.user.user_id) {
+      booking.guest_reputation = await getGuestReputation(booking.guest_id);
+    }
+
+    res.json(booking);
+  } catch (error) {
+    console.error('Get booking error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Update booking endpoint
+Applies status transitions through the booking state machine and lets
+participants edit special requests; dates and prices are fixed after creation
+*/
+app.patch('/api/bookings/:booking_id', authenticateToken, async (req, res) => {
+  try {
+    const { booking_id } = req.params;
+    
+    // Get current booking
+    const bookingCheck = await pool.query('SELECT * FROM bookings WHERE booking_id = $1', [booking_id]);
+    if (bookingCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Booking not found', null, 'BOOKING_NOT_FOUND'));
+    }
+
+    const currentBooking = bookingCheck.rows[0];
+
+    // Check access
+    const actor = getBookingActor(currentBooking, req.user);
+    if (!actor) {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot update other user bookings', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const updateData = updateBookingInputSchema.parse({ ...req.body, booking_id });
+
+    if (updateData.status === undefined && updateData.special_requests === undefined) {
+      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
+    }
+
+    const { booking: updatedBooking, statusChanged } = await withTransaction(async (client) => {
+      const locked = await client.query('SELECT * FROM bookings WHERE booking_id = $1 FOR UPDATE', [booking_id]);
+      let booking = locked.rows[0];
+      let changed = false;
+
+      if (updateData.special_requests !== undefined) {
+        const result = await client.query(
+          'UPDATE bookings SET special_requests = $1, updated_at = $2 WHERE booking_id = $3 RETURNING *',
+          [updateData.special_requests, new Date().toISOString(), booking_id]
+        );
+        booking = result.rows[0];
+      }
+
+      if (updateData.status && updateData.status !== booking.status) {
+        booking = await transitionBookingStatus(client, booking, updateData.status, actor, updateData.reason);
+        changed = true;
+      }
+
+      return { booking, statusChanged: changed };
+    });
+
+    if (statusChanged) {
+      await notifyBookingStatusChange(updatedBooking, actor);
+    } else {
+      io.emit('booking/updated', updatedBooking);
+    }
+
+    res.json(updatedBooking);
+  } catch (error) {
+    console.error('Update booking error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    if (error.code === EXCLUSION_VIOLATION) {
+      return res.status(409).json(createErrorResponse('Selected dates overlap an existing confirmed booking', null, 'DATES_UNAVAILABLE'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get booking status history endpoint
+Lists every status transition of a booking in chronological order
+*/
+app.get('/api/bookings/:booking_id/history', authenticateToken, async (req, res) => {
+  try {
+    const { booking_id } = req.params;
+
+    const bookingCheck = await pool.query('SELECT guest_id, host_id FROM bookings WHERE booking_id = $1', [booking_id]);
+    if (bookingCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Booking not found', null, 'BOOKING_NOT_FOUND'));
+    }
+
+    if (!getBookingActor(bookingCheck.rows[0], req.user)) {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access other user bookings', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM booking_status_history WHERE booking_id = $1 ORDER BY created_at ASC`,
+      [booking_id]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get booking history error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get cancellation preview endpoint
+Shows the refund and host penalty that would apply if the requesting user
+cancelled the booking now, without changing anything
+*/
+app.get('/api/bookings/:booking_id/cancellation-preview', authenticateToken, async (req, res) => {
+  try {
+    const { booking_id } = req.params;
+
+    const bookingCheck = await pool.query('SELECT * FROM bookings WHERE booking_id = $1', [booking_id]);
+    if (bookingCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Booking not found', null, 'BOOKING_NOT_FOUND'));
+    }
+
+    const booking = bookingCheck.rows[0];
+    const actor = getBookingActor(booking, req.user);
+    if (!actor) {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access other user bookings', null, 'FORBIDDEN_ACCESS'));
+    }
+
+    assertBookingTransition(booking, 'cancelled', actor);
+
+    const outcome = await calculateCancellationOutcome(pool, booking, actor);
+
+    res.json(outcome);
   } catch (error) {
-    console.error('Get booking error:', error);
+    console.error('Get cancellation preview error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Update booking endpoint
-Updates booking status and details with proper authorization
+Get booking cancellation endpoint
+Returns the refund and penalty recorded when the booking was cancelled
 */
-app.patch('/api/bookings/:booking_id', authenticateToken, async (req, res) => {
+app.get('/api/bookings/:booking_id/cancellation', authenticateToken, async (req, res) => {
   try {
     const { booking_id } = req.params;
-    
-    // Get current booking
-    const bookingCheck = await pool.query('SELECT * FROM bookings WHERE booking_id = $1', [booking_id]);
+
+    const bookingCheck = await pool.query('SELECT guest_id, host_id FROM bookings WHERE booking_id = $1', [booking_id]);
     if (bookingCheck.rows.length === 0) {
       return res.status(404).json(createErrorResponse('Booking not found', null, 'BOOKING_NOT_FOUND'));
     }
 
-    const currentBooking = bookingCheck.rows[0];
+    if (!getBookingActor(bookingCheck.rows[0], req.user)) {
+      return res.status(403).json(createErrorResponse('Forbidden: Cannot access other user bookings', null, 'FORBIDDEN_ACCESS'));
+    }
 
-    // Check access
-    if (req.user.role !== 'admin' && currentBooking.guest_id !== req.user.user_id && currentBooking.host_id !== req.user.user_id) {
-      return res.status(403).json(createErrorResponse('Forbidden: Cannot update other user bookings', null, 'FORBIDDEN_ACCESS'));
+    const result = await pool.query('SELECT * FROM booking_cancellations WHERE booking_id = $1', [booking_id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Booking has not been cancelled', null, 'CANCELLATION_NOT_FOUND'));
     }
 
-    const updateData = updateBookingInputSchema.parse({ ...req.body, booking_id });
-    
-    // Build dynamic update query
-    const updateFields = [];
-    const updateValues = [];
-    let paramCount = 1;
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Get booking cancellation error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
 
-    for (const [key, value] of Object.entries(updateData)) {
-      if (key !== 'booking_id' && value !== undefined) {
-        updateFields.push(`${key} = $${paramCount}`);
-        updateValues.push(value);
-        paramCount++;
+/*
+Create review for booking endpoint
+Creates review after completed booking with validation; the review stays hidden
+until the host has reviewed the guest or the review window closes
+*/
+app.post('/api/bookings/:booking_id/reviews', authenticateToken, async (req, res) => {
+  try {
+    const { booking_id } = req.params;
+
+    const { newReview, published } = await withTransaction(async (client) => {
+      // Get booking details; the lock serializes this with the host's review
+      const bookingCheck = await client.query('SELECT * FROM bookings WHERE booking_id = $1 FOR UPDATE', [booking_id]);
+      if (bookingCheck.rows.length === 0) {
+        throw new ApiError(404, 'Booking not found', 'BOOKING_NOT_FOUND');
       }
-    }
 
-    if (updateFields.length === 0) {
-      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
-    }
+      const booking = bookingCheck.rows[0];
 
-    updateFields.push(`updated_at = $${paramCount}`);
-    updateValues.push(new Date().toISOString());
-    updateValues.push(booking_id);
+      // Check if user is the guest
+      if (booking.guest_id !== req.user.user_id) {
+        throw new ApiError(403, 'Forbidden: Only guests can review bookings', 'FORBIDDEN_ACCESS');
+      }
 
-    const result = await pool.query(
-      `UPDATE bookings SET ${updateFields.join(', ')} WHERE booking_id = $${paramCount + 1} RETURNING *`,
-      updateValues
-    );
+      assertReviewableStay(booking);
 
-    const updatedBooking = result.rows[0];
+      // Check if review already exists
+      const existingReview = await client.query('SELECT review_id FROM reviews WHERE booking_id = $1', [booking_id]);
+      if (existingReview.rows.length > 0) {
+        throw new ApiError(400, 'Review already exists for this booking', 'REVIEW_ALREADY_EXISTS');
+      }
+
+      const reviewData = createReviewInputSchema.parse({
+        ...req.body,
+        booking_id,
+        property_id: booking.property_id,
+        reviewer_id: req.user.user_id,
+        host_id: booking.host_id
+      });
 
-    // Handle status change notifications
-    if (updateData.status && updateData.status !== currentBooking.status) {
+      const review_id = `rev_${nanoid()}`;
       const now = new Date().toISOString();
-      const notification_id = `not_${nanoid()}`;
-      
-      let notificationData: NotificationData = {};
-      
-      if (updateData.status === 'confirmed') {
-        notificationData = {
-          user_id: currentBooking.guest_id,
-          type: 'booking_confirmed',
-          title: 'Booking Confirmed',
-          message: 'Your booking has been confirmed by the host'
-        };
-        io.emit('booking/confirmed', updatedBooking);
-      } else if (updateData.status === 'declined') {
-        notificationData = {
-          user_id: currentBooking.guest_id,
-          type: 'booking_declined',
-          title: 'Booking Declined',
-          message: 'Your booking request has been declined'
-        };
-        io.emit('booking/declined', updatedBooking);
-      } else if (updateData.status === 'cancelled') {
-        const targetUserId = req.user.user_id === currentBooking.guest_id ? currentBooking.host_id : currentBooking.guest_id;
-        notificationData = {
-          user_id: targetUserId,
-          type: 'booking_cancelled',
-          title: 'Booking Cancelled',
-          message: 'A booking has been cancelled'
-        };
-        io.emit('booking/cancelled', updatedBooking);
-      }
 
-      if (notificationData.user_id) {
-        await pool.query(
-          `INSERT INTO notifications (notification_id, user_id, type, title, message, related_entity_type, related_entity_id, is_read, created_at)
-           VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-          [
-            notification_id, notificationData.user_id, notificationData.type, notificationData.title,
-            notificationData.message, 'booking', booking_id, false, now
-          ]
-        );
+      await client.query(
+        `INSERT INTO reviews (
+          review_id, booking_id, property_id, reviewer_id, host_id,
+          cleanliness_rating, accuracy_rating, communication_rating,
+          location_rating, check_in_rating, value_rating, overall_rating,
+          comment, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)`,
+        [
+          review_id, booking_id, reviewData.property_id, reviewData.reviewer_id, reviewData.host_id,
+          reviewData.cleanliness_rating, reviewData.accuracy_rating, reviewData.communication_rating,
+          reviewData.location_rating, reviewData.check_in_rating, reviewData.value_rating,
+          reviewData.overall_rating, reviewData.comment, now, now
+        ]
+      );
+
+      const published = await publishBookingReviews(client, booking_id);
+      const result = await client.query('SELECT * FROM reviews WHERE review_id = $1', [review_id]);
+      return { newReview: result.rows[0], published };
+    });
 
-        io.to(`user_${notificationData.user_id}`).emit('notification/created', {
-          notification_id, ...notificationData, related_entity_type: 'booking',
-          related_entity_id: booking_id, is_read: false, created_at: now
-        });
-      }
-    }
+    // Create notification for host
+    await createNotification({
+      user_id: newReview.host_id,
+      type: 'review_received',
+      title: 'New Review',
+      message: newReview.published_at
+        ? `You received a new review from ${req.user.name}`
+        : `You received a new review from ${req.user.name}; review your guest to see it`,
+      related_entity_type: 'review',
+      related_entity_id: newReview.review_id
+    });
 
-    // Emit WebSocket event
-    io.emit('booking/updated', updatedBooking);
+    await announcePublishedReviews(published);
 
-    res.json(updatedBooking);
+    res.status(201).json(newReview);
   } catch (error) {
-    console.error('Update booking error:', error);
+    console.error('Create review error:', error);
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
 
 /*
-Create review for booking endpoint
-Creates review after completed booking with validation
+Create guest review endpoint
+Lets the host rate the guest of a completed stay; hidden until the guest has
+reviewed the stay or the review window closes
 */
-app.post('/api/bookings/:booking_id/reviews', authenticateToken, async (req, res) => {
+app.post('/api/bookings/:booking_id/guest-reviews', authenticateToken, async (req, res) => {
   try {
     const { booking_id } = req.params;
-    
-    // Get booking details
-    const bookingCheck = await pool.query('SELECT * FROM bookings WHERE booking_id = $1', [booking_id]);
-    if (bookingCheck.rows.length === 0) {
-      return res.status(404).json(createErrorResponse('Booking not found', null, 'BOOKING_NOT_FOUND'));
-    }
-
-    const booking = bookingCheck.rows[0];
 
-    // Check if user is the guest
-    if (booking.guest_id !== req.user.user_id) {
-      return res.status(403).json(createErrorResponse('Forbidden: Only guests can review bookings', null, 'FORBIDDEN_ACCESS'));
-    }
+    const { guestReview, published } = await withTransaction(async (client) => {
+      const bookingCheck = await client.query('SELECT * FROM bookings WHERE booking_id = $1 FOR UPDATE', [booking_id]);
+      if (bookingCheck.rows.length === 0) {
+        throw new ApiError(404, 'Booking not found', 'BOOKING_NOT_FOUND');
+      }
 
-    // Check if booking is completed
-    if (booking.status !== 'completed') {
-      return res.status(400).json(createErrorResponse('Cannot review booking that is not completed', null, 'BOOKING_NOT_COMPLETED'));
-    }
+      const booking = bookingCheck.rows[0];
 
-    // Check if review already exists
-    const existingReview = await pool.query('SELECT review_id FROM reviews WHERE booking_id = $1', [booking_id]);
-    if (existingReview.rows.length > 0) {
-      return res.status(400).json(createErrorResponse('Review already exists for this booking', null, 'REVIEW_ALREADY_EXISTS'));
-    }
+      if (booking.host_id !== req.user.user_id) {
+        throw new ApiError(403, 'Forbidden: Only the host can review the guest', 'FORBIDDEN_ACCESS');
+      }
 
-    const reviewData = createReviewInputSchema.parse({
-      ...req.body,
-      booking_id,
-      property_id: booking.property_id,
-      reviewer_id: req.user.user_id,
-      host_id: booking.host_id
-    });
+      assertReviewableStay(booking);
 
-    const review_id = `rev_${nanoid()}`;
-    const now = new Date().toISOString();
+      const existingReview = await client.query('SELECT guest_review_id FROM guest_reviews WHERE booking_id = $1', [booking_id]);
+      if (existingReview.rows.length > 0) {
+        throw new ApiError(400, 'Guest review already exists for this booking', 'REVIEW_ALREADY_EXISTS');
+      }
 
-    const result = await pool.query(
-      `INSERT INTO reviews (
-        review_id, booking_id, property_id, reviewer_id, host_id,
-        cleanliness_rating, accuracy_rating, communication_rating,
-        location_rating, check_in_rating, value_rating, overall_rating,
-        comment, created_at, updated_at
-      ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15) RETURNING *`,
-      [
-        review_id, booking_id, reviewData.property_id, reviewData.reviewer_id, reviewData.host_id,
-        reviewData.cleanliness_rating, reviewData.accuracy_rating, reviewData.communication_rating,
-        reviewData.location_rating, reviewData.check_in_rating, reviewData.value_rating,
-        reviewData.overall_rating, reviewData.comment, now, now
-      ]
-    );
+      const reviewData = createGuestReviewInputSchema.parse({
+        ...req.body,
+        booking_id,
+        guest_id: booking.guest_id,
+        host_id: req.user.user_id
+      });
 
-    const newReview = result.rows[0];
+      const guest_review_id = `grev_${nanoid()}`;
+      const now = new Date().toISOString();
 
-    // Create notification for host
-    const notification_id = `not_${nanoid()}`;
-    await pool.query(
-      `INSERT INTO notifications (notification_id, user_id, type, title, message, related_entity_type, related_entity_id, is_read, created_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
-      [
-        notification_id, booking.host_id, 'review_received', 'New Review',
-        `You received a new review from ${req.user.name}`,
-        'review', review_id, false, now
-      ]
-    );
+      await client.query(
+        `INSERT INTO guest_reviews (
+          guest_review_id, booking_id, guest_id, host_id, house_rules_rating, cleanliness_rating,
+          communication_rating, overall_rating, comment, created_at, updated_at
+        ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)`,
+        [
+          guest_review_id, booking_id, reviewData.guest_id, reviewData.host_id, reviewData.house_rules_rating,
+          reviewData.cleanliness_rating, reviewData.communication_rating, reviewData.overall_rating,
+          reviewData.comment || null, now, now
+        ]
+      );
+
+      const published = await publishBookingReviews(client, booking_id);
+      const result = await client.query('SELECT * FROM guest_reviews WHERE guest_review_id = $1', [guest_review_id]);
+      return { guestReview: result.rows[0], published };
+    });
 
-    // Emit WebSocket events
-    io.emit('review/created', newReview);
-    io.to(`user_${booking.host_id}`).emit('notification/created', {
-      notification_id, user_id: booking.host_id, type: 'review_received',
-      title: 'New Review', message: `You received a new review from ${req.user.name}`,
-      related_entity_type: 'review', related_entity_id: review_id,
-      is_read: false, created_at: now
+    await createNotification({
+      user_id: guestReview.guest_id,
+      type: 'guest_review_received',
+      title: 'Your Host Reviewed You',
+      message: guestReview.published_at
+        ? `${req.user.name} reviewed your stay`
+        : `${req.user.name} reviewed your stay; leave your own review to see it`,
+      related_entity_type: 'booking',
+      related_entity_id: booking_id
     });
 
-    res.status(201).json(newReview);
+    await announcePublishedReviews(published);
+
+    res.status(201).json(guestReview);
   } catch (error) {
-    console.error('Create review error:', error);
+    console.error('Create guest review error:', error);
     if (error.name === 'ZodError') {
       return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1589,28 +6401,39 @@ app.post('/api/conversations', authenticateToken, async (req, res) => {
 
 /*
 Get user conversations endpoint
-Retrieves all conversations for authenticated user
+Retrieves the authenticated user's conversations, most recently active first; the
+total and the cursor of the next page come in X-Total-Count and X-Next-Cursor
 */
 app.get('/api/conversations', authenticateToken, async (req, res) => {
   try {
     // Coerce query parameters to proper types
     const convParams = {
       limit: parseInt((req.query.limit as string) || '10'),
-      offset: parseInt((req.query.offset as string) || '0')
+      offset: parseInt((req.query.offset as string) || '0'),
+      cursor: req.query.cursor as string
     };
 
-    const { limit, offset } = convParams;
-
-    const result = await pool.query(
-      `SELECT * FROM conversations 
-       WHERE guest_id = $1 OR host_id = $1 
-       ORDER BY updated_at DESC 
-       LIMIT $2 OFFSET $3`,
-       [req.user.user_id, limit, offset]    );
+    const { limit, offset, cursor } = convParams;
+
+    const page = await fetchPage({
+      select: '*',
+      from: 'conversations',
+      where: 'guest_id = $1 OR host_id = $1',
+      params: [req.user.user_id],
+      sort: 'updated_at',
+      order: [{ expression: 'updated_at', direction: 'DESC' }, { expression: 'conversation_id', direction: 'DESC' }],
+      limit,
+      offset,
+      cursor
+    });
 
-    res.json(result.rows);
+    setPageHeaders(res, page);
+    res.json(page.rows);
   } catch (error) {
     console.error('Get conversations error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1648,7 +6471,7 @@ app.get('/api/conversations/:conversation_id', authenticateToken, async (req, re
 
 /*
 Get conversation messages endpoint
-Retrieves all messages in a conversation with pagination
+Retrieves the messages of a conversation oldest first, paged like conversations
 */
 app.get('/api/conversations/:conversation_id/messages', authenticateToken, async (req, res) => {
   try {
@@ -1656,10 +6479,11 @@ app.get('/api/conversations/:conversation_id/messages', authenticateToken, async
     // Coerce query parameters to proper types
     const msgParams = {
       limit: parseInt((req.query.limit as string) || '20'),
-      offset: parseInt((req.query.offset as string) || '0')
+      offset: parseInt((req.query.offset as string) || '0'),
+      cursor: req.query.cursor as string
     };
 
-    const { limit, offset } = msgParams;
+    const { limit, offset, cursor } = msgParams;
 
     // Check conversation access
     const conversationResult = await pool.query(
@@ -1677,16 +6501,25 @@ app.get('/api/conversations/:conversation_id/messages', authenticateToken, async
       return res.status(403).json(createErrorResponse('Forbidden: Cannot access other user conversations', null, 'FORBIDDEN_ACCESS'));
     }
 
-    const result = await pool.query(
-      `SELECT * FROM messages 
-       WHERE conversation_id = $1 
-       ORDER BY created_at ASC 
-       LIMIT $2 OFFSET $3`,
-       [conversation_id, limit, offset]    );
+    const page = await fetchPage({
+      select: '*',
+      from: 'messages',
+      where: 'conversation_id = $1',
+      params: [conversation_id],
+      sort: 'created_at',
+      order: [{ expression: 'created_at', direction: 'ASC' }, { expression: 'message_id', direction: 'ASC' }],
+      limit,
+      offset,
+      cursor
+    });
 
-    res.json(result.rows);
+    setPageHeaders(res, page);
+    res.json(page.rows);
   } catch (error) {
     console.error('Get conversation messages error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1800,7 +6633,7 @@ app.patch('/api/messages/:message_id', authenticateToken, async (req, res) => {
     updateValues.push(message_id);
 
     const result = await pool.query(
-      `UPDATE messages SET ${updateFields.join(', ')} WHERE message_id = $${paramCount + 1} RETURNING *`,
+      `UPDATE messages SET ${updateFields.join(', ')} WHERE message_id = $${paramCount} RETURNING *`,
       updateValues
     );
 
@@ -1823,7 +6656,7 @@ app.patch('/api/messages/:message_id', authenticateToken, async (req, res) => {
 
 /*
 Get all reviews endpoint
-Retrieves reviews with filtering, sorting, and pagination
+Retrieves reviews with filtering, sorting, and cursor pagination
 */
 app.get('/api/reviews', async (req, res) => {
   try {
@@ -1834,71 +6667,448 @@ app.get('/api/reviews', async (req, res) => {
       host_id: req.query.host_id as string,
       sort_by: req.query.sort_by as string,
       limit: parseInt((req.query.limit as string) || '10'),
-      offset: parseInt((req.query.offset as string) || '0')
+      offset: parseInt((req.query.offset as string) || '0'),
+      cursor: req.query.cursor as string
     };
 
     const {
       property_id, reviewer_id, host_id, sort_by,
-      limit, offset
+      limit, offset, cursor
     } = reviewParams;
 
-    let query = `SELECT * FROM reviews WHERE 1=1`;
+    // Reviews awaiting the other side of the stay stay hidden
+    let where = `published_at IS NOT NULL`;
     const queryParams = [];
     let paramCount = 1;
 
     // Apply filters
     if (property_id) {
-      query += ` AND property_id = $${paramCount}`;
+      where += ` AND property_id = $${paramCount}`;
       queryParams.push(property_id);
       paramCount++;
     }
 
     if (reviewer_id) {
-      query += ` AND reviewer_id = $${paramCount}`;
+      where += ` AND reviewer_id = $${paramCount}`;
       queryParams.push(reviewer_id);
       paramCount++;
     }
 
     if (host_id) {
-      query += ` AND host_id = $${paramCount}`;
+      where += ` AND host_id = $${paramCount}`;
       queryParams.push(host_id);
       paramCount++;
     }
 
-    // Sorting
+    // Sorting; review_id breaks ties so cursors never land between equal rows
+    const newestFirst: SortKey[] = [{ expression: 'created_at', direction: 'DESC' }, { expression: 'review_id', direction: 'DESC' }];
+    let order: SortKey[];
     switch (sort_by) {
       case 'rating_high_to_low':
-        query += ` ORDER BY overall_rating DESC`;
+        order = [{ expression: 'overall_rating', direction: 'DESC' }, ...newestFirst];
         break;
       case 'rating_low_to_high':
-        query += ` ORDER BY overall_rating ASC`;
-        break;
-      case 'newest':
-        query += ` ORDER BY created_at DESC`;
+        order = [{ expression: 'overall_rating', direction: 'ASC' }, ...newestFirst];
         break;
       case 'oldest':
-        query += ` ORDER BY created_at ASC`;
+        order = [{ expression: 'created_at', direction: 'ASC' }, { expression: 'review_id', direction: 'ASC' }];
         break;
       default:
-        query += ` ORDER BY created_at DESC`;
+        order = newestFirst;
+    }
+
+    const page = await fetchPage({
+      select: '*',
+      from: 'reviews',
+      where,
+      params: queryParams,
+      sort: sort_by || 'newest',
+      order,
+      limit,
+      offset,
+      cursor
+    });
+
+    res.json({
+      reviews: await attachReviewDetails(page.rows),
+      total_count: page.total_count,
+      next_cursor: page.next_cursor
+    });
+  } catch (error) {
+    console.error('Get reviews error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Review Photos Routes
+
+const MAX_REVIEW_PHOTOS = parseInt(process.env.MAX_REVIEW_PHOTOS || '6');
+
+/*
+Loads a review for a photo change and checks that the caller wrote it; inside a
+transaction the row stays locked until commit. Admins may remove photos but not
+add them on someone else's behalf
+*/
+async function loadOwnReview(db: Queryable, review_id: string, user: User, allowAdmin = false) {
+  const result = await db.query('SELECT * FROM reviews WHERE review_id = $1 FOR UPDATE', [review_id]);
+  const review = result.rows[0];
+  if (!review) {
+    throw new ApiError(404, 'Review not found', 'REVIEW_NOT_FOUND');
+  }
+  if (review.reviewer_id !== user.user_id && !(allowAdmin && user.role === 'admin')) {
+    throw new ApiError(403, 'Forbidden: Cannot change photos of other user reviews', 'FORBIDDEN_ACCESS');
+  }
+  return review;
+}
+
+// Under the review lock this also keeps concurrent additions within the limit
+async function assertReviewPhotoCapacity(db: Queryable, review_id: string) {
+  const result = await db.query('SELECT COUNT(*) FROM review_photos WHERE review_id = $1', [review_id]);
+  if (parseInt(result.rows[0].count) >= MAX_REVIEW_PHOTOS) {
+    throw new ApiError(409, `A review can have at most ${MAX_REVIEW_PHOTOS} photos`, 'REVIEW_PHOTO_LIMIT_REACHED');
+  }
+}
+
+/*
+Get review photos endpoint
+Retrieves the photos attached to a review, oldest first
+*/
+app.get('/api/reviews/:review_id/photos', async (req, res) => {
+  try {
+    const { review_id } = req.params;
+    const { limit, offset } = searchReviewPhotoInputSchema.parse({
+      review_id,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : MAX_REVIEW_PHOTOS,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+    });
+
+    const result = await pool.query(
+      `SELECT * FROM review_photos WHERE review_id = $1 ORDER BY created_at ASC, photo_id ASC LIMIT $2 OFFSET $3`,
+      [review_id, limit, offset]
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('Get review photos error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Add review photo endpoint
+Attaches a photo hosted elsewhere to the caller's review; renditions are
+generated in the background
+*/
+app.post('/api/reviews/:review_id/photos', authenticateToken, async (req, res) => {
+  try {
+    const { review_id } = req.params;
+    const photoData = createReviewPhotoInputSchema.parse({ ...req.body, review_id });
+
+    const newPhoto = await withTransaction(async (client) => {
+      await loadOwnReview(client, review_id, req.user);
+      await assertReviewPhotoCapacity(client, review_id);
+
+      const result = await client.query(
+        `INSERT INTO review_photos (photo_id, review_id, photo_url, caption, created_at)
+         VALUES ($1, $2, $3, $4, $5) RETURNING *`,
+        [`rphoto_${nanoid()}`, review_id, photoData.photo_url, photoData.caption || null, new Date().toISOString()]
+      );
+      await enqueuePhotoRenditions(client, 'review_photos', result.rows[0]);
+      return result.rows[0];
+    });
+
+    // Emit WebSocket event
+    io.emit('review_photo/created', newPhoto);
+
+    res.status(201).json(newPhoto);
+  } catch (error) {
+    console.error('Add review photo error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Upload review photo endpoint
+Accepts a multipart image in the "photo" field for the caller's review
+*/
+app.post('/api/reviews/:review_id/photos/upload', authenticateToken, acceptUpload(upload, 'photo'), async (req, res) => {
+  try {
+    const { review_id } = req.params;
+
+    if (!req.file) {
+      throw new ApiError(400, 'A photo file is required', 'FILE_REQUIRED');
+    }
+
+    const photoData = createReviewPhotoInputSchema.omit({ photo_url: true }).parse({
+      review_id,
+      caption: req.body.caption || null
+    });
+
+    // Checked before the image is processed, and again under the lock below
+    await loadOwnReview(pool, review_id, req.user);
+    await assertReviewPhotoCapacity(pool, review_id);
+
+    const stored = await storeUploadedPhoto(req, req.file);
+
+    const newPhoto = await withTransaction(async (client) => {
+      await loadOwnReview(client, review_id, req.user);
+      await assertReviewPhotoCapacity(client, review_id);
+
+      const result = await client.query(
+        `INSERT INTO review_photos (photo_id, review_id, photo_url, caption, thumbnail_url, card_url, full_url, blurhash, photo_file, created_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10) RETURNING *`,
+        [
+          `rphoto_${nanoid()}`, review_id, stored.photo_url, photoData.caption,
+          stored.thumbnail_url, stored.card_url, stored.full_url, stored.blurhash, stored.photo_file, new Date().toISOString()
+        ]
+      );
+      return result.rows[0];
+    }).catch(async (error) => {
+      await removePhotoFiles(stored);
+      throw error;
+    });
+
+    // Emit WebSocket event
+    io.emit('review_photo/created', newPhoto);
+
+    res.status(201).json(newPhoto);
+  } catch (error) {
+    console.error('Upload review photo error:', error);
+    await discardUpload(req.file);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Update review photo endpoint
+Changes the caption of a photo on the caller's review
+*/
+app.patch('/api/reviews/:review_id/photos/:photo_id', authenticateToken, async (req, res) => {
+  try {
+    const { review_id, photo_id } = req.params;
+    const { caption } = updateReviewPhotoInputSchema.pick({ photo_id: true, caption: true }).parse({ ...req.body, photo_id });
+
+    if (caption === undefined) {
+      return res.status(400).json(createErrorResponse('No valid fields to update', null, 'NO_UPDATE_FIELDS'));
+    }
+
+    const updatedPhoto = await withTransaction(async (client) => {
+      await loadOwnReview(client, review_id, req.user);
+      const result = await client.query(
+        `UPDATE review_photos SET caption = $1 WHERE photo_id = $2 AND review_id = $3 RETURNING *`,
+        [caption, photo_id, review_id]
+      );
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Photo not found', 'PHOTO_NOT_FOUND');
+      }
+      return result.rows[0];
+    });
+
+    // Emit WebSocket event
+    io.emit('review_photo/updated', updatedPhoto);
+
+    res.json(updatedPhoto);
+  } catch (error) {
+    console.error('Update review photo error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Delete review photo endpoint
+Removes a photo from the caller's review together with its stored files
+*/
+app.delete('/api/reviews/:review_id/photos/:photo_id', authenticateToken, async (req, res) => {
+  try {
+    const { review_id, photo_id } = req.params;
+
+    const deletedPhoto = await withTransaction(async (client) => {
+      await loadOwnReview(client, review_id, req.user, true);
+      const result = await client.query(
+        `DELETE FROM review_photos WHERE photo_id = $1 AND review_id = $2 RETURNING *`,
+        [photo_id, review_id]
+      );
+      if (result.rows.length === 0) {
+        throw new ApiError(404, 'Photo not found', 'PHOTO_NOT_FOUND');
+      }
+      return result.rows[0];
+    });
+
+    await removePhotoFiles(deletedPhoto);
+
+    // Emit WebSocket event
+    io.emit('review_photo/deleted', { photo_id });
+
+    res.status(204).send();
+  } catch (error) {
+    console.error('Delete review photo error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Review Response Routes
+
+// Hosts can reword their reply for this long after first posting it
+const REVIEW_RESPONSE_EDIT_WINDOW_DAYS = parseInt(process.env.REVIEW_RESPONSE_EDIT_WINDOW_DAYS || '14');
+
+/*
+Loads a review for a response change and checks that the caller hosted the stay;
+inside a transaction the row stays locked until commit
+*/
+async function loadHostedReview(db: Queryable, review_id: string, user: User) {
+  const result = await db.query('SELECT * FROM reviews WHERE review_id = $1 FOR UPDATE', [review_id]);
+  const review = result.rows[0];
+  if (!review) {
+    throw new ApiError(404, 'Review not found', 'REVIEW_NOT_FOUND');
+  }
+  if (review.host_id !== user.user_id) {
+    throw new ApiError(403, 'Forbidden: Only the host of the stay can respond to a review', 'FORBIDDEN_ACCESS');
+  }
+  if (!review.published_at) {
+    throw new ApiError(409, 'The review is not published yet', 'REVIEW_NOT_PUBLISHED');
+  }
+  return review;
+}
+
+// Share of the reviews a host has received that carry a response
+async function getHostStats(host_id: string) {
+  const result = await pool.query(
+    `SELECT COUNT(*) AS review_count, COUNT(rr.response_id) AS response_count
+     FROM reviews r LEFT JOIN review_responses rr ON rr.review_id = r.review_id
+     WHERE r.host_id = $1 AND r.published_at IS NOT NULL`,
+    [host_id]
+  );
+  const review_count = parseInt(result.rows[0].review_count);
+  const response_count = parseInt(result.rows[0].response_count);
+  return {
+    review_count,
+    response_count,
+    response_rate: review_count > 0 ? Math.round((response_count / review_count) * 100) / 100 : null
+  };
+}
+
+/*
+Tells the reviewer about the reply and broadcasts the review with it embedded
+*/
+async function publishReviewResponse(review, title: string, message: string) {
+  await createNotification({
+    user_id: review.reviewer_id,
+    type: 'review_response',
+    title,
+    message,
+    related_entity_type: 'review',
+    related_entity_id: review.review_id
+  });
+
+  const [updatedReview] = await attachReviewDetails([review]);
+  io.emit('review/updated', updatedReview);
+  return updatedReview;
+}
+
+/*
+Create review response endpoint
+Posts the host's public reply to a review of one of their stays; one per review
+*/
+app.post('/api/reviews/:review_id/response', authenticateToken, async (req, res) => {
+  try {
+    const { review_id } = req.params;
+    const responseData = createReviewResponseInputSchema.parse({ ...req.body, review_id, host_id: req.user.user_id });
+
+    const { review, response } = await withTransaction(async (client) => {
+      const review = await loadHostedReview(client, review_id, req.user);
+      const now = new Date().toISOString();
+      const result = await client.query(
+        `INSERT INTO review_responses (response_id, review_id, host_id, response, created_at, updated_at)
+         VALUES ($1, $2, $3, $4, $5, $6) RETURNING *`,
+        [`resp_${nanoid()}`, review_id, responseData.host_id, responseData.response, now, now]
+      );
+      return { review, response: result.rows[0] };
+    });
+
+    await publishReviewResponse(review, 'Host Responded', `${req.user.name} responded to your review`);
+
+    res.status(201).json(response);
+  } catch (error) {
+    console.error('Create review response error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
     }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    if (error.code === UNIQUE_VIOLATION) {
+      return res.status(409).json(createErrorResponse('This review already has a response', null, 'REVIEW_RESPONSE_EXISTS'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
 
-    // Pagination
-    query += ` LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-    queryParams.push(limit, offset);
-
-    const result = await pool.query(query, queryParams);
+/*
+Update review response endpoint
+Rewords the host's reply while the edit window is still open
+*/
+app.patch('/api/reviews/:review_id/response', authenticateToken, async (req, res) => {
+  try {
+    const { review_id } = req.params;
+    const responseData = updateReviewResponseInputSchema.parse({ ...req.body, review_id });
+
+    const { review, response } = await withTransaction(async (client) => {
+      const review = await loadHostedReview(client, review_id, req.user);
+      const existing = await client.query('SELECT * FROM review_responses WHERE review_id = $1', [review_id]);
+      if (existing.rows.length === 0) {
+        throw new ApiError(404, 'Review response not found', 'REVIEW_RESPONSE_NOT_FOUND');
+      }
 
-    // Get total count for pagination
-    const countQuery = `SELECT COUNT(*) FROM reviews WHERE 1=1`;
-    const countResult = await pool.query(countQuery);
+      const editableUntil = new Date(existing.rows[0].created_at).getTime() + REVIEW_RESPONSE_EDIT_WINDOW_DAYS * 24 * 60 * 60 * 1000;
+      if (Date.now() > editableUntil) {
+        throw new ApiError(409, `Responses can only be edited within ${REVIEW_RESPONSE_EDIT_WINDOW_DAYS} days of posting`, 'REVIEW_RESPONSE_EDIT_WINDOW_CLOSED');
+      }
 
-    res.json({
-      reviews: result.rows,
-      total_count: parseInt(countResult.rows[0].count)
+      const result = await client.query(
+        `UPDATE review_responses SET response = $1, updated_at = $2 WHERE review_id = $3 RETURNING *`,
+        [responseData.response, new Date().toISOString(), review_id]
+      );
+      return { review, response: result.rows[0] };
     });
+
+    await publishReviewResponse(review, 'Host Response Updated', `${req.user.name} updated their response to your review`);
+
+    res.json(response);
   } catch (error) {
-    console.error('Get reviews error:', error);
+    console.error('Update review response error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1907,7 +7117,8 @@ app.get('/api/reviews', async (req, res) => {
 
 /*
 Get user notifications endpoint
-Retrieves notifications for authenticated user with filtering
+Retrieves notifications for authenticated user with filtering, newest first; the
+total and the cursor of the next page come in X-Total-Count and X-Next-Cursor
 */
 app.get('/api/notifications', authenticateToken, async (req, res) => {
   try {
@@ -1915,29 +7126,39 @@ app.get('/api/notifications', authenticateToken, async (req, res) => {
     const notifParams = {
       is_read: req.query.is_read as string,
       limit: parseInt((req.query.limit as string) || '10'),
-      offset: parseInt((req.query.offset as string) || '0')
+      offset: parseInt((req.query.offset as string) || '0'),
+      cursor: req.query.cursor as string
     };
 
-    const { is_read, limit, offset } = notifParams;
+    const { is_read, limit, offset, cursor } = notifParams;
 
-    let query = `SELECT * FROM notifications WHERE user_id = $1`;
+    let where = `user_id = $1`;
     const queryParams = [req.user.user_id];
-    let paramCount = 2;
 
     if (is_read !== undefined) {
-      query += ` AND is_read = $${paramCount}`;
+      where += ` AND is_read = $2`;
       queryParams.push((is_read === 'true').toString());
-      paramCount++;
     }
 
-    query += ` ORDER BY created_at DESC LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
-    queryParams.push(limit.toString(), offset.toString());
-
-    const result = await pool.query(query, queryParams);
+    const page = await fetchPage({
+      select: '*',
+      from: 'notifications',
+      where,
+      params: queryParams,
+      sort: 'newest',
+      order: [{ expression: 'created_at', direction: 'DESC' }, { expression: 'notification_id', direction: 'DESC' }],
+      limit,
+      offset,
+      cursor
+    });
 
-    res.json(result.rows);
+    setPageHeaders(res, page);
+    res.json(page.rows);
   } catch (error) {
     console.error('Get notifications error:', error);
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
     res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
   }
 });
@@ -1982,7 +7203,7 @@ app.patch('/api/notifications/:notification_id', authenticateToken, async (req,
     updateValues.push(notification_id);
 
     const result = await pool.query(
-      `UPDATE notifications SET ${updateFields.join(', ')} WHERE notification_id = $${paramCount + 1} RETURNING *`,
+      `UPDATE notifications SET ${updateFields.join(', ')} WHERE notification_id = $${paramCount} RETURNING *`,
       updateValues
     );
 
@@ -2001,6 +7222,505 @@ app.patch('/api/notifications/:notification_id', authenticateToken, async (req,
   }
 });
 
+// Admin Moderation Routes
+
+/*
+Writes an audit row for a moderation decision inside the caller's transaction
+*/
+async function recordAdminAction(
+  db: Queryable,
+  data: { admin_id: string; action_type: string; target_entity_type: string; target_entity_id: string; details?: string | null }
+) {
+  const action = createAdminActionInputSchema.parse(data);
+  const result = await db.query(
+    `INSERT INTO admin_actions (action_id, admin_id, action_type, target_entity_type, target_entity_id, details, created_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7) RETURNING *`,
+    [
+      `act_${nanoid()}`, action.admin_id, action.action_type, action.target_entity_type,
+      action.target_entity_id, action.details || null, new Date().toISOString()
+    ]
+  );
+  return result.rows[0];
+}
+
+/*
+List pending identity verifications endpoint
+Users who uploaded a verification document and are not verified yet, oldest first
+*/
+app.get('/api/admin/verifications', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await pool.query(
+      `SELECT user_id, email, phone_number, phone_verified, name, role, verification_document_url, created_at, updated_at
+       FROM users WHERE is_verified = false AND verification_document_url IS NOT NULL
+       ORDER BY updated_at ASC`
+    );
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List verifications error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Review user verification endpoint
+Approves or rejects the identity document a user submitted
+*/
+app.post('/api/admin/users/:user_id/verification', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { user_id } = req.params;
+    const { approved, details } = adminVerificationInputSchema.parse(req.body);
+
+    const userCheck = await pool.query('SELECT user_id, verification_document_url, verification_document_file FROM users WHERE user_id = $1', [user_id]);
+    if (userCheck.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('User not found', null, 'USER_NOT_FOUND'));
+    }
+    if (approved && !userCheck.rows[0].verification_document_url) {
+      return res.status(400).json(createErrorResponse('User has not submitted a verification document', null, 'VERIFICATION_DOCUMENT_MISSING'));
+    }
+
+    const { user, action } = await withTransaction(async (client) => {
+      // A rejected document is cleared so the user can upload a new one
+      const updated = await client.query(
+        `UPDATE users SET is_verified = $1, verification_document_url = CASE WHEN $1 THEN verification_document_url ELSE NULL END,
+         verification_document_file = CASE WHEN $1 THEN verification_document_file ELSE NULL END,
+         updated_at = $2 WHERE user_id = $3
+         RETURNING user_id, email, phone_number, phone_verified, name, profile_picture_url, bio,
+         emergency_contact_name, emergency_contact_phone, role, is_verified,
+         verification_document_url, created_at, updated_at`,
+        [approved, new Date().toISOString(), user_id]
+      );
+      const logged = await recordAdminAction(client, {
+        admin_id: req.user.user_id,
+        action_type: approved ? 'user_verified' : 'user_verification_rejected',
+        target_entity_type: 'user',
+        target_entity_id: user_id,
+        details
+      });
+      return { user: updated.rows[0], action: logged };
+    });
+
+    if (!approved) {
+      await removeFile(userFilePath(USER_FILE_UPLOADS['verification-document'], userCheck.rows[0].verification_document_file));
+    }
+
+    await createNotification({
+      user_id,
+      type: approved ? 'account_verified' : 'verification_rejected',
+      title: approved ? 'Account Verified' : 'Verification Rejected',
+      message: approved
+        ? 'Your identity has been verified'
+        : `Your verification document was not accepted${details ? `: ${details}` : ''}`,
+      related_entity_type: 'user',
+      related_entity_id: user_id
+    });
+
+    io.emit('user/updated', user);
+
+    res.json({ user, action });
+  } catch (error) {
+    console.error('Review verification error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Approve or suspend listing endpoint
+Approval publishes the listing; suspension hides it and stops the host from
+reactivating it
+*/
+app.post('/api/admin/properties/:property_id/:decision(approve|suspend)', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { property_id, decision } = req.params;
+    const { details } = adminModerationInputSchema.parse(req.body);
+    const approved = decision === 'approve';
+
+    const { property, action } = await withTransaction(async (client) => {
+      const now = new Date().toISOString();
+      const updated = await client.query(
+        `UPDATE properties SET is_active = $1, suspended_at = $2, updated_at = $3 WHERE property_id = $4 RETURNING *`,
+        [approved, approved ? null : now, now, property_id]
+      );
+      if (updated.rows.length === 0) {
+        throw new ApiError(404, 'Property not found', 'PROPERTY_NOT_FOUND');
+      }
+      const logged = await recordAdminAction(client, {
+        admin_id: req.user.user_id,
+        action_type: approved ? 'property_approved' : 'property_suspended',
+        target_entity_type: 'property',
+        target_entity_id: property_id,
+        details
+      });
+      return { property: updated.rows[0], action: logged };
+    });
+
+    await createNotification({
+      user_id: property.host_id,
+      type: approved ? 'listing_approved' : 'listing_suspended',
+      title: approved ? 'Listing Approved' : 'Listing Suspended',
+      message: approved
+        ? `Your listing "${property.title}" is live`
+        : `Your listing "${property.title}" has been suspended${details ? `: ${details}` : ''}`,
+      related_entity_type: 'property',
+      related_entity_id: property_id
+    });
+
+    io.emit('property/updated', property);
+
+    res.json({ property, action });
+  } catch (error) {
+    console.error('Moderate property error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Remove review endpoint
+Deletes a review with its photos and host response, e.g. for abusive content
+*/
+app.delete('/api/admin/reviews/:review_id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { review_id } = req.params;
+    const { details } = adminModerationInputSchema.parse(req.body || {});
+
+    const { review, photos, action } = await withTransaction(async (client) => {
+      const existing = await client.query('SELECT * FROM reviews WHERE review_id = $1 FOR UPDATE', [review_id]);
+      if (existing.rows.length === 0) {
+        throw new ApiError(404, 'Review not found', 'REVIEW_NOT_FOUND');
+      }
+      const photos = await client.query('DELETE FROM review_photos WHERE review_id = $1 RETURNING *', [review_id]);
+      await client.query('DELETE FROM review_responses WHERE review_id = $1', [review_id]);
+      await client.query('DELETE FROM reviews WHERE review_id = $1', [review_id]);
+      const logged = await recordAdminAction(client, {
+        admin_id: req.user.user_id,
+        action_type: 'review_removed',
+        target_entity_type: 'review',
+        target_entity_id: review_id,
+        details
+      });
+      return { review: existing.rows[0], photos: photos.rows, action: logged };
+    });
+
+    for (const photo of photos) {
+      await removePhotoFiles(photo);
+    }
+
+    await refreshReviewRatingSummaries(review);
+
+    await createNotification({
+      user_id: review.reviewer_id,
+      type: 'review_removed',
+      title: 'Review Removed',
+      message: `Your review was removed by a moderator${details ? `: ${details}` : ''}`,
+      related_entity_type: 'property',
+      related_entity_id: review.property_id
+    });
+
+    io.emit('review/deleted', { review_id, property_id: review.property_id });
+
+    res.json({ review, action });
+  } catch (error) {
+    console.error('Remove review error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Cancel booking endpoint
+Cancels a pending or confirmed booking on behalf of the platform; the guest is
+refunded in full and both parties are notified
+*/
+app.post('/api/admin/bookings/:booking_id/cancel', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { booking_id } = req.params;
+    const { details } = adminModerationInputSchema.parse(req.body);
+    const actor: BookingActor = { role: 'admin', user_id: req.user.user_id };
+
+    const { booking, action } = await withTransaction(async (client) => {
+      const locked = await client.query('SELECT * FROM bookings WHERE booking_id = $1 FOR UPDATE', [booking_id]);
+      if (locked.rows.length === 0) {
+        throw new ApiError(404, 'Booking not found', 'BOOKING_NOT_FOUND');
+      }
+      const cancelled = await transitionBookingStatus(client, locked.rows[0], 'cancelled', actor, details);
+      const logged = await recordAdminAction(client, {
+        admin_id: req.user.user_id,
+        action_type: 'booking_cancelled',
+        target_entity_type: 'booking',
+        target_entity_id: booking_id,
+        details
+      });
+      return { booking: cancelled, action: logged };
+    });
+
+    // notifyBookingStatusChange tells the guest; the host hears about it here
+    await notifyBookingStatusChange(booking, actor);
+    await createNotification({
+      user_id: booking.host_id,
+      type: 'booking_cancelled',
+      title: 'Booking Cancelled',
+      message: `A booking at your listing was cancelled by LibyaStay support${details ? `: ${details}` : ''}`,
+      related_entity_type: 'booking',
+      related_entity_id: booking_id
+    });
+
+    res.json({ booking, action });
+  } catch (error) {
+    console.error('Admin cancel booking error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    if (error instanceof ApiError) {
+      return res.status(error.statusCode).json(createErrorResponse(error.message, null, error.errorCode));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Admin audit log endpoint
+Lists moderation actions with filters, newest first by default
+*/
+app.get('/api/admin/actions', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { admin_id, action_type, target_entity_type, target_entity_id, limit, offset, sort_order } = searchAdminActionInputSchema.parse({
+      admin_id: req.query.admin_id,
+      action_type: req.query.action_type,
+      target_entity_type: req.query.target_entity_type,
+      target_entity_id: req.query.target_entity_id,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined,
+      sort_order: req.query.sort_order
+    });
+
+    let where = ' WHERE 1=1';
+    const queryParams = [];
+    let paramCount = 1;
+
+    for (const [column, value] of Object.entries({ admin_id, action_type, target_entity_type, target_entity_id })) {
+      if (value) {
+        where += ` AND ${column} = $${paramCount}`;
+        queryParams.push(value);
+        paramCount++;
+      }
+    }
+
+    const result = await pool.query(
+      `SELECT * FROM admin_actions${where} ORDER BY created_at ${sort_order === 'asc' ? 'ASC' : 'DESC'}
+       LIMIT $${paramCount} OFFSET $${paramCount + 1}`,
+      [...queryParams, limit, offset]
+    );
+    const countResult = await pool.query(`SELECT COUNT(*) FROM admin_actions${where}`, queryParams);
+
+    res.json({
+      actions: result.rows,
+      total_count: parseInt(countResult.rows[0].count),
+      limit,
+      offset
+    });
+  } catch (error) {
+    console.error('List admin actions error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Admin Exchange Rate Routes
+
+/*
+Set exchange rate endpoint
+Creates or replaces the LYD rate for a currency and rate type; existing bookings
+keep the rate they snapshotted
+*/
+app.put('/api/admin/exchange-rates/:currency/:rate_type', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { currency, rate_type, lyd_per_unit } = updateExchangeRateInputSchema.parse({
+      ...req.body,
+      currency: req.params.currency.toUpperCase(),
+      rate_type: req.params.rate_type
+    });
+    if (currency === 'LYD') {
+      return res.status(400).json(createErrorResponse('LYD is the base currency and has no rate', null, 'UNSUPPORTED_CURRENCY'));
+    }
+
+    const { rate, action } = await withTransaction(async (client) => {
+      const previous = await client.query(
+        'SELECT lyd_per_unit FROM exchange_rates WHERE currency = $1 AND rate_type = $2',
+        [currency, rate_type]
+      );
+      const result = await client.query(
+        `INSERT INTO exchange_rates (currency, rate_type, lyd_per_unit, updated_by, updated_at)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (currency, rate_type) DO UPDATE
+         SET lyd_per_unit = EXCLUDED.lyd_per_unit, updated_by = EXCLUDED.updated_by, updated_at = EXCLUDED.updated_at
+         RETURNING *`,
+        [currency, rate_type, lyd_per_unit, req.user.user_id, new Date().toISOString()]
+      );
+      const logged = await recordAdminAction(client, {
+        admin_id: req.user.user_id,
+        action_type: 'exchange_rate_updated',
+        target_entity_type: 'exchange_rate',
+        target_entity_id: `${currency}:${rate_type}`,
+        details: previous.rows.length > 0
+          ? `${previous.rows[0].lyd_per_unit} -> ${lyd_per_unit} LYD`
+          : `${lyd_per_unit} LYD`
+      });
+      return { rate: result.rows[0], action: logged };
+    });
+
+    res.json({ exchange_rate: rate, action });
+  } catch (error) {
+    console.error('Set exchange rate error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+// Admin Job Routes
+
+/*
+List background jobs endpoint
+Filters the job queue by status and type, newest first
+*/
+app.get('/api/admin/jobs', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const { status, job_type, limit, offset } = searchJobInputSchema.parse({
+      status: req.query.status,
+      job_type: req.query.job_type,
+      limit: req.query.limit ? parseInt(req.query.limit as string) : undefined,
+      offset: req.query.offset ? parseInt(req.query.offset as string) : undefined
+    });
+
+    let query = 'SELECT * FROM jobs WHERE 1=1';
+    const queryParams = [];
+    let paramCount = 1;
+
+    if (status) {
+      query += ` AND status = $${paramCount}`;
+      queryParams.push(status);
+      paramCount++;
+    }
+
+    if (job_type) {
+      query += ` AND job_type = $${paramCount}`;
+      queryParams.push(job_type);
+      paramCount++;
+    }
+
+    query += ` ORDER BY created_at DESC LIMIT $${paramCount} OFFSET $${paramCount + 1}`;
+    queryParams.push(limit, offset);
+
+    const result = await pool.query(query, queryParams);
+
+    res.json(result.rows);
+  } catch (error) {
+    console.error('List jobs error:', error);
+    if (error.name === 'ZodError') {
+      return res.status(400).json(createErrorResponse('Validation error', error.errors, 'VALIDATION_ERROR'));
+    }
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Get background job endpoint
+*/
+app.get('/api/admin/jobs/:job_id', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const result = await pool.query('SELECT * FROM jobs WHERE job_id = $1', [req.params.job_id]);
+    if (result.rows.length === 0) {
+      return res.status(404).json(createErrorResponse('Job not found', null, 'JOB_NOT_FOUND'));
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Get job error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Retry background job endpoint
+Puts a failed job back in the queue with a fresh set of attempts
+*/
+app.post('/api/admin/jobs/:job_id/retry', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const now = new Date().toISOString();
+    const result = await pool.query(
+      `UPDATE jobs SET status = 'pending', attempts = 0, run_at = $1, last_error = NULL, updated_at = $1
+       WHERE job_id = $2 AND status = 'failed' RETURNING *`,
+      [now, req.params.job_id]
+    );
+
+    if (result.rows.length === 0) {
+      const existing = await pool.query('SELECT status FROM jobs WHERE job_id = $1', [req.params.job_id]);
+      if (existing.rows.length === 0) {
+        return res.status(404).json(createErrorResponse('Job not found', null, 'JOB_NOT_FOUND'));
+      }
+      return res.status(409).json(createErrorResponse(`Only failed jobs can be retried (job is ${existing.rows[0].status})`, null, 'JOB_NOT_RETRYABLE'));
+    }
+
+    res.json(result.rows[0]);
+  } catch (error) {
+    console.error('Retry job error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Run background jobs endpoint
+Triggers a scheduler pass immediately instead of waiting for the next poll
+*/
+app.post('/api/admin/jobs/run', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const summary = await runJobsOnce();
+    res.json(summary);
+  } catch (error) {
+    console.error('Run jobs error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
+/*
+Backfill photo renditions endpoint
+Queues a one-off job that schedules rendition generation for every property and
+review photo still missing them
+*/
+app.post('/api/admin/photos/backfill-renditions', authenticateToken, requireAdmin, async (req, res) => {
+  try {
+    const now = new Date().toISOString();
+    const job = await enqueueJob(pool, {
+      job_type: 'backfill_photo_renditions',
+      dedupe_key: `backfill_photo_renditions:${now}`,
+      payload: {},
+      run_at: now
+    });
+
+    res.status(202).json(job);
+  } catch (error) {
+    console.error('Backfill photo renditions error:', error);
+    res.status(500).json(createErrorResponse('Internal server error', error, 'INTERNAL_SERVER_ERROR'));
+  }
+});
+
 // Health Check Endpoint
 app.get('/api/health', (req, res) => {
   res.json({ status: 'ok', timestamp: new Date().toISOString() });
@@ -2038,9 +7758,14 @@ io.on('connection', (socket) => {
 //   res.sendFile(path.join(__dirname, 'public', 'index.html'));
 // });
 
-export { app, pool };
+export { app, pool, smsProvider, calendarFetcher };
 
-// Start the server
-server.listen(port, '0.0.0.0', () => {
-  console.log(`Server running on port ${port} and listening on 0.0.0.0`);
-});
\ No newline at end of file
+// Start the server; tests drive the app through supertest instead
+if (process.env.NODE_ENV !== 'test') {
+  server.listen(port, '0.0.0.0', () => {
+    console.log(`Server running on port ${port} and listening on 0.0.0.0`);
+    if (process.env.JOBS_ENABLED !== 'false') {
+      startJobRunner();
+    }
+  });
+}
\ No newline at end of file
@@ -0,0 +1,33 @@
+import { Image, type ImageProps } from 'expo-image';
+
+export type PhotoRendition = 'thumbnail' | 'card' | 'full';
+
+export type PropertyPhotoData = {
+  photo_id: string;
+  photo_url: string;
+  thumbnail_url?: string | null;
+  card_url?: string | null;
+  full_url?: string | null;
+  blurhash?: string | null;
+};
+
+export type PropertyPhotoProps = Omit<ImageProps, 'source' | 'placeholder'> & {
+  photo: PropertyPhotoData;
+  size?: PhotoRendition;
+};
+
+// Photos uploaded before renditions existed fall back to the original until the backfill reaches them
+export function PropertyPhoto({ photo, size = 'card', contentFit = 'cover', ...otherProps }: PropertyPhotoProps) {
+  const uri = photo[`${size}_url`] || photo.photo_url;
+
+  return (
+    <Image
+      source={{ uri }}
+      placeholder={photo.blurhash ? { blurhash: photo.blurhash } : undefined}
+      contentFit={contentFit}
+      transition={200}
+      recyclingKey={photo.photo_id}
+      {...otherProps}
+    />
+  );
+}
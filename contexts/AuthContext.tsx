@@ -5,6 +5,7 @@ interface User {
   user_id: string;
   email: string;
   phone_number: string;
+  phone_verified: boolean;
   name: string;
   profile_picture_url: string | null;
   bio: string | null;
@@ -23,10 +24,10 @@ interface AuthContextType {
   isLoading: boolean;
   isAuthenticated: boolean;
   login: (email: string, password: string) => Promise<void>;
-  logout: () => void;
+  logout: () => Promise<void>;
   register: (userData: {
     email: string;
-    password_hash: string;
+    password: string;
     name: string;
     phone_number: string;
     role: string;
@@ -53,6 +54,8 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
   useEffect(() => {
     // Check for existing token on app load
     checkAuthStatus();
+    apiService.onTokenRefresh(setToken);
+    return () => apiService.onTokenRefresh(null);
   }, []);
 
   const checkAuthStatus = async () => {
@@ -78,6 +81,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setUser(result.user);
         setToken(result.token);
         apiService.setToken(result.token);
+        apiService.setRefreshToken(result.refresh_token);
       } else {
         throw new Error('Invalid login response');
       }
@@ -89,7 +93,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
 
   const register = async (userData: {
     email: string;
-    password_hash: string;
+    password: string;
     name: string;
     phone_number: string;
     role: string;
@@ -100,6 +104,7 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
         setUser(result.user);
         setToken(result.token);
         apiService.setToken(result.token);
+        apiService.setRefreshToken(result.refresh_token);
       } else {
         throw new Error('Invalid registration response');
       }
@@ -109,10 +114,16 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
     }
   };
 
-  const logout = () => {
+  const logout = async () => {
+    try {
+      await apiService.logout();
+    } catch (error) {
+      console.log('Logout request failed, clearing local session anyway');
+    }
     setUser(null);
     setToken(null);
     apiService.setToken(null);
+    apiService.setRefreshToken(null);
   };
 
   const value: AuthContextType = {
@@ -1,5 +1,40 @@
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { apiService } from '@/services/api';
+import type { PropertyPhotoData } from '@/components/property-photo';
+
+export interface RatingSummary {
+  review_count: number;
+  overall_rating: number | null;
+  cleanliness_rating: number | null;
+  accuracy_rating: number | null;
+  communication_rating: number | null;
+  location_rating: number | null;
+  check_in_rating: number | null;
+  value_rating: number | null;
+  rating_distribution: Record<'1' | '2' | '3' | '4' | '5', number>;
+}
+
+// Restrictions over a span of dates; both dates are inclusive
+export interface StayRestriction {
+  restriction_id: string;
+  property_id: string;
+  start_date: string;
+  end_date: string;
+  min_nights: number | null;
+  max_nights: number | null;
+  closed_to_arrival: boolean;
+  closed_to_departure: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Amenity {
+  amenity_key: string;
+  name_en: string;
+  name_ar: string;
+  category: string;
+  display_order: number;
+}
 
 interface Property {
   property_id: string;
@@ -17,14 +52,39 @@ interface Property {
   beds: number;
   bathrooms: number;
   amenities: string | null;
+  amenity_list?: Amenity[];
   base_price_per_night: string;
   currency: string;
+  // Present when a display_currency was requested
+  display_currency?: string;
+  exchange_rate?: number | null;
+  exchange_rate_type?: string;
+  display_price_per_night?: number | null;
+  // Present when searching with check_in and check_out; pricing rules applied, service fee not
+  stay_nights?: number;
+  stay_subtotal?: number;
+  stay_price_per_night?: number;
+  display_stay_subtotal?: number | null;
   has_power_backup: boolean;
   has_water_tank: boolean;
   house_rules: string | null;
   cancellation_policy: string;
   instant_book: boolean;
+  instant_book_requires_verified: boolean;
+  // Weekdays are 0 = Sunday to 6 = Saturday; null limits are unlimited
+  min_nights: number;
+  max_nights: number | null;
+  advance_notice_hours: number;
+  booking_window_days: number | null;
+  closed_arrival_weekdays: number[];
+  closed_departure_weekdays: number[];
+  // Upcoming ones, on property details
+  stay_restrictions?: StayRestriction[];
   is_active: boolean;
+  cover_photo?: PropertyPhotoData | null;
+  rating_summary?: RatingSummary;
+  host_rating_summary?: RatingSummary;
+  distance_km?: number;
   created_at: string;
   updated_at: string;
 }
@@ -34,12 +94,21 @@ interface PropertiesContextType {
   loading: boolean;
   error: string | null;
   searchProperties: (filters?: {
+    q?: string;
     location?: string;
     check_in?: string;
     check_out?: string;
     guests?: number;
     price_min?: number;
     price_max?: number;
+    display_currency?: string;
+    rate_type?: 'official' | 'parallel';
+    amenities?: string;
+    min_rating?: number;
+    near?: string;
+    radius_km?: number;
+    bbox?: string;
+    sort_by?: 'price_low_to_high' | 'price_high_to_low' | 'rating' | 'distance' | 'relevance' | 'newest';
   }) => Promise<void>;
   getPropertyDetails: (propertyId: string) => Promise<Property | null>;
   clearError: () => void;
@@ -61,12 +130,21 @@ export const PropertiesProvider: React.FC<{ children: React.ReactNode }> = ({ ch
   const [error, setError] = useState<string | null>(null);
 
   const searchProperties = async (filters?: {
+    q?: string;
     location?: string;
     check_in?: string;
     check_out?: string;
     guests?: number;
     price_min?: number;
     price_max?: number;
+    display_currency?: string;
+    rate_type?: 'official' | 'parallel';
+    amenities?: string;
+    min_rating?: number;
+    near?: string;
+    radius_km?: number;
+    bbox?: string;
+    sort_by?: 'price_low_to_high' | 'price_high_to_low' | 'rating' | 'distance' | 'relevance' | 'newest';
   }) => {
     setLoading(true);
     setError(null);
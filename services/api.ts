@@ -4,6 +4,33 @@ const API_BASE_URL = Constants.expoConfig?.extra?.apiUrl ||
   process.env.EXPO_PUBLIC_API_URL || 
   'https://123templatetest-api.launchpulse.ai';
 
+// A file as returned by the device image or document picker
+export interface UploadAsset {
+  uri: string;
+  fileName?: string | null;
+  mimeType?: string | null;
+}
+
+// One page of a cursor-paginated list
+export interface Page<T> {
+  items: T[];
+  total_count: number;
+  next_cursor: string | null;
+}
+
+type QueryParams = Record<string, string | number | boolean | undefined>;
+
+// Types by file extension, for assets the picker returns without a mimeType;
+// the server checks the content itself but rejects uploads of unexpected types
+const UPLOAD_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  pdf: 'application/pdf',
+  ics: 'text/calendar',
+};
+
 interface ApiResponse<T> {
   success?: boolean;
   data?: T;
@@ -15,6 +42,9 @@ interface ApiResponse<T> {
 class ApiService {
   private baseURL: string;
   private token: string | null = null;
+  private refreshToken: string | null = null;
+  private refreshing: Promise<void> | null = null;
+  private tokenListener: ((token: string | null) => void) | null = null;
 
   constructor() {
     this.baseURL = API_BASE_URL;
@@ -24,10 +54,43 @@ class ApiService {
     this.token = token;
   }
 
-  private async request<T>(endpoint: string, options: RequestInit = {}): Promise<ApiResponse<T>> {
+  setRefreshToken(refreshToken: string | null) {
+    this.refreshToken = refreshToken;
+  }
+
+  // Called with the new access token whenever it is refreshed behind the caller's back
+  onTokenRefresh(listener: ((token: string | null) => void) | null) {
+    this.tokenListener = listener;
+  }
+
+  private async refreshAccessToken() {
+    // Concurrent 401s share one refresh, since each refresh token works only once
+    if (!this.refreshing) {
+      this.refreshing = (async () => {
+        const result = await this.request<never>('/api/auth/refresh', {
+          method: 'POST',
+          body: JSON.stringify({ refresh_token: this.refreshToken }),
+        }, false);
+        this.token = result.token;
+        this.refreshToken = result.refresh_token;
+        this.tokenListener?.(result.token);
+      })().finally(() => {
+        this.refreshing = null;
+      });
+    }
+    return this.refreshing;
+  }
+
+  private async request<T>(endpoint: string, options: RequestInit = {}, retryOnExpiry = true): Promise<ApiResponse<T>> {
+    return (await this.send<T>(endpoint, options, retryOnExpiry)).data;
+  }
+
+  // Like request, but also returns the response headers
+  private async send<T>(endpoint: string, options: RequestInit = {}, retryOnExpiry = true): Promise<{ data: ApiResponse<T>; headers: Headers }> {
     const url = `${this.baseURL}${endpoint}`;
+    // Multipart bodies need fetch to set the boundary itself
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
+      ...(options.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
       ...options.headers as Record<string, string>,
     };
 
@@ -41,19 +104,52 @@ class ApiService {
         headers,
       });
 
-      const data = await response.json();
+      // 204 responses carry no body
+      const data = response.status === 204 ? {} : await response.json();
+
+      if (response.status === 401 && data.error_code === 'AUTH_TOKEN_EXPIRED' && retryOnExpiry && this.refreshToken) {
+        await this.refreshAccessToken();
+        return this.send<T>(endpoint, options, false);
+      }
 
       if (!response.ok) {
         throw new Error(data.message || `HTTP error! status: ${response.status}`);
       }
 
-      return data;
+      return { data, headers: response.headers };
     } catch (error) {
       console.error(`API request failed: ${endpoint}`, error);
       throw error;
     }
   }
 
+  /*
+  Follows next_cursor through a list one page at a time:
+  for await (const page of apiService.bookingPages({ status: 'confirmed' })) { ... }
+  Lists wrapped in an object are read from key; bare arrays carry the page in headers
+  */
+  private async *pages<T>(endpoint: string, params: QueryParams = {}, key?: string): AsyncGenerator<Page<T>> {
+    let cursor: string | null = null;
+    do {
+      const queryParams = new URLSearchParams();
+      Object.entries(params).forEach(([name, value]) => {
+        if (value !== undefined) {
+          queryParams.append(name, value.toString());
+        }
+      });
+      if (cursor) {
+        queryParams.append('cursor', cursor);
+      }
+
+      const { data, headers } = await this.send<T>(`${endpoint}?${queryParams.toString()}`);
+      const page: Page<T> = key
+        ? { items: data[key], total_count: data.total_count, next_cursor: data.next_cursor }
+        : { items: data as unknown as T[], total_count: Number(headers.get('X-Total-Count')), next_cursor: headers.get('X-Next-Cursor') };
+      yield page;
+      cursor = page.next_cursor;
+    } while (cursor);
+  }
+
   // Authentication
   async login(email: string, password: string) {
     return this.request('/api/auth/login', {
@@ -64,7 +160,7 @@ class ApiService {
 
   async register(userData: {
     email: string;
-    password_hash: string;
+    password: string;
     name: string;
     phone_number: string;
     role: string;
@@ -79,14 +175,99 @@ class ApiService {
     return this.request('/api/auth/verify');
   }
 
+  // Texts a verification code to a Libyan (+218 9x) number; defaults to the account's number
+  async sendPhoneCode(phoneNumber?: string) {
+    return this.request('/api/auth/phone/send-code', {
+      method: 'POST',
+      body: JSON.stringify(phoneNumber ? { phone_number: phoneNumber } : {}),
+    });
+  }
+
+  async verifyPhoneCode(code: string) {
+    return this.request('/api/auth/phone/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
+    });
+  }
+
+  async logout() {
+    return this.request('/api/auth/logout', {
+      method: 'POST',
+    });
+  }
+
+  async getSessions() {
+    return this.request('/api/auth/sessions');
+  }
+
+  async revokeSession(sessionId: string) {
+    return this.request(`/api/auth/sessions/${sessionId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  async revokeOtherSessions() {
+    return this.request('/api/auth/sessions', {
+      method: 'DELETE',
+    });
+  }
+
+  async changePassword(currentPassword: string, newPassword: string) {
+    return this.request('/api/auth/change-password', {
+      method: 'POST',
+      body: JSON.stringify({ current_password: currentPassword, new_password: newPassword }),
+    });
+  }
+
+  private upload(endpoint: string, field: string, asset: UploadAsset, fields: Record<string, string> = {}) {
+    const form = new FormData();
+    const name = asset.fileName || asset.uri.split('/').pop() || field;
+    const extension = name.slice(name.lastIndexOf('.') + 1).toLowerCase();
+    // React Native streams the file from its uri; the object stands in for a Blob
+    form.append(field, {
+      uri: asset.uri,
+      name,
+      type: asset.mimeType || UPLOAD_MIME_TYPES[extension] || 'application/octet-stream',
+    } as unknown as Blob);
+    Object.entries(fields).forEach(([key, value]) => form.append(key, value));
+
+    return this.request(endpoint, {
+      method: 'POST',
+      body: form,
+    });
+  }
+
+  async uploadProfilePicture(userId: string, asset: UploadAsset) {
+    return this.upload(`/api/users/${userId}/profile-picture`, 'photo', asset);
+  }
+
+  async uploadVerificationDocument(userId: string, asset: UploadAsset) {
+    return this.upload(`/api/users/${userId}/verification-document`, 'document', asset);
+  }
+
   // Properties
   async getProperties(params?: {
+    // Free text in Arabic or English; results come most relevant first
+    q?: string;
     location?: string;
     check_in?: string;
     check_out?: string;
     guests?: number;
+    // In display_currency, LYD by default
     price_min?: number;
     price_max?: number;
+    // Adds display_price_per_night converted at rate_type
+    display_currency?: string;
+    rate_type?: 'official' | 'parallel';
+    // Comma-separated amenity keys, all of which must be offered, e.g. "wifi,parking"
+    amenities?: string;
+    min_rating?: number;
+    // "latitude,longitude"; results come nearest first with distance_km
+    near?: string;
+    radius_km?: number;
+    // "west,south,east,north"
+    bbox?: string;
+    sort_by?: 'price_low_to_high' | 'price_high_to_low' | 'rating' | 'distance' | 'relevance' | 'newest';
     limit?: number;
     offset?: number;
   }) {
@@ -102,14 +283,83 @@ class ApiService {
     return this.request(`/api/properties?${queryParams.toString()}`);
   }
 
-  async getProperty(propertyId: string) {
-    return this.request(`/api/properties/${propertyId}`);
+  propertyPages(params: Omit<NonNullable<Parameters<ApiService['getProperties']>[0]>, 'offset'> = {}) {
+    return this.pages('/api/properties', params, 'properties');
+  }
+
+  // GeoJSON points of the listings in view, for clustering on a map
+  async getPropertyMap(params: {
+    q?: string;
+    bbox?: string;
+    near?: string;
+    radius_km?: number;
+    guests?: number;
+    price_min?: number;
+    price_max?: number;
+    display_currency?: string;
+    rate_type?: 'official' | 'parallel';
+    property_type?: string;
+    amenities?: string;
+    min_rating?: number;
+  }) {
+    const queryParams = new URLSearchParams();
+    Object.entries(params).forEach(([key, value]) => {
+      if (value !== undefined) {
+        queryParams.append(key, value.toString());
+      }
+    });
+
+    return this.request(`/api/properties/map?${queryParams.toString()}`);
+  }
+
+  // Amenity catalog with English and Arabic labels
+  async getAmenities(category?: string) {
+    const queryParams = new URLSearchParams();
+    if (category) queryParams.append('category', category);
+
+    return this.request(`/api/amenities?${queryParams.toString()}`);
+  }
+
+  // LYD per unit of each supported currency
+  async getExchangeRates(rateType?: 'official' | 'parallel') {
+    const queryParams = new URLSearchParams();
+    if (rateType) queryParams.append('rate_type', rateType);
+
+    return this.request(`/api/exchange-rates?${queryParams.toString()}`);
+  }
+
+  async getProperty(propertyId: string, display?: { display_currency: string; rate_type?: 'official' | 'parallel' }) {
+    const queryParams = new URLSearchParams();
+    if (display) {
+      queryParams.append('display_currency', display.display_currency);
+      if (display.rate_type) queryParams.append('rate_type', display.rate_type);
+    }
+
+    return this.request(`/api/properties/${propertyId}?${queryParams.toString()}`);
   }
 
   async getPropertyPhotos(propertyId: string) {
     return this.request(`/api/properties/${propertyId}/photos`);
   }
 
+  async uploadPropertyPhoto(propertyId: string, asset: UploadAsset, caption?: string) {
+    return this.upload(`/api/properties/${propertyId}/photos/upload`, 'photo', asset, caption ? { caption } : {});
+  }
+
+  async getPropertyQuote(propertyId: string, checkIn: string, checkOut: string, guests: number) {
+    const queryParams = new URLSearchParams();
+    queryParams.append('check_in', checkIn);
+    queryParams.append('check_out', checkOut);
+    queryParams.append('guests', guests.toString());
+
+    return this.request(`/api/properties/${propertyId}/quote?${queryParams.toString()}`);
+  }
+
+  // Whether a booking by the signed-in guest would be confirmed without host approval
+  async getInstantBookEligibility(propertyId: string) {
+    return this.request(`/api/properties/${propertyId}/instant-book`);
+  }
+
   async getPropertyAvailability(propertyId: string, startDate?: string, endDate?: string) {
     const queryParams = new URLSearchParams();
     if (startDate) queryParams.append('start_date', startDate);
@@ -118,6 +368,152 @@ class ApiService {
     return this.request(`/api/properties/${propertyId}/availability?${queryParams.toString()}`);
   }
 
+  // Blocks, reopens or prices a span of dates; weekdays (0 = Sunday) limits it to those days
+  async setAvailabilityRange(propertyId: string, range: {
+    start_date: string;
+    end_date: string;
+    weekdays?: number[];
+    is_available?: boolean;
+    price_override?: number | null;
+  }) {
+    return this.request(`/api/properties/${propertyId}/availability`, {
+      method: 'PUT',
+      body: JSON.stringify(range),
+    });
+  }
+
+  // Host view of each day with its status, price, booking and pending requests
+  async getPropertyCalendar(propertyId: string, startDate?: string, endDate?: string) {
+    const queryParams = new URLSearchParams();
+    if (startDate) queryParams.append('start_date', startDate);
+    if (endDate) queryParams.append('end_date', endDate);
+
+    return this.request(`/api/properties/${propertyId}/calendar?${queryParams.toString()}`);
+  }
+
+  // Calendar sync with other booking channels
+  async getCalendarExport(propertyId: string) {
+    return this.request(`/api/properties/${propertyId}/ical/export`);
+  }
+
+  // The previous export URL stops working
+  async rotateCalendarExport(propertyId: string) {
+    return this.request(`/api/properties/${propertyId}/ical/export/rotate`, {
+      method: 'POST',
+    });
+  }
+
+  async getCalendarImports(propertyId: string) {
+    return this.request(`/api/properties/${propertyId}/ical/imports`);
+  }
+
+  // Linked calendars are pulled again periodically
+  async linkCalendar(propertyId: string, name: string, sourceUrl: string) {
+    return this.request(`/api/properties/${propertyId}/ical/imports`, {
+      method: 'POST',
+      body: JSON.stringify({ name, source_url: sourceUrl }),
+    });
+  }
+
+  async uploadCalendar(propertyId: string, name: string, asset: UploadAsset) {
+    return this.upload(`/api/properties/${propertyId}/ical/imports`, 'calendar', asset, { name });
+  }
+
+  // Uploaded calendars sync from a new file
+  async syncCalendarImport(propertyId: string, importId: string, asset?: UploadAsset) {
+    const endpoint = `/api/properties/${propertyId}/ical/imports/${importId}/sync`;
+    return asset ? this.upload(endpoint, 'calendar', asset) : this.request(endpoint, { method: 'POST' });
+  }
+
+  async deleteCalendarImport(propertyId: string, importId: string) {
+    return this.request(`/api/properties/${propertyId}/ical/imports/${importId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Weekend, seasonal, length-of-stay and booking-window pricing
+  async getPricingRules(propertyId: string) {
+    return this.request(`/api/properties/${propertyId}/pricing-rules`);
+  }
+
+  async createPricingRule(propertyId: string, rule: {
+    rule_type: 'weekend' | 'seasonal' | 'length_of_stay' | 'early_bird' | 'last_minute';
+    name: string;
+    start_date?: string | null;
+    end_date?: string | null;
+    nightly_price?: number | null;
+    adjustment_percent?: number | null;
+    min_nights?: number | null;
+    days_before?: number | null;
+    is_active?: boolean;
+  }) {
+    return this.request(`/api/properties/${propertyId}/pricing-rules`, {
+      method: 'POST',
+      body: JSON.stringify(rule),
+    });
+  }
+
+  async updatePricingRule(propertyId: string, ruleId: string, updates: {
+    name?: string;
+    start_date?: string | null;
+    end_date?: string | null;
+    nightly_price?: number | null;
+    adjustment_percent?: number | null;
+    min_nights?: number | null;
+    days_before?: number | null;
+    is_active?: boolean;
+  }) {
+    return this.request(`/api/properties/${propertyId}/pricing-rules/${ruleId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deletePricingRule(propertyId: string, ruleId: string) {
+    return this.request(`/api/properties/${propertyId}/pricing-rules/${ruleId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Minimum and maximum nights and closed arrival or departure dates over a span of dates
+  async getStayRestrictions(propertyId: string) {
+    return this.request(`/api/properties/${propertyId}/stay-restrictions`);
+  }
+
+  async createStayRestriction(propertyId: string, restriction: {
+    start_date: string;
+    end_date: string;
+    min_nights?: number | null;
+    max_nights?: number | null;
+    closed_to_arrival?: boolean;
+    closed_to_departure?: boolean;
+  }) {
+    return this.request(`/api/properties/${propertyId}/stay-restrictions`, {
+      method: 'POST',
+      body: JSON.stringify(restriction),
+    });
+  }
+
+  async updateStayRestriction(propertyId: string, restrictionId: string, updates: {
+    start_date?: string;
+    end_date?: string;
+    min_nights?: number | null;
+    max_nights?: number | null;
+    closed_to_arrival?: boolean;
+    closed_to_departure?: boolean;
+  }) {
+    return this.request(`/api/properties/${propertyId}/stay-restrictions/${restrictionId}`, {
+      method: 'PATCH',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async deleteStayRestriction(propertyId: string, restrictionId: string) {
+    return this.request(`/api/properties/${propertyId}/stay-restrictions/${restrictionId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Users
   async getUser(userId: string) {
     return this.request(`/api/users/${userId}`);
@@ -135,14 +531,31 @@ class ApiService {
   }
 
   // Bookings
+  // Admins page through every booking; everyone else through the bookings they are a party to
+  bookingPages(params: {
+    property_id?: string;
+    guest_id?: string;
+    host_id?: string;
+    status?: string;
+    start_date?: string;
+    end_date?: string;
+    limit?: number;
+  } = {}) {
+    return this.pages('/api/bookings', params, 'bookings');
+  }
+
   async createBooking(bookingData: {
     property_id: string;
     check_in: string;
     check_out: string;
     guest_count: number;
-    total_price: number;
-    service_fee: number;
+    // Optional: the server prices the stay itself and rejects mismatching totals
+    total_price?: number;
+    service_fee?: number;
     special_requests?: string;
+    // Currency the guest saw prices in; the booking keeps the rate used
+    display_currency?: string;
+    rate_type?: 'official' | 'parallel';
   }) {
     return this.request('/api/bookings', {
       method: 'POST',
@@ -154,18 +567,44 @@ class ApiService {
     return this.request(`/api/bookings/${bookingId}`);
   }
 
-  async updateBooking(bookingId: string, updates: any) {
+  async updateBooking(bookingId: string, updates: {
+    status?: 'confirmed' | 'declined' | 'cancelled';
+    special_requests?: string | null;
+    reason?: string;
+  }) {
     return this.request(`/api/bookings/${bookingId}`, {
       method: 'PATCH',
       body: JSON.stringify(updates),
     });
   }
 
+  async getBookingHistory(bookingId: string) {
+    return this.request(`/api/bookings/${bookingId}/history`);
+  }
+
+  async getCancellationPreview(bookingId: string) {
+    return this.request(`/api/bookings/${bookingId}/cancellation-preview`);
+  }
+
+  async getBookingCancellation(bookingId: string) {
+    return this.request(`/api/bookings/${bookingId}/cancellation`);
+  }
+
   // Reviews
   async getPropertyReviews(propertyId: string) {
     return this.request(`/api/properties/${propertyId}/reviews`);
   }
 
+  reviewPages(params: {
+    property_id?: string;
+    reviewer_id?: string;
+    host_id?: string;
+    sort_by?: 'rating_high_to_low' | 'rating_low_to_high' | 'newest' | 'oldest';
+    limit?: number;
+  } = {}) {
+    return this.pages('/api/reviews', params, 'reviews');
+  }
+
   async createReview(bookingId: string, reviewData: {
     cleanliness_rating: number;
     accuracy_rating: number;
@@ -182,11 +621,69 @@ class ApiService {
     });
   }
 
+  // Hosts rate the guest of a completed stay; hidden until the guest reviews too or the window closes
+  async createGuestReview(bookingId: string, reviewData: {
+    house_rules_rating: number;
+    cleanliness_rating: number;
+    communication_rating: number;
+    overall_rating: number;
+    comment?: string;
+  }) {
+    return this.request(`/api/bookings/${bookingId}/guest-reviews`, {
+      method: 'POST',
+      body: JSON.stringify(reviewData),
+    });
+  }
+
+  async getGuestReviews(userId: string, limit = 10, offset = 0) {
+    return this.request(`/api/users/${userId}/guest-reviews?limit=${limit}&offset=${offset}`);
+  }
+
+  // Hosts only; one public response per review
+  async respondToReview(reviewId: string, response: string) {
+    return this.request(`/api/reviews/${reviewId}/response`, {
+      method: 'POST',
+      body: JSON.stringify({ response }),
+    });
+  }
+
+  async updateReviewResponse(reviewId: string, response: string) {
+    return this.request(`/api/reviews/${reviewId}/response`, {
+      method: 'PATCH',
+      body: JSON.stringify({ response }),
+    });
+  }
+
+  async getReviewPhotos(reviewId: string) {
+    return this.request(`/api/reviews/${reviewId}/photos`);
+  }
+
+  async uploadReviewPhoto(reviewId: string, asset: UploadAsset, caption?: string) {
+    return this.upload(`/api/reviews/${reviewId}/photos/upload`, 'photo', asset, caption ? { caption } : {});
+  }
+
+  async updateReviewPhoto(reviewId: string, photoId: string, caption: string | null) {
+    return this.request(`/api/reviews/${reviewId}/photos/${photoId}`, {
+      method: 'PATCH',
+      body: JSON.stringify({ caption }),
+    });
+  }
+
+  async deleteReviewPhoto(reviewId: string, photoId: string) {
+    return this.request(`/api/reviews/${reviewId}/photos/${photoId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Conversations
   async getConversations() {
     return this.request('/api/conversations');
   }
 
+  conversationPages(limit?: number) {
+    return this.pages('/api/conversations', { limit });
+  }
+
   async getConversation(conversationId: string) {
     return this.request(`/api/conversations/${conversationId}`);
   }
@@ -195,6 +692,11 @@ class ApiService {
     return this.request(`/api/conversations/${conversationId}/messages?limit=${limit}&offset=${offset}`);
   }
 
+  // Oldest first
+  messagePages(conversationId: string, limit?: number) {
+    return this.pages(`/api/conversations/${conversationId}/messages`, { limit });
+  }
+
   async sendMessage(conversationId: string, content: string) {
     return this.request(`/api/conversations/${conversationId}/messages`, {
       method: 'POST',
@@ -214,6 +716,10 @@ class ApiService {
     return this.request(`/api/notifications?${queryParams.toString()}`);
   }
 
+  notificationPages(isRead?: boolean, limit?: number) {
+    return this.pages('/api/notifications', { is_read: isRead, limit });
+  }
+
   async updateNotification(notificationId: string, updates: any) {
     return this.request(`/api/notifications/${notificationId}`, {
       method: 'PATCH',